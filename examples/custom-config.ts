@@ -38,11 +38,22 @@ const testConfig: ExtractorConfig = {
 const ciConfig: ExtractorConfig = {
   ...DEFAULT_CONFIG,
   downloadTimeout: 60000, // Longer timeout for CI
+  retries: 5, // Ride out flaky runners and mirrors
   extensionsDir: process.env.CI_EXTENSIONS_DIR || '_extensions_ci',
   allowedOutputPaths: ['.', process.env.CI_OUTPUT_DIR || '.'],
   logLevel: LogLevel.INFO
 };
 
+// Configuration for fetching the macOS Apple Silicon build as a recent Chrome would
+const macConfig: ExtractorConfig = {
+  ...DEFAULT_CONFIG,
+  prodVersion: '126.0.6478.55',
+  os: 'mac',
+  arch: 'arm64',
+  extensionsDir: '_extensions_mac',
+  updateUrl: process.env.CRX_UPDATE_URL || DEFAULT_CONFIG.updateUrl // e.g. an internal mirror
+};
+
 async function main() {
   const args = Bun.argv.slice(2);
   const mode = args[0] || 'dev';
@@ -57,6 +68,7 @@ Modes:
   prod  - Production mode with stricter limits
   test  - Test mode using temp directory
   ci    - CI/CD mode with environment variables
+  mac   - Fetch the macOS arm64 package (CRX_UPDATE_URL overrides the endpoint)
 
 Example:
   bun run examples/custom-config.ts dev nkbihfbeogaeaoehlefnkodbefgpgknn
@@ -75,6 +87,9 @@ Example:
     case 'ci':
       config = ciConfig;
       break;
+    case 'mac':
+      config = macConfig;
+      break;
     case 'dev':
     default:
       config = devConfig;
@@ -5,7 +5,8 @@
  * Example of using CRX Extractor programmatically
  */
 
-import { CRXError, CRXExtractor, DownloadError, type ExtractorConfig, LogLevel, ValidationError } from '../index';
+import { BatchExtractor, CRXError, CRXExtractor, DownloadError, type ExtractorConfig, LogLevel, ValidationError } from '../index';
+import { DEFAULT_CONFIG } from '../src/config/defaults';
 
 // Example 1: Extract with custom configuration
 async function extractWithCustomConfig() {
@@ -13,11 +14,13 @@ async function extractWithCustomConfig() {
     maxFileSize: 200 * 1024 * 1024, // 200MB
     downloadTimeout: 60000, // 60 seconds
     maxExtractionRatio: 50, // More conservative than default
+    maxEntryExtractionRatio: 500,
     maxExtractedFiles: 5000,
     maxExtractedSize: 500 * 1024 * 1024, // 500MB
     allowedOutputPaths: ['.', '/tmp'], // Allow current working dir and /tmp
     logLevel: LogLevel.DEBUG,
-    extensionsDir: 'my-extensions'
+    extensionsDir: 'my-extensions',
+    verifySignatures: true
   };
 
   try {
@@ -32,27 +35,22 @@ async function extractWithCustomConfig() {
 // Example 2: Batch extraction
 async function batchExtract(extensionIds: string[]) {
   const config: ExtractorConfig = {
+    ...DEFAULT_CONFIG,
     maxFileSize: 100 * 1024 * 1024,
-    downloadTimeout: 30000,
-    maxExtractionRatio: 100,
-    maxExtractedFiles: 10000,
-    maxExtractedSize: 1024 * 1024 * 1024,
-    allowedOutputPaths: ['.'],
-    logLevel: LogLevel.INFO,
+    logLevel: LogLevel.WARN, // Logs of parallel extractions interleave
     extensionsDir: '_extensions' // Uses default _extensions directory
   };
 
-  for (const id of extensionIds) {
-    console.log(`\n📦 Processing extension: ${id}`);
+  const batch = new BatchExtractor(config);
+  batch.on('item', ({ result, completed, total }) => {
+    const outcome = result.status === 'succeeded' ? `✅ ${result.name}` : `❌ ${result.input}: ${result.errorCode}`;
+    console.log(`[${completed}/${total}] ${outcome}`);
+  });
 
-    try {
-      const extractor = new CRXExtractor(id, config);
-      await extractor.extract();
-      console.log(`✅ ${id} extracted successfully`);
-    } catch (error) {
-      console.error(`❌ Failed to extract ${id}:`);
-      handleError(error);
-    }
+  const report = await batch.run(extensionIds, { concurrency: 2, continueOnError: true });
+  console.log(`\n📦 ${report.succeeded} extracted, ${report.failed} failed`);
+  for (const failure of report.results.filter(result => result.status === 'failed')) {
+    console.error(`   ${failure.input}: ${failure.errorMessage}`);
   }
 }
 
@@ -64,11 +62,13 @@ async function extractLocalFile(filePath: string) {
       maxFileSize: 500 * 1024 * 1024,
       downloadTimeout: 30000,
       maxExtractionRatio: 100,
+      maxEntryExtractionRatio: 1000,
       maxExtractedFiles: 10000,
       maxExtractedSize: 1024 * 1024 * 1024,
       allowedOutputPaths: ['.'],
       logLevel: LogLevel.ERROR, // Only show errors
-      extensionsDir: 'local-extensions'
+      extensionsDir: 'local-extensions',
+      verifySignatures: true
     };
 
     const extractor = new CRXExtractor(filePath, config);
@@ -5,10 +5,26 @@
 import { runCLI } from './src/cli';
 
 // Export all public APIs for library usage
+export { PermissionAnalyzer } from './src/analysis/permissions';
+export { DownloadCache } from './src/cache/download-cache';
 export { type ExtractorConfig, LogLevel } from './src/config/types';
+export { BatchExtractor } from './src/core/batch-extractor';
 export { CRXExtractor } from './src/core/crx-extractor';
+export { CRXPacker } from './src/core/crx-packer';
+export { ExtensionId } from './src/crx/extension-id';
+export { CRXHeaderParser } from './src/crx/header';
+export { KeyUtils } from './src/crx/keys';
+export { CRXVerifier } from './src/crx/verifier';
+export { CRXWriter } from './src/crx/writer';
 export { CRXError, DownloadError, ExtractionError, SecurityError, ValidationError } from './src/errors';
+export { InputResolver } from './src/input/resolver';
 export { Logger } from './src/logger';
+export { type StoreProvider, UpdateServiceStore, type UpdateServiceStoreOptions } from './src/store/provider';
+export { StoreRegistry } from './src/store/registry';
+export { type ArchiveFormat, type AsymmetricKeyProof, type BatchEvents, type BatchItemResult, type BatchOptions, type BatchReport, type CacheEntry, type CachePruneResult, type ConvertOptions, type ConvertResult, type CRXHeader, type ExtensionManifest, type ExtractionResult, type ExtractionTimings, type ExtractorEvents, type InputKind, type InputSource, type InspectedEntry, type InspectionResult, type KeyAlgorithm, type ManifestIssue, type ManifestValidation, type MemoryExtractionResult, type PackageFormat, type PackOptions, type PackResult, type PermissionReport, type PermissionRisk, type PermissionSource, type ProofSummary, type RiskTier, type SigningKey, type StoreListing, type UpdateCheck, type UpdateCheckResult, type UpdatePackage, type UpdateResponseApp } from './src/types';
+export { UpdateClient } from './src/update/client';
+export { UpdateResponseParser } from './src/update/response';
+export { type ManifestTarget, ManifestValidator, type ManifestValidationOptions } from './src/validators/manifest';
 
 // Run CLI if this is the main module
 if (import.meta.main) {
@@ -0,0 +1,160 @@
+// src/analysis/permissions.ts
+
+import { type ExtensionManifest, type PermissionReport, type PermissionRisk, type PermissionSource, type RiskTier } from '../types';
+
+const TIERS: readonly RiskTier[] = ['low', 'medium', 'high', 'critical'];
+/** Score added per item; a few critical items saturate the score */
+const TIER_WEIGHTS: Readonly<Record<RiskTier, number>> = { low: 1, medium: 5, high: 15, critical: 30 };
+const MAX_SCORE = 100;
+const DECLARED_SOURCES = [
+  'permissions',
+  'optional_permissions',
+  'host_permissions',
+  'optional_host_permissions'
+] as const;
+
+/** Known API permissions with their tier and what they let an extension do */
+const API_PERMISSIONS: Readonly<Record<string, readonly [RiskTier, string]>> = {
+  debugger: ['critical', 'Can drive any tab through the DevTools protocol, reading and changing its pages and traffic'],
+  nativeMessaging: ['critical', 'Can exchange messages with native programs, outside the browser sandbox'],
+  proxy: ['critical', 'Can route all browser traffic through a proxy of its choosing'],
+  webAuthenticationProxy: ['critical', 'Can intercept Web Authentication requests, such as security key sign-ins'],
+  webRequestBlocking: ['high', 'Can block and rewrite network requests as they are made'],
+  webRequest: ['high', 'Can observe every network request the browser makes on the hosts it can access'],
+  declarativeNetRequestWithHostAccess: ['high', 'Can block and redirect requests on the hosts it can access'],
+  cookies: ['high', 'Can read and change cookies, including session cookies, on the hosts it can access'],
+  history: ['high', 'Can read and delete the complete browsing history'],
+  management: ['high', 'Can list, disable and uninstall other extensions'],
+  privacy: ['high', 'Can change privacy settings such as Safe Browsing and WebRTC'],
+  contentSettings: ['high', 'Can allow sites to use the camera, microphone, location and pop-ups'],
+  scripting: ['high', 'Can inject scripts into pages on the hosts it can access'],
+  userScripts: ['high', 'Can run user-supplied scripts in pages'],
+  tabCapture: ['high', 'Can record the video and audio of tabs'],
+  desktopCapture: ['high', 'Can record the screen and windows of other applications'],
+  pageCapture: ['high', 'Can save the complete contents of any tab'],
+  clipboardRead: ['high', 'Can read whatever is copied to the clipboard'],
+  browsingData: ['high', 'Can delete browsing data such as history, cookies and passwords'],
+  certificateProvider: ['high', 'Can provide client certificates used to authenticate to websites'],
+  platformKeys: ['high', 'Can use client certificates and keys managed by the platform'],
+  vpnProvider: ['high', 'Can set up VPN connections that carry browser traffic'],
+  tabs: ['medium', 'Can see the address and title of every tab'],
+  webNavigation: ['medium', 'Can follow navigation in every tab, including addresses visited'],
+  bookmarks: ['medium', 'Can read and change bookmarks'],
+  topSites: ['medium', 'Can read the most visited sites'],
+  sessions: ['medium', 'Can read and restore recently closed tabs and tabs on other devices'],
+  readingList: ['medium', 'Can read and change the reading list'],
+  downloads: ['medium', 'Can start, open and manage downloads'],
+  'downloads.open': ['medium', 'Can open downloaded files'],
+  geolocation: ['medium', 'Can read the current location without asking each time'],
+  identity: ['medium', 'Can obtain OAuth tokens for the signed-in Google account'],
+  'identity.email': ['medium', 'Can read the email address of the signed-in account'],
+  declarativeNetRequest: ['medium', 'Can block and redirect requests using declared rules'],
+  declarativeNetRequestFeedback: ['medium', 'Can see which requests its rules matched'],
+  'enterprise.deviceAttributes': ['medium', 'Can read device identifiers on managed devices'],
+  'enterprise.hardwarePlatform': ['medium', 'Can read the hardware manufacturer and model on managed devices'],
+  'enterprise.networkingAttributes': ['medium', 'Can read network details on managed devices'],
+  'enterprise.platformKeys': ['medium', 'Can use enterprise client certificates on managed devices'],
+  activeTab: ['low', 'Can access the current tab after the user invokes the extension'],
+  alarms: ['low', 'Can schedule code to run periodically'],
+  background: ['low', 'Can keep running after the browser window closes'],
+  clipboardWrite: ['low', 'Can write to the clipboard'],
+  contextMenus: ['low', 'Can add items to context menus'],
+  declarativeContent: ['low', 'Can act on page content without reading it'],
+  fontSettings: ['low', 'Can change font settings'],
+  gcm: ['low', 'Can receive push messages'],
+  idle: ['low', 'Can detect when the machine is idle'],
+  notifications: ['low', 'Can show system notifications'],
+  offscreen: ['low', 'Can create hidden documents'],
+  power: ['low', 'Can keep the system awake'],
+  search: ['low', 'Can run searches with the default search engine'],
+  sidePanel: ['low', 'Can show a side panel'],
+  storage: ['low', 'Can store data locally'],
+  system: ['low', 'Can read system information'],
+  'system.cpu': ['low', 'Can read CPU information'],
+  'system.display': ['low', 'Can read display information'],
+  'system.memory': ['low', 'Can read memory information'],
+  'system.storage': ['low', 'Can read storage device information'],
+  tts: ['low', 'Can use text-to-speech'],
+  ttsEngine: ['low', 'Can provide a text-to-speech voice'],
+  unlimitedStorage: ['low', 'Can store an unlimited amount of data'],
+  wallpaper: ['low', 'Can change the wallpaper on ChromeOS']
+};
+
+/**
+ * Rates what a manifest asks for: API permissions, host patterns (in `host_permissions`
+ * or, for Manifest V2, `permissions`) and the pages content scripts run in. Optional
+ * items rate one tier lower, since the user is asked before they are granted.
+ */
+export class PermissionAnalyzer {
+  static analyze(manifest: ExtensionManifest): PermissionReport {
+    const items: PermissionRisk[] = [];
+    const seen = new Set<string>();
+    const add = (source: PermissionSource, value: string) => {
+      const key = `${source}\0${value}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      items.push(this.rate(source, value));
+    };
+
+    for (const source of DECLARED_SOURCES) {
+      for (const value of this.strings(manifest[source])) add(source, value);
+    }
+    for (const script of Array.isArray(manifest.content_scripts) ? manifest.content_scripts : []) {
+      if (typeof script !== 'object' || script === null) continue;
+      for (const match of this.strings((script as Record<string, unknown>).matches)) add('content_scripts', match);
+    }
+
+    items.sort((a, b) => TIERS.indexOf(b.tier) - TIERS.indexOf(a.tier));
+    const score = Math.min(MAX_SCORE, items.reduce((total, item) => total + TIER_WEIGHTS[item.tier], 0));
+    return { score, tier: items[0]?.tier ?? 'low', items };
+  }
+
+  private static rate(source: PermissionSource, value: string): PermissionRisk {
+    const optional = source === 'optional_permissions' || source === 'optional_host_permissions';
+    const isHost = (source !== 'permissions' && source !== 'optional_permissions') || this.isHostPattern(value);
+    let [tier, explanation] = isHost ? this.rateHost(value, source === 'content_scripts') : this.ratePermission(value);
+
+    if (optional) {
+      tier = TIERS[Math.max(0, TIERS.indexOf(tier) - 1)] as RiskTier;
+      explanation = `${explanation}, once the user grants it`;
+    }
+    return { source, value, tier, explanation };
+  }
+
+  private static ratePermission(permission: string): readonly [RiskTier, string] {
+    // Own keys only: a permission named like an Object.prototype member is just unknown
+    const known = Object.hasOwn(API_PERMISSIONS, permission) ? API_PERMISSIONS[permission] : undefined;
+    return known ?? ['medium', 'Not a known permission; check what it grants'];
+  }
+
+  private static rateHost(pattern: string, script: boolean): readonly [RiskTier, string] {
+    const action = script ? 'Runs its scripts in pages on' : 'Can read and change data on';
+    if (pattern === '<all_urls>') {
+      return ['critical', `${action} every website, and in local files`];
+    }
+
+    const match = /^([a-z*-]+):\/\/([^/]*)(\/.*)?$/i.exec(pattern);
+    if (!match) {
+      return ['medium', 'Not a valid match pattern; check what it grants'];
+    }
+    const [, scheme = '', host = ''] = match;
+    if (scheme === 'file') {
+      return ['high', `${script ? 'Runs its scripts in' : 'Can read'} local files opened in the browser`];
+    }
+    if (host === '*') {
+      return ['critical', `${action} every website`];
+    }
+    if (host.startsWith('*.')) {
+      return ['medium', `${action} ${host.slice(2)} and all its subdomains`];
+    }
+    return ['medium', `${action} ${host}`];
+  }
+
+  private static isHostPattern(value: string): boolean {
+    return value === '<all_urls>' || value.includes('://');
+  }
+
+  private static strings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+}
@@ -0,0 +1,228 @@
+// src/cache/download-cache.ts
+
+import { type BunFile } from 'bun';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readdir, rename, rm } from 'node:fs/promises';
+import { CACHE_DIR_NAME } from '../config/constants';
+import { type ExtractorConfig } from '../config/types';
+import { ExtensionId } from '../crx/extension-id';
+import { Downloader } from '../download/downloader';
+import { ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { type CacheEntry, type CachePruneResult, type ResponseValidators } from '../types';
+import { PathUtils } from '../utils/path';
+import { PathValidator } from '../validators/path';
+
+/** Fields of a new entry that the cache can't work out itself */
+export interface CacheRecord extends ResponseValidators {
+  readonly id: string;
+  readonly version: string | null;
+}
+
+/**
+ * Content-addressed store for downloaded packages:
+ *
+ *     <cacheDir>/packages/<sha256>.crx               package bytes, shared by every entry with that hash
+ *     <cacheDir>/index/<id>/<version>_<sha256>.json  one `CacheEntry` per package of each extension
+ *
+ * Entries keep the response's ETag and Last-Modified, so the next download of the same
+ * extension can be a conditional request. A new version gets an entry of its own; the
+ * one stored or confirmed current most recently is the extension's cached copy.
+ */
+export class DownloadCache {
+  private readonly dir: string;
+  private readonly pathValidator: PathValidator;
+  private readonly logger: Logger;
+
+  constructor (config: ExtractorConfig) {
+    this.dir = config.cacheDir ?? PathUtils.join(config.extensionsDir, CACHE_DIR_NAME);
+    this.pathValidator = new PathValidator(config.allowedOutputPaths);
+    this.logger = new Logger(config.logLevel);
+  }
+
+  /**
+   * The cached package of an extension, or null when there is none or its file is gone.
+   */
+  async lookup(id: string): Promise<CacheEntry | null> {
+    const [entry] = await this.readEntries(id);
+    if (!entry) return null;
+
+    const file = this.file(entry);
+    if (!(await file.exists()) || file.size !== entry.size) {
+      this.logger.warn(`Cached package for ${id} is missing or truncated; downloading it again`);
+      return null;
+    }
+    return entry;
+  }
+
+  file(entry: CacheEntry): BunFile {
+    return Bun.file(this.packagePath(entry.sha256));
+  }
+
+  /**
+   * Adds a package and makes it the cached copy of `record.id`. Entries for other versions
+   * or packages of the extension are kept until pruned.
+   */
+  async store(record: CacheRecord, data: BunFile | Uint8Array): Promise<CacheEntry> {
+    const sha256 = await Downloader.sha256(data);
+    const packagePath = this.packagePath(sha256);
+
+    if (!(await Bun.file(packagePath).exists())) {
+      await this.writeAtomically(packagePath, data);
+    }
+
+    const now = new Date().toISOString();
+    const size = data instanceof Uint8Array ? data.length : data.size;
+    const entry: CacheEntry = { ...record, sha256, size, storedAt: now, checkedAt: now };
+    await this.writeEntry(entry);
+
+    this.logger.debug('Package cached', { id: entry.id, version: entry.version, sha256 });
+    return entry;
+  }
+
+  /**
+   * Records that the update service confirmed the cached copy is still current.
+   */
+  async touch(entry: CacheEntry): Promise<void> {
+    await this.writeEntry({ ...entry, checkedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Removes entries superseded by a newer one for the same extension, and entries not
+   * confirmed current within `maxAgeMs` (all of them for 0), then every package no entry
+   * refers to. Without `maxAgeMs`, only superseded entries and unreferenced packages go.
+   */
+  async prune(maxAgeMs: number | null = null): Promise<CachePruneResult> {
+    const indexDir = this.path('index');
+    const packagesDir = this.path('packages');
+    const now = Date.now();
+    const referenced = new Set<string>();
+    let removedEntries = 0;
+    let removedPackages = 0;
+    let freedBytes = 0;
+
+    for (const id of await this.list(indexDir)) {
+      const dir = PathUtils.join(indexDir, id);
+      // Anything but a directory of entries, such as an entry in an older layout, is dropped
+      if (!ExtensionId.isValid(id)) {
+        await rm(dir, { recursive: true, force: true });
+        removedEntries++;
+        continue;
+      }
+
+      const [latest] = await this.readEntries(id);
+      const expired = latest && maxAgeMs !== null && now - Date.parse(latest.checkedAt) >= maxAgeMs;
+      const keep = latest && !expired ? this.entryName(latest) : null;
+      for (const name of await this.list(dir)) {
+        if (name === keep) continue;
+        await rm(PathUtils.join(dir, name), { force: true });
+        removedEntries++;
+      }
+      if (latest && keep) {
+        referenced.add(latest.sha256);
+      } else {
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+
+    for (const name of await this.list(packagesDir)) {
+      if (referenced.has(name.replace(/\.crx$/, ''))) continue;
+
+      const path = PathUtils.join(packagesDir, name);
+      freedBytes += Bun.file(path).size;
+      await rm(path, { force: true });
+      removedPackages++;
+    }
+
+    this.logger.info(`Pruned ${removedEntries} cache entries and ${removedPackages} packages`);
+    return { removedEntries, removedPackages, freedBytes };
+  }
+
+  /**
+   * The valid entries of an extension, the one stored or confirmed current most recently first.
+   */
+  private async readEntries(id: string): Promise<CacheEntry[]> {
+    const dir = this.indexDir(id);
+    const entries: CacheEntry[] = [];
+    for (const name of await this.list(dir)) {
+      const entry = name.endsWith('.json') ? await this.readEntry(PathUtils.join(dir, name)) : null;
+      // An entry only counts when filed under its own ID, version and hash
+      if (entry?.id === id && name === this.entryName(entry)) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => Date.parse(b.checkedAt) - Date.parse(a.checkedAt));
+  }
+
+  private async readEntry(path: string): Promise<CacheEntry | null> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) return null;
+
+    try {
+      const entry = await file.json();
+      // The hash becomes a file name, so a tampered index must not smuggle in a path
+      if (typeof entry?.id === 'string' && /^[0-9a-f]{64}$/.test(entry.sha256) && typeof entry.size === 'number') {
+        return entry as CacheEntry;
+      }
+    } catch {
+      // Fall through: an unreadable entry is treated as missing
+    }
+    this.logger.warn(`Ignoring corrupt cache entry: ${path}`);
+    return null;
+  }
+
+  private async writeEntry(entry: CacheEntry): Promise<void> {
+    await this.writeAtomically(this.entryPath(entry), JSON.stringify(entry, null, 2));
+  }
+
+  /**
+   * Writes next to the target and renames, so readers never see a partial file. The temporary
+   * name is unique, so concurrent writers in one process don't write into each other's file.
+   */
+  private async writeAtomically(path: string, data: BunFile | Uint8Array | string): Promise<void> {
+    await mkdir(PathUtils.dirname(path), { recursive: true });
+    const temp = `${path}.${randomUUID()}.tmp`;
+    try {
+      await Bun.write(temp, data);
+      await rename(temp, path);
+    } catch (error) {
+      await rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  private async list(dir: string): Promise<string[]> {
+    try {
+      return await readdir(dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private indexDir(id: string): string {
+    if (!ExtensionId.isValid(id)) {
+      throw new ValidationError(`Invalid extension ID format: ${id}`);
+    }
+    return this.path('index', id);
+  }
+
+  private entryPath(entry: CacheEntry): string {
+    return PathUtils.join(this.indexDir(entry.id), this.entryName(entry));
+  }
+
+  /**
+   * Entries are named by version and hash, so each package of an extension keeps its own.
+   * The version is encoded since it comes from the package manifest.
+   */
+  private entryName(entry: CacheEntry): string {
+    return `${encodeURIComponent(entry.version ?? '')}_${entry.sha256}.json`;
+  }
+
+  private packagePath(sha256: string): string {
+    return this.path('packages', `${sha256}.crx`);
+  }
+
+  private path(...segments: string[]): string {
+    return this.pathValidator.validatePath(PathUtils.join(this.dir, ...segments));
+  }
+}
@@ -1,85 +1,948 @@
 // src/cli.ts
 
-import { CHROME_WEBSTORE_URL_BASE } from './config/constants';
+import { DownloadCache } from './cache/download-cache';
+import { BATCH_REPORT_NAME, CHROME_WEBSTORE_URL_BASE, DEFAULT_BATCH_CONCURRENCY, ZIP_METHOD_DEFLATED, ZIP_METHOD_STORED } from './config/constants';
 import { DEFAULT_CONFIG } from './config/defaults';
 import { type ExtractorConfig, LogLevel } from './config/types';
+import { BatchExtractor } from './core/batch-extractor';
 import { CRXExtractor } from './core/crx-extractor';
-import { CRXError } from './errors';
+import { CRXPacker } from './core/crx-packer';
+import { CRXError, ValidationError } from './errors';
+import { InputResolver } from './input/resolver';
+import { StoreRegistry } from './store/registry';
+import { type ArchiveFormat, type BatchEvents, type BatchReport, type ExtensionManifest, type ExtractionResult, type InputKind, type InspectionResult, type KeyAlgorithm, type ManifestIssue, type PermissionReport, type UpdateCheckResult } from './types';
+import { UpdateClient } from './update/client';
+import { PathUtils } from './utils/path';
+import { ProgressBar } from './utils/progress';
+import { ManifestValidator } from './validators/manifest';
+import { PathValidator } from './validators/path';
+
+type NetworkSetting =
+  | 'store'
+  | 'updateUrl'
+  | 'prodVersion'
+  | 'acceptFormat'
+  | 'appId'
+  | 'appVersion'
+  | 'os'
+  | 'arch'
+  | 'naclArch'
+  | 'userAgent'
+  | 'proxy'
+  | 'caFile';
+
+type ConfigSetting = NetworkSetting | 'headers' | 'retries' | 'cache' | 'refreshCache' | 'cacheDir';
+
+/** Config settings that flags override, spread over DEFAULT_CONFIG */
+type ConfigFlags = { -readonly [K in ConfigSetting]?: ExtractorConfig[K] } & { logLevel: LogLevel };
+
+/** What every command parses its flags into */
+interface CommandArgs {
+  config: ConfigFlags;
+}
+
+/** Input taken from --id, --url or --file, skipping detection */
+interface InputArgs {
+  input?: string;
+  inputKind?: InputKind;
+}
+
+/** Commands that can print their result as JSON instead */
+interface JsonArgs {
+  json: boolean;
+}
+
+interface ExtractArgs extends CommandArgs, InputArgs {
+  toStdout?: ArchiveFormat;
+}
+
+interface InspectArgs extends CommandArgs, InputArgs, JsonArgs {}
+
+interface PackArgs extends CommandArgs {
+  keyPath?: string;
+  outputPath?: string;
+  algorithm?: KeyAlgorithm;
+}
+
+interface ConvertArgs extends CommandArgs {
+  keyPath?: string;
+  outputPath?: string;
+  keepId: boolean;
+}
+
+interface CheckArgs extends CommandArgs, JsonArgs {
+  currentVersion?: string;
+  localDir?: string;
+}
+
+interface PruneCacheArgs extends CommandArgs, JsonArgs {
+  maxAgeDays: number | null;
+}
+
+interface BatchArgs extends CommandArgs, JsonArgs {
+  listPath?: string;
+  reportPath?: string;
+  concurrency: number;
+  continueOnError: boolean;
+}
+
+/**
+ * A flag a command accepts. `apply` stores it in the parsed arguments and returns an
+ * error message when the value is invalid.
+ */
+interface FlagSpec<T> {
+  readonly takesValue: boolean;
+  readonly apply: (args: T, value: string, flag: string) => string | void;
+}
+
+type FlagTable<T> = Readonly<Record<string, FlagSpec<T>>>;
+
+/** --debug and --quiet, taken by every command */
+const LOG_FLAGS: FlagTable<CommandArgs> = {
+  '--debug': switchFlag(args => {
+    args.config.logLevel = LogLevel.DEBUG;
+  }),
+  '--quiet': switchFlag(args => {
+    args.config.logLevel = LogLevel.ERROR;
+  })
+};
+
+/** Flags that override the update service request and how requests reach the network */
+const NETWORK_FLAGS: FlagTable<CommandArgs> = {
+  '--store': settingFlag('store'),
+  '--update-url': settingFlag('updateUrl'),
+  '--chrome-version': settingFlag('prodVersion'),
+  '--accept-format': settingFlag('acceptFormat'),
+  '--os': settingFlag('os'),
+  '--arch': settingFlag('arch'),
+  '--nacl-arch': settingFlag('naclArch'),
+  '--app-id': settingFlag('appId'),
+  '--app-version': settingFlag('appVersion'),
+  '--user-agent': settingFlag('userAgent'),
+  '--proxy': settingFlag('proxy'),
+  '--ca-file': settingFlag('caFile'),
+  '--header': valueFlag((args, value, flag) => {
+    const colon = value.indexOf(':');
+    const name = value.slice(0, colon);
+    if (colon < 1 || !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      return `${flag} must look like "Name: value"`;
+    }
+    args.config.headers = { ...args.config.headers, [name]: value.slice(colon + 1).trim() };
+  }),
+  '--retries': countFlag((args, count) => {
+    args.config.retries = count;
+  })
+};
+
+/** Download cache flags */
+const CACHE_FLAGS: FlagTable<CommandArgs> = {
+  '--no-cache': switchFlag(args => {
+    args.config.cache = false;
+  }),
+  '--refresh': switchFlag(args => {
+    args.config.refreshCache = true;
+  }),
+  '--cache-dir': settingFlag('cacheDir')
+};
+
+/** Flags that take the input and force its type instead of detecting it */
+const INPUT_FLAGS: FlagTable<InputArgs> = {
+  '--id': inputFlag('id'),
+  '--url': inputFlag('url'),
+  '--file': inputFlag('file')
+};
+
+const JSON_FLAG: FlagTable<JsonArgs> = {
+  '--json': switchFlag(args => {
+    args.json = true;
+  })
+};
+
+const EXTRACT_FLAGS: FlagTable<ExtractArgs> = {
+  ...LOG_FLAGS,
+  ...NETWORK_FLAGS,
+  ...CACHE_FLAGS,
+  ...INPUT_FLAGS,
+  '--to-stdout': valueFlag((args, value, flag) => {
+    if (value !== 'tar' && value !== 'zip') {
+      return `${flag} must be ${flag}=tar or ${flag}=zip`;
+    }
+    args.toStdout = value;
+  })
+};
+
+const INSPECT_FLAGS: FlagTable<InspectArgs> = {
+  ...LOG_FLAGS,
+  ...NETWORK_FLAGS,
+  ...CACHE_FLAGS,
+  ...INPUT_FLAGS,
+  ...JSON_FLAG
+};
+
+const PACK_FLAGS: FlagTable<PackArgs> = {
+  ...LOG_FLAGS,
+  '--key': valueFlag((args, value) => {
+    args.keyPath = value;
+  }),
+  '--output': valueFlag((args, value) => {
+    args.outputPath = value;
+  }),
+  '--algorithm': valueFlag((args, value, flag) => {
+    if (value !== 'rsa' && value !== 'ecdsa') {
+      return `${flag} must be "rsa" or "ecdsa"`;
+    }
+    args.algorithm = value;
+  })
+};
+
+const CONVERT_FLAGS: FlagTable<ConvertArgs> = {
+  ...LOG_FLAGS,
+  '--key': valueFlag((args, value) => {
+    args.keyPath = value;
+  }),
+  '--output': valueFlag((args, value) => {
+    args.outputPath = value;
+  }),
+  '--keep-id': switchFlag(args => {
+    args.keepId = true;
+  })
+};
+
+const CHECK_FLAGS: FlagTable<CheckArgs> = {
+  ...LOG_FLAGS,
+  ...NETWORK_FLAGS,
+  ...JSON_FLAG,
+  '--version': valueFlag((args, value) => {
+    args.currentVersion = value;
+  }),
+  '--local': valueFlag((args, value) => {
+    args.localDir = value;
+  })
+};
+
+const PRUNE_CACHE_FLAGS: FlagTable<PruneCacheArgs> = {
+  ...LOG_FLAGS,
+  ...JSON_FLAG,
+  '--cache-dir': settingFlag('cacheDir'),
+  '--max-age': valueFlag((args, value, flag) => {
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+      return `${flag} must be a number of days`;
+    }
+    args.maxAgeDays = Number(value);
+  }),
+  '--all': switchFlag(args => {
+    args.maxAgeDays = 0;
+  })
+};
+
+const BATCH_FLAGS: FlagTable<BatchArgs> = {
+  ...LOG_FLAGS,
+  ...NETWORK_FLAGS,
+  ...CACHE_FLAGS,
+  ...JSON_FLAG,
+  '--batch': valueFlag((args, value) => {
+    args.listPath = value;
+  }),
+  '--concurrency': countFlag((args, count) => {
+    args.concurrency = count;
+  }, 1),
+  '--continue-on-error': switchFlag(args => {
+    args.continueOnError = true;
+  }),
+  '--report': valueFlag((args, value) => {
+    args.reportPath = value;
+  })
+};
 
 export async function runCLI(args: string[]): Promise<void> {
+  if (args[0] === 'pack' && !args.includes('--help')) {
+    await runPack(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'convert' && !args.includes('--help')) {
+    await runConvert(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'inspect' && !args.includes('--help')) {
+    await runInspect(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'check' && !args.includes('--help')) {
+    await runCheck(args.slice(1));
+    return;
+  }
+
+  if (args[0] === 'prune-cache' && !args.includes('--help')) {
+    await runPruneCache(args.slice(1));
+    return;
+  }
+
+  if (args.some(arg => arg === '--batch' || arg.startsWith('--batch=')) && !args.includes('--help')) {
+    await runBatch(args);
+    return;
+  }
+
   if (args.length === 0 || args.includes('--help')) {
     console.log(`
 Usage: bun run index.ts <input> [output-dir] [options]
+       bun run index.ts --id <id> | --url <url> | --file <path> [output-dir] [options]
+       bun run index.ts pack <dir> [--key key.pem] [--output out.crx] [--algorithm rsa|ecdsa]
+       bun run index.ts convert <file.crx> --key key.pem [--output out.crx] [--keep-id]
+       bun run index.ts inspect <input> [--json]
+       bun run index.ts check <id> [--version <ver> | --local <dir>] [--json]
+       bun run index.ts prune-cache [--max-age <days> | --all] [--cache-dir <dir>]
+       bun run index.ts --batch <list.txt> [--concurrency <n>] [--continue-on-error] [--report <file>]
+
+Extracts a Chrome extension (CRX), ZIP or Firefox XPI package securely.
 
-Extracts a Chrome extension (CRX) file securely.
+Commands:
+  pack <dir>    Build a signed CRX3 from an unpacked extension directory.
+                Without --key, a new key is generated and saved as <dir>.pem.
+  convert <crx> Re-sign a CRX2 or CRX3 file as CRX3 (default output: <name>.crx3.crx).
+                --keep-id fails unless --key is the original signing key,
+                guaranteeing the extension ID stays the same.
+  inspect <in>  Report the CRX version, key proofs, extension ID, ZIP listing, manifest, manifest
+                issues and permission risks without extracting anything. --json prints it as JSON.
+  check <id>    Ask the store's update service for the latest version without downloading.
+                --version or --local <extracted-dir> reports whether an update exists;
+                --local also asks the update_url declared in that directory's manifest.
+  prune-cache   Remove cached packages no longer in use. --max-age <days> also drops
+                extensions not downloaded or confirmed current for that long; --all empties it.
 
-Input can be:
-  - Chrome Web Store URL
-  - Extension ID (32 lowercase letters)
-  - Local .crx file path
+Input can be (checked in this order, so an existing file always wins):
+  - "-" to read a package from stdin
+  - Local .crx, .zip or .xpi file path (detected by magic bytes)
+  - Extracted extension directory: downloads its current version from the manifest's update_url
+  - Chrome Web Store URL: chromewebstore.google.com/detail/[<name>/]<id>
+    or chrome.google.com/webstore/detail/[<name>/]<id>
+  - Edge Add-ons URL: microsoftedge.microsoft.com/addons/detail/[<name>/]<id>
+  - Direct http(s) link to a .crx file, or to an update manifest (updates.xml)
+  - Extension ID (32 letters from a to p), downloaded from the store chosen with --store
 
-Options:
+Input options for extract and inspect (take the input and skip detection):
+  --id <id>                 Download this extension ID from the store chosen with --store
+  --url <url>               Download from this store page, CRX link or updates.xml
+  --file <path>             Read this local file or extracted extension directory
+
+Options (every flag that takes a value also accepts --flag=value):
   output-dir    Directory to extract files into (default: ./extensions/<name>)
+  --to-stdout=tar|zip
+                Write the extracted files to stdout as a tar or ZIP stream instead of to disk.
+                The package is checked against every limit before the first byte is written;
+                only warnings and errors are logged, on stderr.
   --debug       Enable debug logging
   --quiet       Minimal output (errors only)
 
+Update service options (when downloading by ID, store URL or update manifest):
+  --store <name>            Store for bare IDs and check: chrome or edge (default: chrome)
+  --update-url <url>        Chrome Web Store update service or updates.xml, e.g. an internal mirror
+  --chrome-version <ver>    Chrome version to report (default: 120.0)
+  --accept-format <list>    Accepted package formats (default: crx3)
+  --os <os>                 Platform build to request: win, mac, linux, cros, ...
+  --arch <arch>             CPU architecture: x86, x64, arm, arm64
+  --nacl-arch <arch>        Native Client architecture: x86-32, x86-64, arm
+  --app-id <id>             Extension to take from an update manifest listing several
+  --app-version <ver>       Version to take from an update manifest (default: newest)
+  --retries <n>             Retries after network errors, timeouts and 5xx responses (default: 3)
+
+Network options (for every request; the proxy defaults to HTTPS_PROXY, honouring NO_PROXY):
+  --proxy <url>             HTTP(S) proxy, e.g. http://proxy.corp:3128
+  --header "Name: value"    Extra request header; repeat for more
+  --user-agent <ua>         User-Agent to send
+  --ca-file <file.pem>      CA certificates to trust besides the built-in roots
+
+Batch options (--batch <list.txt>: one ID, URL or path per line; # starts a comment):
+  --concurrency <n>         Extractions running at once (default: ${DEFAULT_BATCH_CONCURRENCY})
+  --continue-on-error       Keep going after a failure instead of skipping the inputs not yet started
+  --report <file>           JSON report of successes and failures (default: _extensions/${BATCH_REPORT_NAME})
+  --json                    Print the report instead of progress lines and the summary table
+
+Download cache options (default location: _extensions/.cache):
+  --no-cache                Neither use nor fill the download cache
+  --refresh                 Download again even if the cached copy is current, replacing it
+  --cache-dir <dir>         Cache directory
+
 Security features:
   - Path traversal protection (files only written to current directory by default)
   - ZIP bomb detection
   - Size and file count limits
   - Secure extraction process
+  - Permission risk report after extraction: each permission, host pattern and content script
+    match rated low, medium, high or critical, with an overall score (JSON via inspect --json)
+  - Manifest V2/V3 schema validation, listing errors and warnings by JSON pointer
 
 Examples:
   bun run index.ts ${CHROME_WEBSTORE_URL_BASE}nkbihfbeogaeaoehlefnkodbefgpgknn
   bun run index.ts nkbihfbeogaeaoehlefnkodbefgpgknn
   bun run index.ts ./my-extension.crx ./output
+  bun run index.ts ./my-addon.xpi
+  cat ./my-extension.crx | bun run index.ts - --to-stdout=tar | tar -x -C ./output
   bun run index.ts nkbihfbeogaeaoehlefnkodbefgpgknn --debug
+  bun run index.ts https://microsoftedge.microsoft.com/addons/detail/ublock-origin/odfafepnkmbhccpbejgmiehpchacaeak
+  bun run index.ts check odfafepnkmbhccpbejgmiehpchacaeak --store edge
+  bun run index.ts nkbihfbeogaeaoehlefnkodbefgpgknn --os mac --arch arm64 --chrome-version 126.0
+  bun run index.ts pack ./my-extension --key ./my-extension.pem
+  bun run index.ts convert ./legacy.crx --key ./legacy.pem --keep-id
+  bun run index.ts inspect ./my-extension.crx --json
+  bun run index.ts https://extensions.corp.example/updates.xml --app-id nkbihfbeogaeaoehlefnkodbefgpgknn
+  bun run index.ts check nkbihfbeogaeaoehlefnkodbefgpgknn --local ./_extensions/metamask
+  bun run index.ts --batch ./audit.txt --concurrency 8 --continue-on-error --report ./audit-report.json
 
 Note: By default, files are extracted to ./extensions/<extension-name>/ in the current directory.
     `);
     process.exit(0);
   }
 
-  // Parse arguments
-  const input = args[0];
+  const parsed: ExtractArgs = { config: { logLevel: LogLevel.INFO } };
+  const positional = parseArgs(args, EXTRACT_FLAGS, parsed);
+  if (!positional) return;
+
+  // Without --id, --url or --file the first positional argument is the input
+  const { inputKind, toStdout } = parsed;
+  const input = inputKind ? parsed.input : positional.shift();
+  const outputDir = positional[0];
   if (!input) {
     console.error('\n❌ No input provided');
     process.exit(1);
+    return;
+  }
+  if (input === '-' && !inputKind && process.stdin.isTTY) {
+    console.error('\n❌ Pipe a package into stdin to use "-" as the input');
+    process.exit(1);
+    return;
+  }
+  let { logLevel } = parsed.config;
+  if (toStdout) {
+    if (outputDir) {
+      console.error('\n❌ --to-stdout writes no files; drop the output directory');
+      process.exit(1);
+      return;
+    }
+    // Info and debug logs go to stdout, which now carries the archive
+    logLevel = Math.max(logLevel, LogLevel.WARN);
   }
 
-  let outputDir: string | undefined;
-  let logLevel = LogLevel.INFO;
+  // Create config with CLI options
+  const config: ExtractorConfig = { ...DEFAULT_CONFIG, ...parsed.config, logLevel };
 
-  for (let i = 1;i < args.length;i++) {
-    const arg = args[i];
-    if (!arg) continue;
+  try {
+    const source = inputKind ? await InputResolver.resolve(input, inputKind, config) : input;
+    const extractor = new CRXExtractor(source, config);
+    if (logLevel < LogLevel.ERROR && process.stderr.isTTY) {
+      showProgress(extractor);
+    }
+    if (toStdout) {
+      await writeToStdout(await extractor.extractToStream(toStdout));
+    } else {
+      printExtraction(await extractor.extract(outputDir));
+    }
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+/**
+ * Copies an archive stream to stdout, letting each chunk drain before reading the next.
+ */
+async function writeToStdout(stream: ReadableStream<Uint8Array>): Promise<void> {
+  const stdout = Bun.stdout.writer();
+  for await (const chunk of stream) {
+    stdout.write(chunk);
+    await stdout.flush();
+  }
+}
+
+/**
+ * Draws download and extraction progress on stderr.
+ */
+function showProgress(extractor: CRXExtractor): void {
+  const bar = new ProgressBar(process.stderr);
+  const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
 
-    if (arg === '--debug') {
-      logLevel = LogLevel.DEBUG;
-    } else if (arg === '--quiet') {
-      logLevel = LogLevel.ERROR;
-    } else if (!outputDir && !arg.startsWith('--')) {
-      outputDir = arg;
+  extractor.on('downloadProgress', ({ received, total }) => {
+    const size = total === null ? `${toMB(received)} MB` : `${toMB(received)} / ${toMB(total)} MB`;
+    bar.update(total === null ? null : received / total, `Downloading ${size}`);
+    if (received === total) bar.finish();
+  });
+  extractor.on('entry', ({ name, index, total }) => {
+    const label = name.length > 40 ? `…${name.slice(-39)}` : name;
+    bar.update(index / total, `Extracting ${index}/${total} ${label}`);
+    if (index === total) bar.finish();
+  });
+  extractor.on('failed', () => bar.finish());
+}
+
+function printExtraction(result: ExtractionResult): void {
+  const { manifest } = result;
+  if (manifest) {
+    console.log('\n📋 Extension Information:');
+    console.log(`   Name: ${result.name}`);
+    console.log(`   Version: ${result.version ?? 'unknown'}`);
+    // A manifest that failed validation may lack these or hold the wrong types
+    const manifestVersion = typeof manifest.manifest_version === 'number' ? `v${manifest.manifest_version}` : null;
+    console.log(`   Manifest: ${manifestVersion ?? 'unknown (see Manifest Issues)'}`);
+    if (typeof manifest.description === 'string' && manifest.description) {
+      console.log(`   Description: ${manifest.description}`);
     }
   }
+  if (result.id) {
+    console.log(`   ID: ${result.id}`);
+  }
+  if (result.geckoId) {
+    console.log(`   Gecko ID: ${result.geckoId}`);
+  }
 
-  // Create config with CLI options
-  const config: ExtractorConfig = { ...DEFAULT_CONFIG, logLevel };
+  const sizeMB = (result.extractedSize / 1024 / 1024).toFixed(2);
+  const seconds = (result.timings.totalMs / 1000).toFixed(2);
+  console.log(`\n📂 Extracted ${result.fileCount} entries (${sizeMB} MB) to ${result.outputDir} in ${seconds}s`);
+  console.log(`   Package: ${result.packagePath}`);
+
+  printManifestIssues(result.manifestIssues);
+  if (result.permissions) {
+    printPermissions(result.permissions);
+  }
+}
+
+/**
+ * Prints manifest schema errors and warnings with the JSON pointer to each.
+ */
+function printManifestIssues(issues: readonly ManifestIssue[]): void {
+  if (issues.length === 0) return;
+  console.log('\n⚠️  Manifest Issues:');
+  for (const issue of issues) {
+    console.log(`   ${issue.severity.padEnd(8)} ${issue.pointer || '/'}: ${issue.message}`);
+  }
+}
+
+/**
+ * Prints the permission risk report, riskiest items first.
+ */
+function printPermissions(report: PermissionReport): void {
+  console.log(`\n🛡️  Permission Risk: ${report.tier} (score ${report.score}/100)`);
+  if (report.items.length === 0) {
+    console.log('   No permissions, host access or content scripts requested');
+  }
+  for (const item of report.items) {
+    console.log(`   ${item.tier.padEnd(8)} ${item.value} (${item.source}): ${item.explanation}`);
+  }
+}
+
+/**
+ * Handles `pack <dir>`: builds a signed CRX3 from an unpacked extension.
+ */
+async function runPack(args: string[]): Promise<void> {
+  const parsed: PackArgs = { config: { logLevel: LogLevel.INFO } };
+  const positional = parseArgs(args, PACK_FLAGS, parsed);
+  if (!positional) return;
+
+  const [sourceDir] = positional;
+  const { keyPath, outputPath, algorithm, config: { logLevel } } = parsed;
+  if (!sourceDir) {
+    console.error('\n❌ No extension directory provided');
+    process.exit(1);
+    return;
+  }
+
+  try {
+    const packer = new CRXPacker({ ...DEFAULT_CONFIG, logLevel });
+    const result = await packer.pack(sourceDir, { keyPath, outputPath, algorithm });
+
+    console.log('\n📦 Packed Extension:');
+    console.log(`   CRX: ${result.crxPath}`);
+    console.log(`   ID: ${result.extensionId}`);
+    console.log(`   Files: ${result.fileCount}`);
+    console.log(`   Key: ${result.keyPath}${result.keyGenerated ? ' (generated, keep it private)' : ''}`);
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+/**
+ * Handles `convert <crx>`: re-signs a CRX2 or CRX3 file as CRX3.
+ */
+async function runConvert(args: string[]): Promise<void> {
+  const parsed: ConvertArgs = { config: { logLevel: LogLevel.INFO }, keepId: false };
+  const positional = parseArgs(args, CONVERT_FLAGS, parsed);
+  if (!positional) return;
+
+  const [inputPath] = positional;
+  const { keyPath, outputPath, keepId, config: { logLevel } } = parsed;
+  if (!inputPath || !keyPath) {
+    console.error('\n❌ convert requires a CRX file and --key <key.pem>');
+    process.exit(1);
+    return;
+  }
 
   try {
-    const extractor = new CRXExtractor(input, config);
-    await extractor.extract(outputDir);
+    const packer = new CRXPacker({ ...DEFAULT_CONFIG, logLevel });
+    const result = await packer.convert(inputPath, { keyPath, outputPath, keepId });
+
+    console.log('\n🔁 Converted Extension:');
+    console.log(`   CRX: ${result.crxPath}`);
+    console.log(`   Source: CRX${result.sourceVersion}`);
+    console.log(`   ID: ${result.extensionId}`);
+    if (result.originalId && result.originalId !== result.extensionId) {
+      console.log(`   Previous ID: ${result.originalId} (signed with a different key)`);
+    }
   } catch (error) {
-    if (error instanceof CRXError) {
-      console.error(`\n❌ ${error.code}: ${error.message}`);
-    } else if (error instanceof Error) {
-      console.error(`\n❌ Unexpected error: ${error.message}`);
-      if (logLevel === LogLevel.DEBUG) {
-        console.error(error.stack);
+    reportError(error, logLevel);
+  }
+}
+
+/**
+ * Handles `inspect <input>`: reports on a package without extracting it.
+ */
+async function runInspect(args: string[]): Promise<void> {
+  // Progress logs would clutter the report, so only warnings are shown by default
+  const parsed: InspectArgs = { config: { logLevel: LogLevel.WARN }, json: false };
+  const positional = parseArgs(args, INSPECT_FLAGS, parsed);
+  if (!positional) return;
+
+  const { inputKind, json, config: { logLevel } } = parsed;
+  const input = inputKind ? parsed.input : positional[0];
+  if (!input) {
+    console.error('\n❌ No input provided');
+    process.exit(1);
+    return;
+  }
+
+  try {
+    const config = { ...DEFAULT_CONFIG, ...parsed.config };
+    const source = inputKind ? await InputResolver.resolve(input, inputKind, config) : input;
+    const result = await new CRXExtractor(source, config).inspect();
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      printInspection(result);
+    }
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+function printInspection(result: InspectionResult): void {
+  console.log('\n🔍 Package:');
+  console.log(`   Format: ${result.format.toUpperCase()}${result.crxVersion ? ` (CRX${result.crxVersion})` : ''}`);
+  console.log(`   Size: ${result.size} bytes`);
+  if (result.id) {
+    console.log(`   ID: ${result.id}`);
+  }
+  if (result.geckoId) {
+    console.log(`   Gecko ID: ${result.geckoId}`);
+  }
+  if (result.crxVersion) {
+    console.log(`   Signatures: ${result.signaturesVerified ? 'verified' : 'not verified'}`);
+  }
+
+  if (result.proofs.length > 0) {
+    console.log('\n🔑 Key Proofs:');
+    for (const proof of result.proofs) {
+      const sizes = `${proof.publicKeySize}-byte key, ${proof.signatureSize}-byte signature`;
+      console.log(`   ${proof.algorithm}: key ${proof.keyId} (${sizes})`);
+    }
+  }
+
+  console.log(`\n📁 Entries (${result.zip.fileCount}, ${result.zip.uncompressedSize} bytes uncompressed):`);
+  for (const entry of result.entries) {
+    const crc = entry.crc32.toString(16).padStart(8, '0');
+    const method = describeMethod(entry.compressionMethod).padEnd(8);
+    console.log(`   ${String(entry.uncompressedSize).padStart(10)} ${method} ${crc}  ${entry.name}`);
+  }
+
+  if (result.manifest) {
+    console.log('\n📋 Manifest:');
+    console.log(JSON.stringify(result.manifest, null, 2).replace(/^/gm, '   '));
+  }
+  printManifestIssues(result.manifestIssues);
+  if (result.permissions) {
+    printPermissions(result.permissions);
+  }
+}
+
+function describeMethod(method: number): string {
+  if (method === ZIP_METHOD_STORED) return 'stored';
+  if (method === ZIP_METHOD_DEFLATED) return 'deflated';
+  return `method ${method}`;
+}
+
+/**
+ * Handles `check <id>`: asks the update service for the latest version.
+ */
+async function runCheck(args: string[]): Promise<void> {
+  const parsed: CheckArgs = { config: { logLevel: LogLevel.WARN }, json: false };
+  const positional = parseArgs(args, CHECK_FLAGS, parsed);
+  if (!positional) return;
+
+  const [input] = positional;
+  const { localDir, json, config: { logLevel } } = parsed;
+  let { currentVersion } = parsed;
+  const config: ExtractorConfig = { ...DEFAULT_CONFIG, ...parsed.config };
+
+  try {
+    // Accept a bare ID or a store URL
+    const listing = input ? InputResolver.storeListing(input, config) : null;
+    if (!listing) {
+      console.error('\n❌ check requires an extension ID or store URL');
+      process.exit(1);
+      return;
+    }
+
+    const stores = new StoreRegistry(config);
+    let store = stores.get(listing.store);
+    if (localDir) {
+      const manifest = await readLocalManifest(localDir);
+      currentVersion = manifest.version;
+      // Ask where the installed copy looks for updates, unless --update-url says otherwise
+      if (typeof manifest.update_url === 'string' && !parsed.config.updateUrl) {
+        store = stores.forUpdateUrl(manifest.update_url);
       }
+    }
+
+    const updateUrl = store.updateUrl?.(config);
+    if (!updateUrl) {
+      throw new ValidationError(`${store.label} has no update service to check`);
+    }
+    const client = new UpdateClient({ ...config, updateUrl });
+    const result = await client.check(listing.id, currentVersion);
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
     } else {
-      console.error(`\n❌ Unknown error occurred`);
+      printUpdateCheck(result);
     }
-    process.exit(1);
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+/**
+ * Reads the version of an extracted extension from its manifest.
+ */
+async function readLocalManifest(dir: string): Promise<ExtensionManifest> {
+  const manifestFile = Bun.file(PathUtils.join(dir, 'manifest.json'));
+  if (!(await manifestFile.exists())) {
+    throw new ValidationError(`No manifest.json found in "${dir}"`);
+  }
+  return new ManifestValidator().validateManifest(await manifestFile.json());
+}
+
+function printUpdateCheck(result: UpdateCheckResult): void {
+  console.log('\n🔄 Update Check:');
+  console.log(`   ID: ${result.id}`);
+  console.log(`   Latest: ${result.version ?? result.currentVersion ?? 'unknown'}`);
+  if (result.size !== null) {
+    console.log(`   Size: ${result.size} bytes`);
+  }
+  if (result.sha256) {
+    console.log(`   SHA-256: ${result.sha256}`);
+  }
+  if (result.codebase) {
+    console.log(`   URL: ${result.codebase}`);
+  }
+  if (result.currentVersion) {
+    const status = result.updateAvailable ? 'update available' : 'up to date';
+    console.log(`   Installed: ${result.currentVersion} (${status})`);
+  }
+}
+
+/**
+ * Handles `prune-cache`: removes cached packages that are no longer needed.
+ */
+async function runPruneCache(args: string[]): Promise<void> {
+  const parsed: PruneCacheArgs = { config: { logLevel: LogLevel.WARN }, json: false, maxAgeDays: null };
+  if (!parseArgs(args, PRUNE_CACHE_FLAGS, parsed)) return;
+
+  const { maxAgeDays, json, config: { logLevel } } = parsed;
+
+  try {
+    const cache = new DownloadCache({ ...DEFAULT_CONFIG, ...parsed.config });
+    const result = await cache.prune(maxAgeDays === null ? null : maxAgeDays * 24 * 60 * 60 * 1000);
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      const { removedEntries, removedPackages, freedBytes } = result;
+      const freedMB = (freedBytes / 1024 / 1024).toFixed(2);
+      console.log(`\n🧹 Removed ${removedEntries} cache entries and ${removedPackages} packages (${freedMB} MB)`);
+    }
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+/**
+ * Handles `--batch <list>`: extracts every input in the list, prints a summary table and
+ * writes a JSON report. Exits with 1 when any input failed.
+ */
+async function runBatch(args: string[]): Promise<void> {
+  const parsed: BatchArgs = {
+    // Logs of parallel extractions interleave, so only warnings are shown by default
+    config: { logLevel: LogLevel.WARN },
+    concurrency: DEFAULT_BATCH_CONCURRENCY,
+    continueOnError: false,
+    json: false
+  };
+  if (!parseArgs(args, BATCH_FLAGS, parsed)) return;
+
+  const { listPath, reportPath, concurrency, continueOnError, json, config: { logLevel } } = parsed;
+  const config: ExtractorConfig = { ...DEFAULT_CONFIG, ...parsed.config };
+
+  try {
+    const listFile = Bun.file(listPath as string);
+    if (!(await listFile.exists())) {
+      throw new ValidationError(`Batch list not found: "${listPath}"`);
+    }
+    const inputs = BatchExtractor.parseList(await listFile.text());
+    if (inputs.length === 0) {
+      throw new ValidationError(`Batch list has no inputs: "${listPath}"`);
+    }
+
+    const batch = new BatchExtractor(config);
+    if (!json && logLevel < LogLevel.ERROR) {
+      batch.on('item', printBatchItem);
+    }
+    const report = await batch.run(inputs, { concurrency, continueOnError });
+
+    const pathValidator = new PathValidator(config.allowedOutputPaths);
+    const path = pathValidator.validatePath(reportPath ?? PathUtils.join(config.extensionsDir, BATCH_REPORT_NAME));
+    await Bun.write(path, JSON.stringify(report, null, 2));
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printBatchSummary(report, path);
+    }
+    if (report.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    reportError(error, logLevel);
+  }
+}
+
+function printBatchItem({ result, completed, total }: BatchEvents['item']): void {
+  const position = `[${completed}/${total}]`;
+  if (result.status === 'succeeded') {
+    console.log(`✅ ${position} ${result.name}${result.version ? ` ${result.version}` : ''}`);
+  } else {
+    console.log(`❌ ${position} ${result.input}: ${result.errorCode}: ${result.errorMessage}`);
+  }
+}
+
+function printBatchSummary(report: BatchReport, reportPath: string): void {
+  const seconds = (report.durationMs / 1000).toFixed(1);
+  console.log(`\n📊 Batch Summary: ${report.succeeded} succeeded, ${report.failed} failed, ` +
+    `${report.skipped} skipped in ${seconds}s\n`);
+
+  // Long URLs and paths are cut from the left, keeping the distinctive end
+  const width = Math.min(Math.max(5, ...report.results.map(result => result.input.length)), 48);
+  const cell = (input: string) => input.length > width ? `…${input.slice(-(width - 1))}` : input.padEnd(width);
+  console.log(`   ${'Status'.padEnd(10)} ${'Input'.padEnd(width)} Result`);
+  for (const result of report.results) {
+    const outcome = result.status === 'succeeded'
+      ? `${result.name}${result.version ? ` ${result.version}` : ''}`
+      : result.status === 'failed' ? `${result.errorCode}: ${result.errorMessage}` : 'not started';
+    console.log(`   ${result.status.padEnd(10)} ${cell(result.input)} ${outcome}`);
+  }
+  console.log(`\n📄 Report: ${reportPath}`);
+}
+
+/**
+ * Parses `args` against a command's flag table into `parsed`, returning the positional
+ * arguments. A value flag takes `--flag=value` or the next argument, which may not be
+ * another flag, so `--output --key x` fails instead of writing to a file named `--key`.
+ * Unknown flags are skipped, as they always have been. Invalid values are reported,
+ * returning null.
+ */
+function parseArgs<T>(args: string[], flags: FlagTable<T>, parsed: T): string[] | null {
+  const positional: string[] = [];
+
+  for (let i = 0;i < args.length;i++) {
+    const arg = args[i];
+    if (!arg) continue;
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    const spec: FlagSpec<T> | undefined = flags[flag];
+    if (!spec) continue;
+
+    let value = '';
+    if (spec.takesValue) {
+      value = (equals === -1 ? args[++i] : arg.slice(equals + 1)) ?? '';
+      if (!value || (equals === -1 && value.startsWith('--'))) {
+        return usageError(`${flag} requires a value`);
+      }
+    } else if (equals !== -1) {
+      return usageError(`${flag} takes no value`);
+    }
+
+    const error = spec.apply(parsed, value, flag);
+    if (error) {
+      return usageError(error);
+    }
+  }
+
+  return positional;
+}
+
+function usageError(message: string): null {
+  console.error(`\n❌ ${message}`);
+  process.exit(1);
+  return null;
+}
+
+/** A flag that takes no value */
+function switchFlag<T>(apply: (args: T) => void): FlagSpec<T> {
+  return { takesValue: false, apply };
+}
+
+/** A flag that takes a value; `apply` returns an error message to reject it */
+function valueFlag<T>(apply: (args: T, value: string, flag: string) => string | void): FlagSpec<T> {
+  return { takesValue: true, apply };
+}
+
+/** A value flag copied into the config unchanged */
+function settingFlag(setting: NetworkSetting | 'cacheDir'): FlagSpec<CommandArgs> {
+  return valueFlag((args, value) => {
+    args.config[setting] = value;
+  });
+}
+
+/** A count such as --retries, rejecting anything but an integer of at least `min` */
+function countFlag<T>(apply: (args: T, count: number) => void, min = 0): FlagSpec<T> {
+  return valueFlag((args, value, flag) => {
+    if (!/^\d+$/.test(value) || Number(value) < min) {
+      return `${flag} must be a ${min > 0 ? 'positive' : 'non-negative'} integer`;
+    }
+    apply(args, Number(value));
+  });
+}
+
+function inputFlag(kind: InputKind): FlagSpec<InputArgs> {
+  return valueFlag((args, value) => {
+    args.input = value;
+    args.inputKind = kind;
+  });
+}
+
+function reportError(error: unknown, logLevel: LogLevel): void {
+  if (error instanceof CRXError) {
+    console.error(`\n❌ ${error.code}: ${error.message}`);
+  } else if (error instanceof Error) {
+    console.error(`\n❌ Unexpected error: ${error.message}`);
+    if (logLevel === LogLevel.DEBUG) {
+      console.error(error.stack);
+    }
+  } else {
+    console.error(`\n❌ Unknown error occurred`);
   }
+  process.exit(1);
 }
@@ -3,6 +3,30 @@
 export const CRX_MAGIC = 0x34327243; // "Cr24"
 export const CRX_VERSION_2 = 2;
 export const CRX_VERSION_3 = 3;
+export const CRX_MAX_HEADER_SIZE = 1024 * 1024; // Real headers are a few KB
+export const CRX3_SIGNATURE_CONTEXT = 'CRX3 SignedData\x00';
+export const ZIP_LOCAL_HEADER_MAGIC = 0x04034b50; // "PK\x03\x04"
+export const ZIP_EMPTY_ARCHIVE_MAGIC = 0x06054b50; // "PK\x05\x06"
+export const ZIP_METHOD_STORED = 0;
+export const ZIP_METHOD_DEFLATED = 8;
+export const XPI_SIGNATURE_ENTRY = 'META-INF/mozilla.rsa'; // Signed XPIs carry it, plain ZIPs don't
+export const MANIFEST_SNIFF_MAX_SIZE = 1024 * 1024; // Manifests are a few KB
 export const DEFAULT_EXTENSIONS_DIR = '_extensions';
+export const CACHE_DIR_NAME = '.cache'; // Inside the extensions directory unless configured
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+export const BATCH_REPORT_NAME = 'batch-report.json'; // Inside the extensions directory unless --report is given
 export const CHROME_WEBSTORE_URL_BASE = 'https://chromewebstore.google.com/detail/';
+export const CHROME_WEBSTORE_DETAIL_PATHS: Readonly<Record<string, string>> = { // Detail pages are <path>[<slug>/]<id>
+  'chromewebstore.google.com': '/detail/',
+  'chrome.google.com': '/webstore/detail/'
+};
 export const CRX_DOWNLOAD_URL_BASE = 'https://clients2.google.com/service/update2/crx';
+export const EDGE_ADDONS_DETAIL_PATHS: Readonly<Record<string, string>> = {
+  'microsoftedge.microsoft.com': '/addons/detail/'
+};
+export const EDGE_UPDATE_URL_BASE = 'https://edge.microsoft.com/extensionwebstorebase/v1/crx';
+export const DEFAULT_STORE = 'chrome'; // Where bare extension IDs are downloaded from
+export const DEFAULT_PROD_VERSION = '120.0';
+export const DEFAULT_ACCEPT_FORMAT = 'crx3';
+export const UPDATE_RESPONSE_MAX_SIZE = 1024 * 1024; // gupdate documents are a few hundred bytes
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
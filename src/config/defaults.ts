@@ -1,15 +1,27 @@
 // src/config/defaults.ts
 
-import { DEFAULT_EXTENSIONS_DIR } from './constants';
+import { CRX_DOWNLOAD_URL_BASE, DEFAULT_ACCEPT_FORMAT, DEFAULT_EXTENSIONS_DIR, DEFAULT_PROD_VERSION, DEFAULT_STORE, DEFAULT_USER_AGENT } from './constants';
 import { type ExtractorConfig, LogLevel } from './types';
 
 export const DEFAULT_CONFIG: ExtractorConfig = {
   maxFileSize: 500 * 1024 * 1024, // 500MB
   downloadTimeout: 30000, // 30 seconds
+  retries: 3,
+  retryDelay: 1000, // 1s, 2s, 4s, with jitter
+  maxRetryDelay: 30000,
+  cache: true, // Conditional requests; unchanged packages are not downloaded again
+  refreshCache: false,
   maxExtractionRatio: 100, // Max 100:1 compression ratio
+  maxEntryExtractionRatio: 1000, // Max 1000:1 for any single entry
   maxExtractedFiles: 10000, // Max 10k files
   maxExtractedSize: 1024 * 1024 * 1024, // 1GB max extracted
   allowedOutputPaths: ['.'], // Current working directory (where the command is run)
-  logLevel: LogLevel.INFO,
-  extensionsDir: DEFAULT_EXTENSIONS_DIR // _extensions (outside src directory)
+  logLevel: LogLevel.SILENT, // The CLI turns console output on
+  extensionsDir: DEFAULT_EXTENSIONS_DIR, // _extensions (outside src directory)
+  verifySignatures: true, // Reject packages whose RSA/ECDSA proofs don't match
+  store: DEFAULT_STORE,
+  updateUrl: CRX_DOWNLOAD_URL_BASE, // Chrome Web Store update service
+  prodVersion: DEFAULT_PROD_VERSION,
+  acceptFormat: DEFAULT_ACCEPT_FORMAT,
+  userAgent: DEFAULT_USER_AGENT // Platform parameters (os, arch, naclArch) are left to the update service
 };
@@ -1,19 +1,68 @@
 // src/config/types.ts
 
+import { type StoreProvider } from '../store/provider';
+
 export enum LogLevel {
   DEBUG = 0,
   INFO = 1,
   WARN = 2,
-  ERROR = 3
+  ERROR = 3,
+  /** Logs nothing; the library default, so embedding it prints nothing */
+  SILENT = 4
 }
 
 export interface ExtractorConfig {
   readonly maxFileSize: number;
+  /** Milliseconds without data, waiting for the response or between body chunks, before an attempt is aborted */
   readonly downloadTimeout: number;
+  /** Extra attempts after a network error, timeout or retryable HTTP status; 0 disables retries */
+  readonly retries: number;
+  /** Base backoff delay in milliseconds, doubled on each retry */
+  readonly retryDelay: number;
+  /** Upper bound for a single backoff delay, including one requested with `Retry-After` */
+  readonly maxRetryDelay: number;
+  /** Serve unchanged downloads from the download cache, and add new ones to it */
+  readonly cache: boolean;
+  /** Download again even when the cached copy may still be current, replacing it */
+  readonly refreshCache: boolean;
+  /** Download cache location; defaults to `.cache` inside `extensionsDir` */
+  readonly cacheDir?: string;
   readonly maxExtractionRatio: number;
+  readonly maxEntryExtractionRatio: number;
   readonly maxExtractedFiles: number;
   readonly maxExtractedSize: number;
   readonly allowedOutputPaths: string[];
   readonly logLevel: LogLevel;
   readonly extensionsDir: string;
+  readonly verifySignatures: boolean;
+  /** Store that bare extension IDs are downloaded from: `chrome`, `edge` or a custom provider's name */
+  readonly store: string;
+  /** Custom store providers, added to the built-in ones */
+  readonly stores?: readonly StoreProvider[];
+  /** Update service endpoint or self-hosted update manifest; point it at a mirror or a local stub server */
+  readonly updateUrl: string;
+  /** Chrome version sent as `prodversion`; packages may require a minimum version */
+  readonly prodVersion: string;
+  /** Package formats to accept, e.g. `crx3` or `crx2,crx3` */
+  readonly acceptFormat: string;
+  /** Extension to take from an update manifest listing several; defaults to the one being downloaded */
+  readonly appId?: string;
+  /** Version to take from an update manifest; defaults to the newest it lists */
+  readonly appVersion?: string;
+  /** Sent as `User-Agent` with every request */
+  readonly userAgent: string;
+  /** Extra headers for every request, such as credentials for a private mirror */
+  readonly headers?: Readonly<Record<string, string>>;
+  /** Proxy for every request, e.g. `http://proxy.corp:3128`; defaults to `HTTPS_PROXY` / `HTTP_PROXY` */
+  readonly proxy?: string;
+  /** Hosts reached without the proxy, as a `NO_PROXY` list; defaults to `NO_PROXY` */
+  readonly noProxy?: string;
+  /** PEM file of CA certificates trusted in addition to the built-in roots */
+  readonly caFile?: string;
+  /** Platform sent as `os` (e.g. `win`, `mac`, `linux`, `cros`); omitted when unset */
+  readonly os?: string;
+  /** CPU architecture sent as `arch` (e.g. `x86`, `x64`, `arm64`); omitted when unset */
+  readonly arch?: string;
+  /** Native Client architecture sent as `nacl_arch` (e.g. `x86-64`, `arm`); omitted when unset */
+  readonly naclArch?: string;
 }
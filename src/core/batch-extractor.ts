@@ -0,0 +1,125 @@
+// src/core/batch-extractor.ts
+
+import { DEFAULT_BATCH_CONCURRENCY } from '../config/constants';
+import { DEFAULT_CONFIG } from '../config/defaults';
+import { type ExtractorConfig } from '../config/types';
+import { CRXError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { type BatchEvents, type BatchItemResult, type BatchOptions, type BatchReport } from '../types';
+import { TypedEmitter } from '../utils/events';
+import { CRXExtractor } from './crx-extractor';
+
+/**
+ * Extracts many inputs with a bounded number running at once. Each input gets its own
+ * `CRXExtractor` and default output directory; subscribe to `item` to follow progress.
+ */
+export class BatchExtractor extends TypedEmitter<BatchEvents> {
+  private readonly logger: Logger;
+
+  constructor (private readonly config: ExtractorConfig = DEFAULT_CONFIG) {
+    super();
+    this.logger = new Logger(config.logLevel);
+  }
+
+  /**
+   * Reads a batch list: one extension ID, URL or path per line. Blank lines and
+   * lines starting with `#` are skipped.
+   */
+  static parseList(text: string): string[] {
+    return text
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'));
+  }
+
+  /**
+   * Extracts every input and reports how each went. A failure stops inputs that haven't
+   * started unless `continueOnError` is set; ones already running still finish.
+   */
+  async run(inputs: string[], options: BatchOptions = {}): Promise<BatchReport> {
+    const concurrency = options.concurrency ?? DEFAULT_BATCH_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(`Batch concurrency must be a positive integer: ${concurrency}`);
+    }
+
+    // The same input twice would extract into the same directory at the same time
+    const unique = [...new Set(inputs)];
+    if (unique.length < inputs.length) {
+      this.logger.warn(`Skipping ${inputs.length - unique.length} duplicate inputs`);
+    }
+
+    const startedAt = new Date();
+    const results: (BatchItemResult | undefined)[] = new Array(unique.length);
+    let next = 0;
+    let completed = 0;
+    let stopped = false;
+
+    const worker = async (): Promise<void> => {
+      while (next < unique.length && !stopped) {
+        const index = next++;
+        const result = await this.extractOne(unique[index] as string);
+        results[index] = result;
+        if (result.status === 'failed' && !options.continueOnError) {
+          stopped = true;
+        }
+        this.emit('item', { result, completed: ++completed, total: unique.length });
+      }
+    };
+
+    this.logger.info(`Extracting ${unique.length} inputs, ${concurrency} at a time`);
+    await Promise.all(Array.from({ length: Math.min(concurrency, unique.length) }, worker));
+
+    const finished = unique.map((input, i) => results[i] ?? this.skipped(input));
+    const count = (status: BatchItemResult['status']) => finished.filter(result => result.status === status).length;
+    return {
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      total: finished.length,
+      succeeded: count('succeeded'),
+      failed: count('failed'),
+      skipped: count('skipped'),
+      results: finished
+    };
+  }
+
+  private async extractOne(input: string): Promise<BatchItemResult> {
+    const start = performance.now();
+    try {
+      const result = await new CRXExtractor(input, this.config).extract();
+      return {
+        input,
+        status: 'succeeded',
+        id: result.id,
+        name: result.name,
+        version: result.version,
+        outputDir: result.outputDir,
+        errorCode: null,
+        errorMessage: null,
+        durationMs: performance.now() - start
+      };
+    } catch (error) {
+      this.logger.debug('Batch input failed', { input, error });
+      return {
+        ...this.skipped(input),
+        status: 'failed',
+        errorCode: error instanceof CRXError ? error.code : 'UNEXPECTED_ERROR',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        durationMs: performance.now() - start
+      };
+    }
+  }
+
+  private skipped(input: string): BatchItemResult {
+    return {
+      input,
+      status: 'skipped',
+      id: null,
+      name: null,
+      version: null,
+      outputDir: null,
+      errorCode: null,
+      errorMessage: null,
+      durationMs: 0
+    };
+  }
+}
@@ -1,255 +1,544 @@
 // src/core/crx-extractor.ts
 
-import { CRX_DOWNLOAD_URL_BASE, CRX_MAGIC, CRX_VERSION_2, CRX_VERSION_3 } from '../config/constants';
+import { type BunFile } from 'bun';
+import { mkdir, readdir, realpath, rename, rm } from 'node:fs/promises';
+import { PermissionAnalyzer } from '../analysis/permissions';
+import { type CacheRecord, DownloadCache } from '../cache/download-cache';
+import { CRX_MAGIC, CRX_VERSION_2, MANIFEST_SNIFF_MAX_SIZE, UPDATE_RESPONSE_MAX_SIZE } from '../config/constants';
 import { DEFAULT_CONFIG } from '../config/defaults';
 import { type ExtractorConfig } from '../config/types';
+import { type Download, Downloader, type DownloadOptions } from '../download/downloader';
+import { ExtensionId } from '../crx/extension-id';
+import { CRXHeaderParser } from '../crx/header';
+import { CRXVerifier } from '../crx/verifier';
 import { CRXError, DownloadError, ExtractionError, SecurityError, ValidationError } from '../errors';
+import { InputResolver } from '../input/resolver';
 import { Logger } from '../logger';
-import { type CRXHeader, type ExtensionInfo, type ExtensionManifest, type ZipInfo } from '../types';
+import { type StoreProvider } from '../store/provider';
+import { StoreRegistry } from '../store/registry';
+import { TarWriter } from '../tar/writer';
+import { type ArchiveFormat, type CacheEntry, type CRXHeader, type ExtensionInfo, type ExtensionManifest, type ExtractionResult, type ExtractorEvents, type InputSource, type InspectedEntry, type InspectionResult, type ManifestIssue, type MemoryExtractionResult, type PackageFormat, type ProofSummary, type UpdateCheck, type UpdateCheckResult, type UpdatePackage, type ZipEntry, type ZipInfo } from '../types';
+import { UpdateClient } from '../update/client';
+import { BinaryUtils } from '../utils/binary';
+import { TypedEmitter } from '../utils/events';
+import { FormatUtils } from '../utils/format';
 import { PathUtils } from '../utils/path';
 import { ManifestValidator } from '../validators/manifest';
 import { PathValidator } from '../validators/path';
+import { ZipValidator } from '../validators/zip';
+import { ZipReader } from '../zip/reader';
+import { type ByteSource, FileSource, MemorySource } from '../zip/source';
+import { ZipWriter } from '../zip/writer';
 
-export class CRXExtractor {
-  private buffer: Uint8Array | null = null;
-  private offset: number = 0;
+/** Package bytes: a file on disk, or a download buffered in memory */
+type PackageData = BunFile | Uint8Array;
+
+/** A downloaded CRX, with the update manifest entry it was found through, if any */
+interface FetchedPackage extends Download<PackageData> {
+  readonly published: UpdatePackage | null;
+}
+
+/** A package whose header, signatures and ID have been checked */
+interface OpenedPackage {
+  readonly format: PackageFormat;
+  readonly header: CRXHeader | null;
+  readonly zipData: PackageData;
+  readonly loadMs: number;
+  readonly verifyMs: number;
+}
+
+/**
+ * Extracts CRX, ZIP and XPI packages. Subscribe with `on()` to follow progress;
+ * see `ExtractorEvents` for the events and their payloads.
+ */
+export class CRXExtractor extends TypedEmitter<ExtractorEvents> {
+  /** The local input, or the downloaded copy */
+  private packageData: PackageData | null = null;
+  /** Temporary download to remove once extraction finishes */
+  private downloadPath: string | null = null;
+  /** A fresh download, added to the cache once `extract()` has verified and unpacked it */
+  private pendingCache: Omit<CacheRecord, 'version'> | null = null;
   private extensionInfo: Partial<ExtensionInfo> = {};
+  /** Errors and warnings from the last manifest read */
+  private manifestIssues: readonly ManifestIssue[] = [];
+  /** Name of the package file or URL path, which tells XPI from plain ZIP */
+  private fileName = '';
   private readonly logger: Logger;
   private readonly pathValidator: PathValidator;
   private readonly manifestValidator: ManifestValidator;
+  private readonly zipValidator: ZipValidator;
+  private readonly cache: DownloadCache | null;
+  private readonly stores: StoreRegistry;
 
-  constructor (private readonly input: string, private readonly config: ExtractorConfig = DEFAULT_CONFIG) {
-    if (!input || typeof input !== 'string') {
-      throw new ValidationError('Input must be a non-empty string');
+  /**
+   * `input` is resolved with `InputResolver.resolve()` when extraction starts; pass an
+   * `InputSource` to skip detection.
+   */
+  constructor (
+    private readonly input: string | InputSource,
+    private readonly config: ExtractorConfig = DEFAULT_CONFIG
+  ) {
+    super();
+    if (typeof input === 'string' ? !input : typeof input?.kind !== 'string') {
+      throw new ValidationError('Input must be a non-empty string or an input source');
     }
 
     this.logger = new Logger(config.logLevel);
     this.pathValidator = new PathValidator(config.allowedOutputPaths);
     this.manifestValidator = new ManifestValidator();
+    this.zipValidator = new ZipValidator(config.maxEntryExtractionRatio);
+    this.cache = config.cache ? new DownloadCache(config) : null;
+    this.stores = new StoreRegistry(config);
 
     this.logger.debug('CRXExtractor initialized', { input, config });
   }
 
   /**
-   * Extracts the extension ID from various input formats.
+   * Downloads the CRX file from a store, either to a temporary file or, for in-memory
+   * extraction, into a buffer. With a cached copy the request is conditional, and the
+   * cached file is used when the server reports it unchanged.
+   */
+  private async downloadFromStore(
+    extensionId: string,
+    inMemory: boolean,
+    store: StoreProvider = this.stores.get()
+  ): Promise<PackageData> {
+    // Validate the ID the way the store spells it
+    extensionId = store.parseId(extensionId);
+    // Only Chrome extension IDs can be checked against the signing key and key the cache
+    const chromeId = ExtensionId.isValid(extensionId);
+
+    this.extensionInfo = {
+      id: chromeId ? extensionId : undefined,
+      name: this.pathValidator.sanitizeFilename(extensionId) // Placeholder
+    };
+
+    this.logger.info(`Fetching extension with ID: ${extensionId} from ${store.label}`);
+
+    const downloadUrl = store.downloadUrl(extensionId, this.config);
+
+    this.logger.debug('Download URL constructed', { url: downloadUrl.href });
+
+    const cache = chromeId ? this.cache : null;
+    const cached = cache && !this.config.refreshCache ? await cache.lookup(extensionId) : null;
+    const download = await this.downloadPackage(downloadUrl, extensionId, inMemory, cached ?? undefined, store);
+
+    if (!download) {
+      return this.useCachedPackage(cached as CacheEntry, inMemory);
+    }
+
+    // A package found through an update manifest was already checked against it
+    if (download.resumed && !download.published) {
+      await this.verifyResumedDownload(store, extensionId, download.data);
+    }
+
+    if (cache && !inMemory) {
+      this.pendingCache = { id: extensionId, etag: download.etag, lastModified: download.lastModified };
+    }
+    return download.data;
+  }
+
+  /**
+   * Downloads a package from a direct CRX link or a self-hosted update manifest.
+   * Such downloads bypass the cache, which is keyed by extension ID.
    */
-  private findExtensionId(): string | null {
-    const idPattern = /([a-z]{32})/;
-    const match = this.input.match(idPattern);
-    const id = match?.[0] ?? null;
-    this.logger.debug('Extension ID search', { input: this.input, found: id });
-    return id;
+  private async downloadFromUrl(url: URL, inMemory: boolean): Promise<PackageData> {
+    this.logger.info(`Fetching package from ${url.href}`);
+    this.fileName = url.pathname.split('/').pop() ?? '';
+    const name = this.fileName.replace(/\.(crx|xml)$/i, '') || 'remote_extension';
+    this.extensionInfo = { name: this.pathValidator.sanitizeFilename(name) };
+
+    const download = await this.downloadPackage(url, this.config.appId ?? null, inMemory);
+    return (download as FetchedPackage).data;
   }
 
   /**
-   * Downloads the CRX file from the Chrome Web Store.
+   * Downloads the current package of an extracted extension from the `update_url` its
+   * manifest declares, or from the configured store when it declares none.
    */
-  private async downloadFromWebStore(extensionId: string): Promise<Uint8Array> {
-    // Validate extension ID format
-    if (!/^[a-z]{32}$/.test(extensionId)) {
-      throw new ValidationError(`Invalid extension ID format: ${extensionId}`);
+  private async downloadUpdate(dir: string, inMemory: boolean): Promise<PackageData> {
+    let manifest: ExtensionManifest;
+    try {
+      manifest = this.manifestValidator.validateManifest(await Bun.file(PathUtils.join(dir, 'manifest.json')).json());
+    } catch (error) {
+      if (error instanceof CRXError) throw error;
+      throw new ValidationError(`Failed to read manifest.json in "${dir}"`);
     }
 
-    this.extensionInfo = {
-      id: extensionId,
-      name: extensionId // Placeholder
-    };
+    const keyId = await this.keyExtensionId(manifest);
+    const extensionId = this.config.appId ?? keyId ?? InputResolver.idFromDirectoryName(dir);
+    if (!extensionId) {
+      throw new ValidationError(`Cannot tell the extension ID of "${dir}"; set appId or add a key to its manifest`);
+    }
 
-    this.logger.info(`Fetching extension with ID: ${extensionId}`);
+    const store = typeof manifest.update_url === 'string'
+      ? this.stores.forUpdateUrl(manifest.update_url)
+      : this.stores.get();
+    this.logger.info(`Updating ${manifest.name} ${manifest.version} from ${store.label}`);
+    return this.downloadFromStore(extensionId, inMemory, store);
+  }
 
-    const downloadUrl = new URL(CRX_DOWNLOAD_URL_BASE);
-    downloadUrl.search = new URLSearchParams({
-      response: 'redirect',
-      prodversion: '120.0',
-      acceptformat: 'crx3',
-      x: `id=${extensionId}&installsource=ondemand&uc`
-    }).toString();
+  /**
+   * The extension ID pinned by a manifest's `key`, if it has one.
+   */
+  private async keyExtensionId(manifest: ExtensionManifest): Promise<string | null> {
+    if (typeof manifest.key !== 'string' || !manifest.key) return null;
+    return ExtensionId.fromPublicKey(new Uint8Array(Buffer.from(manifest.key, 'base64')));
+  }
 
-    this.logger.debug('Download URL constructed', { url: downloadUrl.href });
+  /**
+   * Downloads a CRX. When the URL answers with an update manifest instead, the package
+   * it lists for `appId` is downloaded and checked against the manifest's hash or size.
+   * Resolves to null when a conditional request found the cached copy current.
+   * `store` checks the responses of a store download.
+   */
+  private async downloadPackage(
+    url: URL,
+    appId: string | null,
+    inMemory: boolean,
+    cached?: CacheEntry,
+    store?: StoreProvider
+  ): Promise<FetchedPackage | null> {
+    const download = await this.fetchPackage(url, inMemory, cached, store);
+    if (!download) return null;
+    if (await this.isCrx(download.data)) {
+      return { ...download, published: null };
+    }
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.config.downloadTimeout);
+    const manifest = await this.readUpdateManifest(download.data);
+    if (manifest === null) {
+      throw new ValidationError('Downloaded file is not a valid CRX file');
+    }
+    await this.discardDownload();
 
-    try {
-      const response = await fetch(downloadUrl.href, {
-        headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' },
-        redirect: 'follow',
-        signal: controller.signal
-      });
+    const published = new UpdateClient(this.config).selectPackage(manifest, appId, url);
+    // The package must then be signed as the extension the manifest listed it under
+    this.extensionInfo = { ...this.extensionInfo, id: published.appId };
+    this.logger.info(`Following the update manifest to ${published.codebase}`);
 
-      clearTimeout(timeout);
+    const packageDownload = await this.fetchPackage(new URL(published.codebase), inMemory, cached, store);
+    if (!packageDownload) return null;
+    if (!(await this.isCrx(packageDownload.data))) {
+      throw new ValidationError('Downloaded file is not a valid CRX file');
+    }
 
-      if (!response.ok) {
-        throw new DownloadError(`Download failed: ${response.status} ${response.statusText}`);
-      }
+    if (await this.checkPublished(packageDownload.data, published, 'Download', 'the update manifest')) {
+      this.logger.info('Download matches the update manifest');
+    }
+    return { ...packageDownload, published };
+  }
 
-      const contentType = response.headers.get('content-type');
-      if (contentType?.includes('text/html')) {
-        throw new DownloadError('Received HTML instead of a CRX file. The extension might be unlisted.');
-      }
+  /**
+   * Makes one download, into memory or a temporary file in the extensions directory.
+   */
+  private async fetchPackage(
+    url: URL,
+    inMemory: boolean,
+    cached?: CacheEntry,
+    store?: StoreProvider
+  ): Promise<Download<PackageData> | null> {
+    const downloader = new Downloader(this.config);
+    const options: DownloadOptions = {
+      maxSize: this.config.maxFileSize,
+      validate: response => {
+        if (store) {
+          store.validateResponse(response);
+        } else if (response.headers.get('content-type')?.includes('text/html')) {
+          throw new DownloadError('Received HTML instead of a CRX file. The extension might be unlisted.');
+        }
+      },
+      onProgress: progress => this.emit('downloadProgress', progress),
+      cached
+    };
+
+    let download: Download<PackageData> | null;
+    if (inMemory) {
+      download = await downloader.toMemory(url, options);
+    } else {
+      // Streamed to a temporary file in the extensions directory, named apart from concurrent downloads
+      await this.ensureDirectory(this.config.extensionsDir);
+      const fileName = `.download_${Date.now()}_${crypto.randomUUID().slice(0, 8)}.crx`;
+      const path = this.pathValidator.validatePath(PathUtils.join(this.config.extensionsDir, fileName));
+      download = await downloader.toFile(url, path, options);
+      this.downloadPath = download && path;
+    }
 
-      const arrayBuffer = await response.arrayBuffer();
-      const sizeMB = (arrayBuffer.byteLength / 1024 / 1024).toFixed(2);
+    if (download) {
+      const sizeMB = (this.toSource(download.data).size / 1024 / 1024).toFixed(2);
       this.logger.info(`Downloaded ${sizeMB} MB`);
+    }
+    return download;
+  }
 
-      const buffer = new Uint8Array(arrayBuffer);
+  private async discardDownload(): Promise<void> {
+    if (this.downloadPath) {
+      await rm(this.downloadPath, { force: true });
+      this.downloadPath = null;
+    }
+  }
 
-      // Validate CRX magic number
-      if (buffer.length < 8 || this.readUInt32LEAt(buffer, 0) !== CRX_MAGIC) {
-        throw new ValidationError('Downloaded file is not a valid CRX file');
-      }
+  private async isCrx(data: PackageData): Promise<boolean> {
+    const magic = await this.toSource(data).read(0, 8);
+    return magic.length >= 8 && BinaryUtils.readUInt32LE(magic, 0) === CRX_MAGIC;
+  }
 
-      return buffer;
+  /**
+   * The text of a download that looks like an XML document rather than a package, or null.
+   */
+  private async readUpdateManifest(data: PackageData): Promise<string | null> {
+    if (this.toSource(data).size > UPDATE_RESPONSE_MAX_SIZE) return null;
+
+    const text = data instanceof Uint8Array ? new TextDecoder().decode(data) : await data.text();
+    return /^\uFEFF?\s*</.test(text) ? text : null;
+  }
+
+  /**
+   * Serves a package the server reported unchanged (304) from the cache. In-memory
+   * runs read the cache but never write to it.
+   */
+  private async useCachedPackage(entry: CacheEntry, inMemory: boolean): Promise<BunFile> {
+    const cache = this.cache as DownloadCache;
+    this.logger.info(`Package unchanged upstream; using cached copy${entry.version ? ` of ${entry.version}` : ''}`);
+    if (!inMemory) {
+      await cache.touch(entry);
+    }
+
+    this.emit('downloadProgress', { received: entry.size, total: entry.size });
+    return cache.file(entry);
+  }
+
+  /**
+   * Adds a fresh download to the cache. Failing to cache it doesn't fail the extraction.
+   */
+  private async cacheDownload(version: string | null, data: PackageData): Promise<void> {
+    const record = this.pendingCache;
+    this.pendingCache = null;
+    if (!record || !this.cache) return;
+
+    try {
+      await this.cache.store({ ...record, version }, data);
+      this.logger.info('Package added to the download cache');
     } catch (error) {
-      clearTimeout(timeout);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new DownloadError(`Download timed out after ${this.config.downloadTimeout}ms`);
-      }
-      throw error;
+      this.logger.warn(`Could not cache the download: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Loads the CRX data from the provided input.
+   * Checks a download assembled from several responses against the size and hash the
+   * store's update service publishes for the extension, so bytes from two different files
+   * can't pass as one.
    */
-  private async loadInput(): Promise<void> {
-    const extensionId = this.findExtensionId();
+  private async verifyResumedDownload(store: StoreProvider, extensionId: string, data: PackageData): Promise<void> {
+    const updateUrl = store.updateUrl?.(this.config);
+    if (!updateUrl) {
+      this.logger.warn(`${store.label} has no update service; only signatures check the resumed download`);
+      return;
+    }
+
+    let expected: UpdateCheckResult;
+    try {
+      expected = await new UpdateClient({ ...this.config, updateUrl }).check(extensionId);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Could not verify the resumed download against the update service: ${reason}`);
+      return;
+    }
 
-    if (extensionId) {
-      this.buffer = await this.downloadFromWebStore(extensionId);
+    if (await this.checkPublished(data, expected, 'Resumed download', 'the update service')) {
+      this.logger.info('Resumed download verified against the update service');
     } else {
-      await this.loadLocalFile();
+      this.logger.warn('Update service publishes no size or hash; only signatures check the resumed download');
     }
   }
 
   /**
-   * Loads a local CRX file with atomic operations.
+   * Compares a package with the SHA-256, or failing that the size, published for it.
+   * Returns false when neither is published.
    */
-  private async loadLocalFile(): Promise<void> {
-    const file = Bun.file(this.input);
+  private async checkPublished(
+    data: PackageData,
+    expected: Pick<UpdateCheck, 'sha256' | 'size'>,
+    subject: string,
+    publisher: string
+  ): Promise<boolean> {
+    if (expected.sha256) {
+      if (await Downloader.sha256(data) !== expected.sha256) {
+        throw new DownloadError(`${subject} does not match the SHA-256 published by ${publisher}`);
+      }
+    } else if (expected.size !== null) {
+      if (this.toSource(data).size !== expected.size) {
+        throw new DownloadError(`${subject} does not match the size published by ${publisher}`);
+      }
+    } else {
+      return false;
+    }
+    return true;
+  }
+
+  private toSource(data: PackageData): ByteSource {
+    return data instanceof Uint8Array ? new MemorySource(data) : new FileSource(data);
+  }
+
+  private maxFileSizeMB(): string {
+    return (this.config.maxFileSize / 1024 / 1024).toFixed(0);
+  }
+
+  /**
+   * Loads the CRX data from the provided input.
+   */
+  private async loadInput(inMemory: boolean): Promise<void> {
+    const source = typeof this.input === 'string'
+      ? await InputResolver.resolve(this.input, undefined, this.config)
+      : this.input;
+    this.logger.debug('Input resolved', source);
+
+    switch (source.kind) {
+      case 'webstore-id':
+      case 'webstore-url':
+        this.packageData = await this.downloadFromStore(source.id, inMemory, this.stores.get(source.store));
+        break;
+      case 'http-url':
+        this.packageData = await this.downloadFromUrl(new URL(source.url), inMemory);
+        break;
+      case 'extension-directory':
+        // An extracted extension: fetch its current package
+        this.packageData = await this.downloadUpdate(source.path, inMemory);
+        break;
+      case 'local-file':
+        await this.loadLocalFile(source.path);
+        break;
+      case 'stdin':
+        await this.readStdin();
+        break;
+    }
+  }
+
+  /**
+   * Loads a local CRX, ZIP or XPI file with atomic operations.
+   */
+  private async loadLocalFile(path: string): Promise<void> {
+    const file = Bun.file(path);
 
     try {
-      // Atomic read operation
-      const [exists, stats, buffer] = await Promise.all([
-        file.exists(),
-        file.stat().catch(() => null),
-        file.arrayBuffer().catch(() => null)
-      ]);
-
-      if (!exists || !stats || !buffer) {
-        throw new ValidationError(`File not found or inaccessible: "${this.input}"`);
+      // Check the size before reading anything; contents are read on demand later
+      const [exists, stats] = await Promise.all([file.exists(), file.stat().catch(() => null)]);
+      if (!exists || !stats) {
+        throw new ValidationError(`File not found or inaccessible: "${path}"`);
       }
 
-      this.logger.info(`Loading local file: ${this.input}`);
+      this.logger.info(`Loading local file: ${path}`);
 
       // Check file size
       if (stats.size > this.config.maxFileSize) {
-        const maxMB = (this.config.maxFileSize / 1024 / 1024).toFixed(0);
-        throw new ValidationError(`File too large. Maximum size is ${maxMB}MB`);
+        throw new ValidationError(`File too large. Maximum size is ${this.maxFileSizeMB()}MB`);
       }
 
-      this.buffer = new Uint8Array(buffer);
-      const filename = this.input.split('/').pop()?.replace('.crx', '') || 'local_extension';
-      this.extensionInfo = { id: 'local', name: this.pathValidator.sanitizeFilename(filename) };
+      this.packageData = file;
+      this.fileName = path.split('/').pop() ?? '';
+      const name = this.fileName.replace(/\.(crx|zip|xpi)$/i, '') || 'local_extension';
+      this.extensionInfo = { name: this.pathValidator.sanitizeFilename(name) };
 
       this.logger.debug('Local file loaded', { size: stats.size });
     } catch (error) {
       if (error instanceof CRXError) throw error;
-      throw new ValidationError(`Failed to load file: ${this.input}`);
+      throw new ValidationError(`Failed to load file: ${path}`);
     }
   }
 
   /**
-   * Reads a 32-bit unsigned little-endian integer from a buffer.
+   * Buffers a package piped to stdin, up to the maximum file size.
    */
-  private readUInt32LEAt(buffer: Uint8Array, offset: number): number {
-    if (offset + 4 > buffer.length) {
-      throw new ValidationError('Buffer underrun while reading UInt32LE');
+  private async readStdin(): Promise<void> {
+    this.logger.info('Reading package from stdin');
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    for await (const chunk of Bun.stdin.stream()) {
+      size += chunk.length;
+      if (size > this.config.maxFileSize) {
+        throw new ValidationError(`Input too large. Maximum size is ${this.maxFileSizeMB()}MB`);
+      }
+      chunks.push(chunk);
+    }
+    if (size === 0) {
+      throw new ValidationError('No package data on stdin');
     }
-    return ((buffer[offset] ?? 0) |
-      ((buffer[offset + 1] ?? 0) << 8) |
-      ((buffer[offset + 2] ?? 0) << 16) |
-      ((buffer[offset + 3] ?? 0) << 24)) >>> 0;
+
+    this.packageData = new Uint8Array(Buffer.concat(chunks));
+    this.extensionInfo = { name: 'stdin_extension' };
+    this.logger.debug('Stdin read', { size });
   }
 
   /**
-   * Reads a 32-bit unsigned little-endian integer and advances offset.
+   * Reads and parses the CRX file header.
    */
-  private readUInt32LE(): number {
-    if (!this.buffer) {
-      throw new Error('Buffer not initialized');
+  private async parseHeader(source: ByteSource): Promise<CRXHeader> {
+    const header = await CRXHeaderParser.read(source);
+    if (header.version === CRX_VERSION_2) {
+      this.logger.warn('CRX2 packages are no longer installable in Chrome; use `convert` to re-sign as CRX3');
     }
-    const value = this.readUInt32LEAt(this.buffer, this.offset);
-    this.offset += 4;
-    return value;
+
+    this.logger.debug('CRX header parsed', {
+      version: header.version,
+      zipOffset: header.zipOffset,
+      rsaProofs: header.sha256WithRsa.length,
+      ecdsaProofs: header.sha256WithEcdsa.length,
+      crxId: header.crxId ? BinaryUtils.toHex(header.crxId) : undefined
+    });
+    return header;
   }
 
   /**
-   * Parses the CRX file header.
+   * Verifies the package signatures before any of its contents are trusted.
    */
-  private parseHeader(): CRXHeader {
-    if (!this.buffer) {
-      throw new Error('Buffer not initialized');
+  private async verifySignatures(source: ByteSource, header: CRXHeader): Promise<void> {
+    if (!this.config.verifySignatures) {
+      this.logger.warn('Signature verification disabled; package contents are not authenticated');
+      return;
     }
 
-    this.offset = 0;
-    const magic = this.readUInt32LE();
-    if (magic !== CRX_MAGIC) {
-      throw new ValidationError(`Invalid CRX magic number: 0x${magic.toString(16)}`);
-    }
+    await CRXVerifier.verify(source, header);
+    this.logger.info('CRX signature verification passed');
+  }
 
-    const version = this.readUInt32LE();
-    let zipOffset = 0;
+  /**
+   * Derives the extension ID from the signing key and checks it against the requested ID.
+   */
+  private async resolveExtensionId(header: CRXHeader): Promise<void> {
+    const requestedId = this.extensionInfo.id;
+    const derivedId = await ExtensionId.fromHeader(header);
 
-    switch (version) {
-      case CRX_VERSION_2: {
-        const publicKeyLength = this.readUInt32LE();
-        const signatureLength = this.readUInt32LE();
-        zipOffset = this.offset + publicKeyLength + signatureLength;
-        break;
-      }
-      case CRX_VERSION_3: {
-        const headerSize = this.readUInt32LE();
-        zipOffset = this.offset + headerSize;
-        break;
-      }
-      default:
-        throw new ValidationError(`Unsupported CRX version: ${version}`);
+    if (!derivedId) {
+      this.logger.warn('CRX carries no signing key; extension ID cannot be derived');
+      return;
     }
 
-    // Validate zip offset
-    if (zipOffset >= this.buffer.length) {
-      throw new ValidationError('Invalid CRX header: ZIP offset exceeds file size');
+    if (requestedId && requestedId !== derivedId) {
+      throw new SecurityError(`Extension ID mismatch: requested ${requestedId} but package is signed as ${derivedId}`);
     }
 
-    this.logger.debug('CRX header parsed', { version, zipOffset });
-    return { version, zipOffset };
+    this.extensionInfo = { ...this.extensionInfo, id: derivedId };
+    this.logger.info(`Extension ID: ${derivedId}`);
   }
 
   /**
-   * Gets information about a ZIP file for security checks.
+   * Builds the output name from the extension name and, when it differs, the derived ID.
    */
-  private async getZipInfo(zipPath: string): Promise<ZipInfo> {
-    try {
-      // Use unzip -l to list contents without extracting
-      const result = await Bun.$`unzip -l ${zipPath}`.text();
-
-      const lines = result.split('\n');
-      const summaryLine = lines[lines.length - 2] || '';
-      const match = summaryLine.match(/^\s*(\d+)\s+(\d+)\s+files?/);
-
-      if (!match) {
-        throw new ValidationError('Could not parse ZIP information');
-      }
-
-      const uncompressedSize = parseInt(match[1] ?? '0', 10);
-      const fileCount = parseInt(match[2] ?? '0', 10);
-      const stats = await Bun.file(zipPath).stat();
-      const compressedSize = stats.size;
+  private getOutputName(): string {
+    const { id, name } = this.extensionInfo;
+    const extensionName = name || id || 'unknown_extension';
+    return id && id !== extensionName ? `${extensionName}_${id}` : extensionName;
+  }
 
-      return { fileCount, uncompressedSize, compressedSize };
+  /**
+   * Opens the ZIP archive and reads its central directory.
+   */
+  private async openZip(zipData: PackageData): Promise<ZipReader> {
+    try {
+      return await ZipReader.open(this.toSource(zipData));
     } catch (error) {
-      this.logger.error('Failed to get ZIP info', error);
+      // The caller reports the failure; keep the underlying cause for debugging
+      this.logger.debug('Failed to read ZIP central directory', error);
       throw new ExtractionError('Failed to analyze ZIP file');
     }
   }
@@ -257,8 +546,8 @@ export class CRXExtractor {
   /**
    * Validates ZIP file against security constraints.
    */
-  private async validateZipSecurity(zipPath: string): Promise<void> {
-    const info = await this.getZipInfo(zipPath);
+  private validateZipSecurity(reader: ZipReader): void {
+    const info = reader.info;
     this.logger.debug('ZIP info retrieved', info);
 
     // Check compression ratio
@@ -281,7 +570,11 @@ export class CRXExtractor {
       throw new SecurityError(`Extracted size too large (${sizeMB}MB). Maximum allowed: ${maxMB}MB`);
     }
 
+    // Check each entry: zip-slip, symlinks, duplicates, encryption and per-entry ratio
+    this.zipValidator.validateEntries(reader.entries);
+
     this.logger.info('ZIP security validation passed');
+    this.emit('validated', info);
   }
 
   /**
@@ -298,38 +591,64 @@ export class CRXExtractor {
     }
   }
 
+  /**
+   * Streams one entry to disk chunk by chunk.
+   */
+  private async writeEntry(reader: ZipReader, entry: ZipEntry, target: string): Promise<void> {
+    // Archives need not list parent directories as entries of their own
+    await mkdir(PathUtils.dirname(target), { recursive: true });
+    const sink = Bun.file(target).writer({ highWaterMark: 1024 * 1024 });
+    try {
+      for await (const chunk of reader.stream(entry)) {
+        sink.write(chunk);
+      }
+    } finally {
+      await sink.end();
+    }
+  }
+
   /**
    * Extracts ZIP data with security checks.
    */
-  private async extractZip(zipData: Uint8Array, outputDir: string): Promise<void> {
+  private async extractZip(zipData: PackageData, outputDir: string): Promise<ZipInfo> {
     const timestamp = Date.now();
     const tempDir = PathUtils.join(outputDir, `.tmp_${timestamp}`);
-    const zipPath = PathUtils.join(tempDir, 'archive.zip');
 
     try {
       // Create temp directory
       await this.ensureDirectory(tempDir);
 
-      // Write ZIP file
-      await Bun.write(zipPath, zipData);
-      this.logger.debug('Temporary ZIP created', { path: zipPath });
-
-      // Validate ZIP security
-      await this.validateZipSecurity(zipPath);
+      // Read the central directory and validate ZIP security
+      const reader = await this.openZip(zipData);
+      this.validateZipSecurity(reader);
 
-      // Extract with restricted permissions
-      const result = await Bun.$`unzip -q -o ${zipPath} -d ${tempDir}`.quiet();
+      // Extract entries into the temp directory
+      const total = reader.entries.length;
+      for (const [i, entry] of reader.entries.entries()) {
+        const target = this.pathValidator.validatePath(PathUtils.join(tempDir, entry.name));
+        if (!target.startsWith(`${tempDir}/`)) {
+          throw new SecurityError(`ZIP entry "${entry.name}" resolves outside the output directory`);
+        }
 
-      if (result.exitCode !== 0) {
-        throw new ExtractionError(`Unzip failed with exit code ${result.exitCode}`);
+        if (entry.isDirectory) {
+          await this.ensureDirectory(target);
+        } else {
+          await this.writeEntry(reader, entry, target);
+        }
+        this.emit('entry', { name: entry.name, index: i + 1, total, size: entry.uncompressedSize });
       }
 
-      // Move extracted files atomically
-      await Bun.$`mv ${tempDir}/* ${outputDir}/ 2>/dev/null || true`.quiet();
+      // Move extracted files into place
+      for (const name of await readdir(tempDir)) {
+        await rename(PathUtils.join(tempDir, name), PathUtils.join(outputDir, name));
+      }
 
       this.logger.info('Extraction completed successfully');
+      return reader.info;
     } catch (error) {
-      this.logger.error('Extraction failed', error);
+      // Rejected archives are not kept for recovery
+      if (error instanceof SecurityError) throw error;
+      this.logger.debug('Failed to extract ZIP entries', error);
 
       // Save ZIP for manual recovery
       const fallbackPath = PathUtils.join(outputDir, 'failed_extraction.zip');
@@ -346,6 +665,15 @@ export class CRXExtractor {
     }
   }
 
+  /**
+   * Checks whether a file already lives at `path`, so it isn't copied onto itself.
+   */
+  private async isSameFile(data: PackageData, path: string): Promise<boolean> {
+    if (data instanceof Uint8Array || !data.name) return false;
+    const target = await realpath(path).catch(() => null);
+    return !!target && target === (await realpath(data.name).catch(() => null));
+  }
+
   /**
    * Reads and validates the manifest file.
    */
@@ -354,56 +682,341 @@ export class CRXExtractor {
     const manifestFile = Bun.file(manifestPath);
 
     if (!(await manifestFile.exists())) {
-      this.logger.warn('manifest.json not found');
-      return null;
+      return this.missingManifest();
     }
 
+    let rawData: unknown;
     try {
-      const rawData = await manifestFile.json();
-      const manifest = this.manifestValidator.validateManifest(rawData);
-
-      // Update extension name from manifest
-      if (manifest.name) {
-        this.extensionInfo = { ...this.extensionInfo, name: this.pathValidator.sanitizeFilename(manifest.name) };
-      }
+      rawData = await manifestFile.json();
+    } catch (error) {
+      return this.unparsableManifest(error);
+    }
+    return this.applyManifest(rawData);
+  }
 
-      this.logger.debug('Manifest validated', {
-        name: manifest.name,
-        version: manifest.version,
-        manifest_version: manifest.manifest_version
-      });
+  /**
+   * Parses manifest.json bytes read straight from the archive.
+   */
+  private parseManifest(data: Uint8Array | undefined): ExtensionManifest | null {
+    if (!data) {
+      return this.missingManifest();
+    }
 
-      return manifest;
+    let rawData: unknown;
+    try {
+      rawData = JSON.parse(new TextDecoder().decode(data));
     } catch (error) {
-      this.logger.error('Failed to parse manifest', error);
-      return null;
+      return this.unparsableManifest(error);
     }
+    return this.applyManifest(rawData);
+  }
+
+  private missingManifest(): null {
+    this.logger.warn('manifest.json not found');
+    this.manifestIssues = [{ severity: 'error', pointer: '', message: 'manifest.json not found' }];
+    return null;
+  }
+
+  private unparsableManifest(error: unknown): null {
+    this.logger.error('Failed to parse manifest', error);
+    this.manifestIssues = [{ severity: 'error', pointer: '', message: 'manifest.json is not valid JSON' }];
+    return null;
   }
 
   /**
-   * Main extraction method with enhanced security.
+   * Validates manifest data against the schema, by Firefox rules for XPI packages, and
+   * picks up the extension name and Gecko ID from it. A manifest with schema errors is
+   * still returned, so its name and permissions are reported alongside the errors;
+   * null means it isn't a JSON object at all.
    */
-  public async extract(outputDir?: string): Promise<void> {
-    this.logger.info('Starting CRX extraction');
+  private applyManifest(rawData: unknown): ExtensionManifest | null {
+    const target = this.extensionInfo.format === 'xpi' ? 'firefox' : 'chrome';
+    const { manifest, issues } = this.manifestValidator.validate(rawData, { target });
+    this.manifestIssues = issues;
+    for (const issue of issues) {
+      this.logger.warn(`Manifest ${issue.severity} at ${issue.pointer || '/'}: ${issue.message}`);
+    }
+    if (!manifest) return null;
+
+    // Update extension name from manifest
+    if (typeof manifest.name === 'string' && manifest.name.trim()) {
+      this.extensionInfo = { ...this.extensionInfo, name: this.pathValidator.sanitizeFilename(manifest.name) };
+    }
 
+    let geckoId: string | null = null;
     try {
-      // Load input
-      await this.loadInput();
-      if (!this.buffer) {
-        throw new Error('Failed to load input');
-      }
+      geckoId = this.manifestValidator.getGeckoId(manifest);
+    } catch {
+      // A malformed Gecko ID is already among the manifest issues
+    }
+    if (geckoId) {
+      this.extensionInfo = { ...this.extensionInfo, geckoId };
+    }
+
+    this.logger.debug('Manifest validated', {
+      name: manifest.name,
+      version: manifest.version,
+      manifest_version: manifest.manifest_version
+    });
+
+    return manifest;
+  }
+
+  /**
+   * Reads a string field of a manifest that may have failed validation.
+   */
+  private manifestString(manifest: ExtensionManifest | null, key: 'name' | 'version'): string | null {
+    const value: unknown = manifest?.[key];
+    return typeof value === 'string' && value ? value : null;
+  }
+
+  /**
+   * Looks for an XPI signature or Gecko settings in a ZIP package. An archive that can't
+   * be read keeps the format its name suggested; opening it for extraction reports why.
+   */
+  private async detectZipFormat(source: ByteSource, hint: PackageFormat): Promise<PackageFormat> {
+    try {
+      const reader = await ZipReader.open(source);
+      const manifestEntry = reader.entries.find(entry => entry.name === 'manifest.json');
+      // The size cap keeps this unvalidated read small
+      const manifestData = manifestEntry && manifestEntry.uncompressedSize <= MANIFEST_SNIFF_MAX_SIZE
+        ? await reader.read(manifestEntry)
+        : null;
+      return FormatUtils.detectZip(reader.entries.map(entry => entry.name), manifestData, hint);
+    } catch {
+      return hint;
+    }
+  }
+
+  /**
+   * Loads the input and checks everything ahead of the ZIP payload: format,
+   * header, signatures and extension ID.
+   */
+  private async openPackage(inMemory: boolean): Promise<OpenedPackage> {
+    const start = performance.now();
+    let verifyMs = 0;
+
+    // Load input
+    await this.loadInput(inMemory);
+    const data = this.packageData;
+    if (!data) {
+      throw new Error('Failed to load input');
+    }
+    const source = this.toSource(data);
+
+    // Detect the container format; a ZIP is only an XPI if its contents say so
+    let format = FormatUtils.detect(await source.read(0, 4), this.fileName);
+    if (format !== 'crx') {
+      format = await this.detectZipFormat(source, format);
+    }
+    this.extensionInfo = { ...this.extensionInfo, format };
+    let header: CRXHeader | null = null;
 
+    if (format === 'crx') {
       // Parse header
-      const header = this.parseHeader();
+      header = await this.parseHeader(source);
       this.logger.info(`CRX version: ${header.version}`);
 
-      // Extract ZIP data
-      const zipData = this.buffer.subarray(header.zipOffset);
-      const sizeMB = (zipData.length / 1024 / 1024).toFixed(2);
-      this.logger.info(`ZIP data size: ${sizeMB} MB`);
+      // Verify signatures
+      const verifyStart = performance.now();
+      await this.verifySignatures(source, header);
+      verifyMs = performance.now() - verifyStart;
+
+      // Derive and cross-check the extension ID
+      await this.resolveExtensionId(header);
+    } else {
+      this.logger.info(`Input format: ${format.toUpperCase()}`);
+      this.logger.warn(`${format.toUpperCase()} packages carry no CRX signature; contents are not authenticated`);
+    }
+    this.emit('headerParsed', { format, header, id: this.extensionInfo.id ?? null });
+
+    // Locate ZIP data; an explicit end keeps a file slice's size exact
+    const zipOffset = header?.zipOffset ?? 0;
+    const zipData = data instanceof Uint8Array ? data.subarray(zipOffset) : data.slice(zipOffset, data.size);
+    const zipSize = zipData instanceof Uint8Array ? zipData.length : zipData.size;
+    this.logger.info(`ZIP data size: ${(zipSize / 1024 / 1024).toFixed(2)} MB`);
+
+    return { format, header, zipData, loadMs: performance.now() - start - verifyMs, verifyMs };
+  }
+
+  /**
+   * Extracts the package into memory without writing anything to disk. The same
+   * signature checks and ZIP limits apply as for `extract()`.
+   */
+  public async extractToMemory(): Promise<MemoryExtractionResult> {
+    this.logger.info('Starting in-memory extraction');
+    const start = performance.now();
+
+    try {
+      const { format, header, zipData } = await this.openPackage(true);
+
+      const reader = await this.openZip(zipData);
+      this.validateZipSecurity(reader);
+
+      const files = new Map<string, Uint8Array>();
+      const total = reader.entries.length;
+      for (const [i, entry] of reader.entries.entries()) {
+        if (!entry.isDirectory) {
+          files.set(entry.name, await reader.read(entry));
+        }
+        this.emit('entry', { name: entry.name, index: i + 1, total, size: entry.uncompressedSize });
+      }
+
+      const manifest = this.parseManifest(files.get('manifest.json'));
+
+      this.logger.info(`✅ Extracted ${files.size} files into memory`);
+      this.emit('done', { durationMs: performance.now() - start });
+      return {
+        files,
+        header,
+        manifest,
+        format,
+        id: this.extensionInfo.id ?? null,
+        name: this.manifestString(manifest, 'name') ?? this.extensionInfo.name ?? 'unknown_extension',
+        geckoId: this.extensionInfo.geckoId ?? null,
+        permissions: manifest ? PermissionAnalyzer.analyze(manifest) : null,
+        manifestIssues: this.manifestIssues
+      };
+    } catch (error) {
+      this.emit('failed', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Extracts the package as a tar or ZIP stream of its files instead of writing them to
+   * disk. The returned promise settles only once the package has passed the same signature
+   * checks and ZIP limits as `extract()`, so a rejected package emits nothing. Entries are
+   * read and checked one at a time as the stream is consumed; a corrupt entry errors the
+   * stream. Directories are implied by the file paths and not written as entries.
+   */
+  public async extractToStream(format: ArchiveFormat): Promise<ReadableStream<Uint8Array>> {
+    this.logger.info(`Starting extraction to a ${format} stream`);
+    const start = performance.now();
+
+    let reader: ZipReader;
+    try {
+      const { zipData } = await this.openPackage(true);
+      reader = await this.openZip(zipData);
+      this.validateZipSecurity(reader);
+    } catch (error) {
+      this.emit('failed', { error });
+      throw error;
+    }
+
+    let pending: Uint8Array[] = [];
+    const sink = (chunk: Uint8Array) => pending.push(chunk);
+    const writer = format === 'tar' ? new TarWriter(sink) : new ZipWriter(sink);
+    const total = reader.entries.length;
+    let index = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        try {
+          const entry = reader.entries[index++];
+          if (entry) {
+            if (!entry.isDirectory) {
+              writer.add(entry.name, await reader.read(entry));
+            }
+            this.emit('entry', { name: entry.name, index, total, size: entry.uncompressedSize });
+          } else {
+            writer.finish();
+          }
+
+          for (const chunk of pending) {
+            controller.enqueue(chunk);
+          }
+          pending = [];
+
+          if (!entry) {
+            controller.close();
+            this.logger.info(`✅ Streamed ${total} entries as ${format}`);
+            this.emit('done', { durationMs: performance.now() - start });
+          }
+        } catch (error) {
+          this.emit('failed', { error });
+          controller.error(error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Reports on a package without extracting it: header proofs, derived ID,
+   * the ZIP listing and the manifest. Nothing is written to disk.
+   */
+  public async inspect(): Promise<InspectionResult> {
+    this.logger.info('Inspecting package');
+    const start = performance.now();
+
+    try {
+      const { format, header, zipData } = await this.openPackage(true);
+
+      const reader = await this.openZip(zipData);
+      this.validateZipSecurity(reader);
+
+      const manifestEntry = reader.entries.find(entry => entry.name === 'manifest.json');
+      const manifest = this.parseManifest(manifestEntry ? await reader.read(manifestEntry) : undefined);
+
+      const entries = reader.entries.map((entry): InspectedEntry => ({
+        name: entry.name,
+        compressionMethod: entry.compressionMethod,
+        compressedSize: entry.compressedSize,
+        uncompressedSize: entry.uncompressedSize,
+        crc32: entry.crc32,
+        isDirectory: entry.isDirectory
+      }));
+
+      this.emit('done', { durationMs: performance.now() - start });
+      return {
+        format,
+        size: this.toSource(this.packageData as PackageData).size,
+        crxVersion: header?.version ?? null,
+        id: this.extensionInfo.id ?? null,
+        proofs: header ? await this.summarizeProofs(header) : [],
+        signaturesVerified: !!header && this.config.verifySignatures,
+        zip: reader.info,
+        entries,
+        manifest,
+        geckoId: this.extensionInfo.geckoId ?? null,
+        permissions: manifest ? PermissionAnalyzer.analyze(manifest) : null,
+        manifestIssues: this.manifestIssues
+      };
+    } catch (error) {
+      this.emit('failed', { error });
+      throw error;
+    }
+  }
+
+  private async summarizeProofs(header: CRXHeader): Promise<ProofSummary[]> {
+    const proofs = [
+      ...header.sha256WithRsa.map(proof => ({ algorithm: 'sha256_with_rsa' as const, proof })),
+      ...header.sha256WithEcdsa.map(proof => ({ algorithm: 'sha256_with_ecdsa' as const, proof })),
+      ...(header.sha1WithRsa ? [{ algorithm: 'sha1_with_rsa' as const, proof: header.sha1WithRsa }] : [])
+    ];
+
+    return Promise.all(proofs.map(async ({ algorithm, proof }) => ({
+      algorithm,
+      keyId: await ExtensionId.fromPublicKey(proof.publicKey),
+      publicKeySize: proof.publicKey.length,
+      signatureSize: proof.signature.length
+    })));
+  }
+
+  /**
+   * Main extraction method with enhanced security.
+   */
+  public async extract(outputDir?: string): Promise<ExtractionResult> {
+    this.logger.info('Starting extension extraction');
+    const start = performance.now();
+
+    try {
+      const { format, header, zipData, loadMs, verifyMs } = await this.openPackage(false);
+      const packageData = this.packageData as PackageData;
+      const extractStart = performance.now();
 
       // Determine and validate output directory
-      const extensionName = this.extensionInfo.name || 'unknown_extension';
+      const extensionName = this.getOutputName();
       let outDir: string;
 
       if (outputDir) {
@@ -421,33 +1034,53 @@ export class CRXExtractor {
       await this.ensureDirectory(PathUtils.dirname(outDir));
       await Bun.$`rm -rf ${outDir} && mkdir -p ${outDir}`.quiet();
 
-      // Save original CRX file
-      const crxPath = PathUtils.join(this.config.extensionsDir, `${extensionName}.crx`);
-      const validCrxPath = this.pathValidator.validatePath(crxPath);
-      await this.ensureDirectory(PathUtils.dirname(validCrxPath));
-      await Bun.write(validCrxPath, this.buffer);
-      this.logger.info(`Saved CRX file to: ${validCrxPath}`);
+      // Save original package file
+      const packagePath = PathUtils.join(this.config.extensionsDir, `${extensionName}.${format}`);
+      const validPackagePath = this.pathValidator.validatePath(packagePath);
+      await this.ensureDirectory(PathUtils.dirname(validPackagePath));
+      if (await this.isSameFile(packageData, validPackagePath)) {
+        this.logger.debug('Input is already the saved package', { path: validPackagePath });
+      } else {
+        // Copied file-to-file, without reading the package into memory
+        await Bun.write(validPackagePath, packageData);
+        this.logger.info(`Saved ${format.toUpperCase()} file to: ${validPackagePath}`);
+      }
 
       // Extract files
       this.logger.info('Extracting files...');
-      await this.extractZip(zipData, outDir);
+      const zipInfo = await this.extractZip(zipData, outDir);
 
-      // Read and display manifest info
       const manifest = await this.readManifest(outDir);
-      if (manifest) {
-        console.log('\n📋 Extension Information:');
-        console.log(`   Name: ${manifest.name}`);
-        console.log(`   Version: ${manifest.version}`);
-        console.log(`   Manifest: v${manifest.manifest_version}`);
-        if (manifest.description) {
-          console.log(`   Description: ${manifest.description}`);
-        }
-      }
+      const extractMs = performance.now() - extractStart;
+      const version = this.manifestString(manifest, 'version');
+      await this.cacheDownload(version, packageData);
 
       this.logger.info(`✅ Successfully extracted to: ${outDir}`);
+      const totalMs = performance.now() - start;
+      this.emit('done', { durationMs: totalMs });
+      return {
+        outputDir: outDir,
+        packagePath: validPackagePath,
+        format,
+        header,
+        id: this.extensionInfo.id ?? null,
+        name: this.manifestString(manifest, 'name') ?? extensionName,
+        version,
+        manifest,
+        geckoId: this.extensionInfo.geckoId ?? null,
+        permissions: manifest ? PermissionAnalyzer.analyze(manifest) : null,
+        manifestIssues: this.manifestIssues,
+        fileCount: zipInfo.fileCount,
+        packageSize: this.toSource(packageData).size,
+        compressedSize: zipInfo.compressedSize,
+        extractedSize: zipInfo.uncompressedSize,
+        timings: { loadMs, verifyMs, extractMs, totalMs }
+      };
     } catch (error) {
-      this.logger.error('Extraction failed', error);
+      this.emit('failed', { error });
       throw error;
+    } finally {
+      await this.discardDownload();
     }
   }
 }
@@ -0,0 +1,203 @@
+// src/core/crx-packer.ts
+
+import { type BunFile } from 'bun';
+import { readdir, stat, writeFile } from 'node:fs/promises';
+import { DEFAULT_CONFIG } from '../config/defaults';
+import { type ExtractorConfig } from '../config/types';
+import { ExtensionId } from '../crx/extension-id';
+import { CRXHeaderParser } from '../crx/header';
+import { KeyUtils } from '../crx/keys';
+import { CRXVerifier } from '../crx/verifier';
+import { CRXWriter } from '../crx/writer';
+import { SecurityError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { type ConvertOptions, type ConvertResult, type ExtensionManifest, type PackOptions, type PackResult, type SigningKey } from '../types';
+import { PathUtils } from '../utils/path';
+import { ManifestValidator } from '../validators/manifest';
+import { PathValidator } from '../validators/path';
+import { ZipReader } from '../zip/reader';
+import { FileSource } from '../zip/source';
+import { ZipWriter } from '../zip/writer';
+
+export class CRXPacker {
+  private readonly logger: Logger;
+  private readonly pathValidator: PathValidator;
+  private readonly manifestValidator: ManifestValidator;
+
+  constructor (private readonly config: ExtractorConfig = DEFAULT_CONFIG) {
+    this.logger = new Logger(config.logLevel);
+    this.pathValidator = new PathValidator(config.allowedOutputPaths);
+    this.manifestValidator = new ManifestValidator();
+  }
+
+  /**
+   * Packs an unpacked extension directory into a signed CRX3 file.
+   */
+  public async pack(sourceDir: string, options: PackOptions = {}): Promise<PackResult> {
+    const dir = this.pathValidator.validatePath(sourceDir);
+    const dirStats = await stat(dir).catch(() => null);
+    if (!dirStats?.isDirectory()) {
+      throw new ValidationError(`Not a directory: "${sourceDir}"`);
+    }
+
+    const manifest = await this.readManifest(dir);
+    this.logger.info(`Packing ${manifest.name} ${manifest.version}`);
+
+    const crxPath = this.pathValidator.validatePath(options.outputPath ?? `${dir}.crx`);
+    const keyPath = this.pathValidator.validatePath(options.keyPath ?? `${dir}.pem`);
+    const { key, generated } = await this.loadKey(keyPath, options);
+
+    // Collect files, leaving out the package and key if they live inside the directory
+    const files = (await this.collectFiles(dir)).filter(path => path !== crxPath && path !== keyPath);
+    const zip = new ZipWriter();
+    for (const path of files) {
+      zip.add(path.substring(dir.length + 1), new Uint8Array(await Bun.file(path).arrayBuffer()));
+    }
+
+    const crx = await CRXWriter.build(zip.finish(), [key]);
+    await Bun.write(crxPath, crx);
+
+    const extensionId = await ExtensionId.fromPublicKey(key.publicKey);
+    this.logger.info(`Wrote ${crxPath} (${files.length} files, ID ${extensionId})`);
+
+    return { crxPath, keyPath, keyGenerated: generated, extensionId, fileCount: files.length, size: crx.length };
+  }
+
+  /**
+   * Re-signs an existing CRX2 or CRX3 file as a CRX3 with fresh proofs. The ZIP payload is
+   * carried over unchanged; the source signatures are verified first so a tampered package
+   * isn't given a valid signature.
+   */
+  public async convert(inputPath: string, options: ConvertOptions): Promise<ConvertResult> {
+    const input = this.pathValidator.validatePath(inputPath);
+    const defaultOutput = `${input.replace(/\.crx$/i, '')}.crx3.crx`;
+    const crxPath = this.pathValidator.validatePath(options.outputPath ?? defaultOutput);
+    if (crxPath === input) {
+      throw new ValidationError('Output path must differ from the input CRX');
+    }
+
+    const file = await this.openCrx(input);
+    const source = new FileSource(file);
+    const header = await CRXHeaderParser.read(source);
+    this.logger.info(`Converting CRX${header.version} package: ${inputPath}`);
+
+    if (this.config.verifySignatures) {
+      await CRXVerifier.verify(source, header);
+    } else {
+      this.logger.warn('Signature verification disabled; re-signing unauthenticated contents');
+    }
+
+    // Check the archive from disk; it is then streamed into the signatures and the output
+    const zipFile = file.slice(header.zipOffset, file.size);
+    const zipSource = new FileSource(zipFile);
+    await ZipReader.open(zipSource);
+
+    const originalId = await ExtensionId.fromHeader(header);
+    const key = await this.importKey(options.keyPath);
+    const extensionId = await ExtensionId.fromPublicKey(key.publicKey);
+
+    if (options.keepId) {
+      if (!originalId) {
+        throw new ValidationError('Source CRX carries no signing key, so there is no extension ID to keep');
+      }
+      if (extensionId !== originalId) {
+        throw new SecurityError(`Key derives ID ${extensionId}, not the original ${originalId}; pass the original key`);
+      }
+    } else if (originalId && originalId !== extensionId) {
+      this.logger.warn(`Extension ID changes from ${originalId} to ${extensionId}`);
+    }
+
+    const crxHeader = await CRXWriter.buildHeader(zipSource, [key]);
+    const sink = Bun.file(crxPath).writer({ highWaterMark: 1024 * 1024 });
+    await sink.write(crxHeader);
+    for await (const chunk of zipFile.stream()) {
+      await sink.write(chunk);
+    }
+    await sink.end();
+    this.logger.info(`Wrote ${crxPath} (ID ${extensionId})`);
+
+    return { crxPath, sourceVersion: header.version, originalId, extensionId, size: crxHeader.length + zipFile.size };
+  }
+
+  /**
+   * Opens a CRX file for streaming reads, enforcing the configured size limit.
+   */
+  private async openCrx(path: string): Promise<BunFile> {
+    const file = Bun.file(path);
+    const stats = await file.stat().catch(() => null);
+    if (!stats?.isFile()) {
+      throw new ValidationError(`File not found or inaccessible: "${path}"`);
+    }
+    if (stats.size > this.config.maxFileSize) {
+      const maxMB = (this.config.maxFileSize / 1024 / 1024).toFixed(0);
+      throw new ValidationError(`File too large. Maximum size is ${maxMB}MB`);
+    }
+    return file;
+  }
+
+  /**
+   * Reads manifest.json and rejects directories that aren't valid extensions.
+   */
+  private async readManifest(dir: string): Promise<ExtensionManifest> {
+    const manifestFile = Bun.file(PathUtils.join(dir, 'manifest.json'));
+    if (!(await manifestFile.exists())) {
+      throw new ValidationError(`No manifest.json found in "${dir}"`);
+    }
+
+    let data: unknown;
+    try {
+      data = await manifestFile.json();
+    } catch {
+      throw new ValidationError('manifest.json is not valid JSON');
+    }
+    return this.manifestValidator.validateManifest(data);
+  }
+
+  /**
+   * Loads the signing key, or generates one and saves it to `keyPath` with owner-only permissions.
+   */
+  private async loadKey(keyPath: string, options: PackOptions): Promise<{ key: SigningKey, generated: boolean }> {
+    if (options.keyPath) {
+      return { key: await this.importKey(keyPath), generated: false };
+    }
+
+    if (await Bun.file(keyPath).exists()) {
+      throw new ValidationError(`Key file "${keyPath}" already exists. Pass it with --key to reuse it`);
+    }
+
+    const key = await KeyUtils.generate(options.algorithm);
+    await writeFile(keyPath, await KeyUtils.exportPem(key), { mode: 0o600 });
+    this.logger.info(`Generated ${key.algorithm.toUpperCase()} key: ${keyPath}`);
+    return { key, generated: true };
+  }
+
+  private async importKey(keyPath: string): Promise<SigningKey> {
+    const keyFile = Bun.file(this.pathValidator.validatePath(keyPath));
+    if (!(await keyFile.exists())) {
+      throw new ValidationError(`Key file not found: "${keyPath}"`);
+    }
+    return KeyUtils.importPem(await keyFile.text());
+  }
+
+  /**
+   * Lists regular files below `dir` in a stable order. Symlinks are refused
+   * so a package can't pull in files from outside the directory.
+   */
+  private async collectFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      const path = PathUtils.join(dir, entry.name);
+      if (entry.isSymbolicLink()) {
+        throw new SecurityError(`Refusing to pack symbolic link: ${path}`);
+      }
+      if (entry.isDirectory()) {
+        files.push(...(await this.collectFiles(path)));
+      } else if (entry.isFile()) {
+        files.push(path);
+      }
+    }
+
+    return files.sort();
+  }
+}
@@ -0,0 +1,65 @@
+// src/crx/extension-id.ts
+
+import { SecurityError } from '../errors';
+import { type CRXHeader } from '../types';
+import { CRX_ID_LENGTH } from './proto';
+
+/**
+ * Derives Chrome extension IDs from signing keys
+ */
+export class ExtensionId {
+  /**
+   * Checks an ID's shape: 32 letters, each one of Chrome's a–p nibble alphabet.
+   */
+  static isValid(id: string): boolean {
+    return /^[a-p]{32}$/.test(id);
+  }
+
+  /**
+   * Encodes raw ID bytes in Chrome's a–p alphabet (one letter per nibble).
+   */
+  static fromCrxId(crxId: Uint8Array): string {
+    let id = '';
+    for (const byte of crxId.subarray(0, CRX_ID_LENGTH)) {
+      id += String.fromCharCode(97 + (byte >> 4), 97 + (byte & 0x0f));
+    }
+    return id;
+  }
+
+  /**
+   * Computes the extension ID for a DER-encoded SubjectPublicKeyInfo:
+   * the first 16 bytes of its SHA-256, mapped to a–p.
+   */
+  static async fromPublicKey(publicKey: Uint8Array): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey));
+    return this.fromCrxId(digest);
+  }
+
+  /**
+   * Derives the extension ID a CRX is signed as. For CRX3 the signed `crx_id` must
+   * match one of the proof keys; for CRX2 the ID comes from the single key.
+   * Returns null when the package carries no keys at all.
+   */
+  static async fromHeader(header: CRXHeader): Promise<string | null> {
+    if (header.sha1WithRsa) {
+      return this.fromPublicKey(header.sha1WithRsa.publicKey);
+    }
+
+    const keys = [...header.sha256WithRsa, ...header.sha256WithEcdsa].map(proof => proof.publicKey);
+    const keyIds = await Promise.all(keys.map(key => this.fromPublicKey(key)));
+
+    if (!header.crxId) {
+      return keyIds[0] ?? null;
+    }
+
+    if (header.crxId.length !== CRX_ID_LENGTH) {
+      throw new SecurityError(`Invalid crx_id length: ${header.crxId.length} bytes`);
+    }
+
+    const declaredId = this.fromCrxId(header.crxId);
+    if (!keyIds.includes(declaredId)) {
+      throw new SecurityError(`CRX declares ID ${declaredId} but none of its keys derive to that ID`);
+    }
+    return declaredId;
+  }
+}
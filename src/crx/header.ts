@@ -0,0 +1,179 @@
+// src/crx/header.ts
+
+import { CRX_MAGIC, CRX_MAX_HEADER_SIZE, CRX_VERSION_2, CRX_VERSION_3 } from '../config/constants';
+import { ValidationError } from '../errors';
+import { type AsymmetricKeyProof, type CRXHeader } from '../types';
+import { BinaryUtils } from '../utils/binary';
+import { type ProtobufField, ProtobufReader, WireType } from '../utils/protobuf';
+import { type ByteSource } from '../zip/source';
+import { ASYMMETRIC_KEY_PROOF_PUBLIC_KEY, ASYMMETRIC_KEY_PROOF_SIGNATURE, CRX_FILE_HEADER_SHA256_WITH_ECDSA, CRX_FILE_HEADER_SHA256_WITH_RSA, CRX_FILE_HEADER_SIGNED_HEADER_DATA, SIGNED_DATA_CRX_ID } from './proto';
+
+/**
+ * Parses CRX2 and CRX3 container headers
+ */
+export class CRXHeaderParser {
+  /**
+   * Reads and parses just the header of a CRX held in a byte source: the fixed
+   * prefix first, then the variable-length part it declares.
+   */
+  static async read(source: ByteSource): Promise<CRXHeader> {
+    const prefix = await source.read(0, 16);
+    const version = BinaryUtils.readUInt32LE(prefix, 4);
+
+    if (BinaryUtils.readUInt32LE(prefix, 0) !== CRX_MAGIC || (version !== CRX_VERSION_2 && version !== CRX_VERSION_3)) {
+      // Let parse() report the bad magic number or version
+      return this.parse(prefix, source.size);
+    }
+
+    const headerLength = version === CRX_VERSION_2 ?
+      16 + BinaryUtils.readUInt32LE(prefix, 8) + BinaryUtils.readUInt32LE(prefix, 12) :
+      12 + BinaryUtils.readUInt32LE(prefix, 8);
+
+    if (headerLength > CRX_MAX_HEADER_SIZE) {
+      throw new ValidationError(`CRX header too large: ${headerLength} bytes`);
+    }
+    if (headerLength > source.size) {
+      throw new ValidationError('Invalid CRX header: header size exceeds file size');
+    }
+
+    return this.parse(await source.read(0, headerLength), source.size);
+  }
+
+  /**
+   * Parses the header at the start of a CRX buffer. `fileSize` is the size of
+   * the whole package when `buffer` holds only its header.
+   */
+  static parse(buffer: Uint8Array, fileSize = buffer.length): CRXHeader {
+    const magic = BinaryUtils.readUInt32LE(buffer, 0);
+    if (magic !== CRX_MAGIC) {
+      throw new ValidationError(`Invalid CRX magic number: 0x${magic.toString(16)}`);
+    }
+
+    const version = BinaryUtils.readUInt32LE(buffer, 4);
+    let header: CRXHeader;
+
+    switch (version) {
+      case CRX_VERSION_2:
+        header = this.parseCrx2(buffer);
+        break;
+      case CRX_VERSION_3:
+        header = this.parseCrx3(buffer);
+        break;
+      default:
+        throw new ValidationError(`Unsupported CRX version: ${version}`);
+    }
+
+    // Validate zip offset
+    if (header.zipOffset >= fileSize) {
+      throw new ValidationError('Invalid CRX header: ZIP offset exceeds file size');
+    }
+
+    return header;
+  }
+
+  /**
+   * CRX2: public key length, signature length, then the raw key and SHA-1 signature.
+   */
+  private static parseCrx2(buffer: Uint8Array): CRXHeader {
+    const publicKeyLength = BinaryUtils.readUInt32LE(buffer, 8);
+    const signatureLength = BinaryUtils.readUInt32LE(buffer, 12);
+    const keyStart = 16;
+    const signatureStart = keyStart + publicKeyLength;
+    const zipOffset = signatureStart + signatureLength;
+
+    if (zipOffset > buffer.length) {
+      throw new ValidationError('Invalid CRX2 header: key and signature exceed file size');
+    }
+
+    return {
+      version: CRX_VERSION_2,
+      zipOffset,
+      sha256WithRsa: [],
+      sha256WithEcdsa: [],
+      sha1WithRsa: {
+        publicKey: buffer.subarray(keyStart, signatureStart),
+        signature: buffer.subarray(signatureStart, zipOffset)
+      }
+    };
+  }
+
+  /**
+   * CRX3: header size followed by a CrxFileHeader protobuf message.
+   */
+  private static parseCrx3(buffer: Uint8Array): CRXHeader {
+    const headerSize = BinaryUtils.readUInt32LE(buffer, 8);
+    const headerStart = 12;
+    const zipOffset = headerStart + headerSize;
+
+    if (zipOffset > buffer.length) {
+      throw new ValidationError('Invalid CRX3 header: header size exceeds file size');
+    }
+
+    const sha256WithRsa: AsymmetricKeyProof[] = [];
+    const sha256WithEcdsa: AsymmetricKeyProof[] = [];
+    let signedHeaderData: Uint8Array | undefined;
+
+    for (const field of this.decode(buffer.subarray(headerStart, zipOffset), 'CrxFileHeader')) {
+      switch (field.fieldNumber) {
+        case CRX_FILE_HEADER_SHA256_WITH_RSA:
+          sha256WithRsa.push(this.parseProof(this.bytes(field, 'sha256_with_rsa')));
+          break;
+        case CRX_FILE_HEADER_SHA256_WITH_ECDSA:
+          sha256WithEcdsa.push(this.parseProof(this.bytes(field, 'sha256_with_ecdsa')));
+          break;
+        case CRX_FILE_HEADER_SIGNED_HEADER_DATA:
+          signedHeaderData = this.bytes(field, 'signed_header_data');
+          break;
+        default:
+          // Unknown fields are permitted by the format and ignored
+          break;
+      }
+    }
+
+    let crxId: Uint8Array | undefined;
+    if (signedHeaderData) {
+      for (const field of this.decode(signedHeaderData, 'SignedData')) {
+        if (field.fieldNumber === SIGNED_DATA_CRX_ID) {
+          crxId = this.bytes(field, 'crx_id');
+        }
+      }
+    }
+
+    return { version: CRX_VERSION_3, zipOffset, sha256WithRsa, sha256WithEcdsa, signedHeaderData, crxId };
+  }
+
+  private static parseProof(data: Uint8Array): AsymmetricKeyProof {
+    let publicKey: Uint8Array | undefined;
+    let signature: Uint8Array | undefined;
+
+    for (const field of this.decode(data, 'AsymmetricKeyProof')) {
+      if (field.fieldNumber === ASYMMETRIC_KEY_PROOF_PUBLIC_KEY) {
+        publicKey = this.bytes(field, 'public_key');
+      } else if (field.fieldNumber === ASYMMETRIC_KEY_PROOF_SIGNATURE) {
+        signature = this.bytes(field, 'signature');
+      }
+    }
+
+    if (!publicKey || !signature) {
+      throw new ValidationError('Invalid CRX3 header: key proof is missing its public key or signature');
+    }
+
+    return { publicKey, signature };
+  }
+
+  private static decode(data: Uint8Array, messageName: string): ProtobufField[] {
+    try {
+      return ProtobufReader.decode(data);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ValidationError(`Invalid CRX3 header: malformed ${messageName} (${reason})`);
+    }
+  }
+
+  private static bytes(field: ProtobufField, name: string): Uint8Array {
+    if (field.wireType !== WireType.LENGTH_DELIMITED || !(field.value instanceof Uint8Array)) {
+      throw new ValidationError(`Invalid CRX3 header: "${name}" must be length-delimited`);
+    }
+    return field.value;
+  }
+}
@@ -0,0 +1,12 @@
+// src/crx/proto.ts
+
+// Field numbers from Chromium's components/crx_file/crx3.proto
+export const CRX_FILE_HEADER_SHA256_WITH_RSA = 2;
+export const CRX_FILE_HEADER_SHA256_WITH_ECDSA = 3;
+export const CRX_FILE_HEADER_SIGNED_HEADER_DATA = 10000;
+export const ASYMMETRIC_KEY_PROOF_PUBLIC_KEY = 1;
+export const ASYMMETRIC_KEY_PROOF_SIGNATURE = 2;
+export const SIGNED_DATA_CRX_ID = 1;
+
+/** Length of `crx_id`: the first 16 bytes of the developer key's SHA-256 */
+export const CRX_ID_LENGTH = 16;
@@ -0,0 +1,143 @@
+// src/crx/verifier.ts
+
+import { createPublicKey, createVerify, type KeyObject, type Verify } from 'node:crypto';
+import { CRX3_SIGNATURE_CONTEXT, CRX_VERSION_2, CRX_VERSION_3 } from '../config/constants';
+import { SecurityError } from '../errors';
+import { type AsymmetricKeyProof, type CRXHeader } from '../types';
+import { type ByteSource, MemorySource } from '../zip/source';
+
+const VERIFY_CHUNK_SIZE = 1024 * 1024;
+
+interface PendingProof {
+  readonly verifier: Verify;
+  readonly key: KeyObject;
+  readonly signature: Uint8Array;
+  readonly failure: string;
+}
+
+/**
+ * Verifies CRX key proofs. The signed data is streamed through every verifier
+ * in one pass, so packages of any size are checked in bounded memory.
+ *
+ * This uses node:crypto rather than WebCrypto: `crypto.subtle.verify` needs the
+ * whole signed payload in one buffer, and node:crypto's `Verify` can be fed in chunks.
+ */
+export class CRXVerifier {
+  /**
+   * Verifies every proof in the header against the package contents.
+   * Throws a SecurityError if the package is unsigned or any signature does not match.
+   */
+  static async verify(input: ByteSource | Uint8Array, header: CRXHeader): Promise<void> {
+    const source = input instanceof Uint8Array ? new MemorySource(input) : input;
+
+    switch (header.version) {
+      case CRX_VERSION_2:
+        await this.verifyCrx2(source, header);
+        break;
+      case CRX_VERSION_3:
+        await this.verifyCrx3(source, header);
+        break;
+      default:
+        throw new SecurityError(`Cannot verify signatures for CRX version ${header.version}`);
+    }
+  }
+
+  /**
+   * Builds the bytes every CRX3 proof signs ahead of the ZIP archive:
+   * "CRX3 SignedData\x00" + signed header size (UInt32LE) + signed header data.
+   */
+  static buildCrx3SignedPrefix(signedHeaderData: Uint8Array): Uint8Array {
+    const context = new TextEncoder().encode(CRX3_SIGNATURE_CONTEXT);
+    const data = new Uint8Array(context.length + 4 + signedHeaderData.length);
+    const view = new DataView(data.buffer);
+
+    data.set(context, 0);
+    view.setUint32(context.length, signedHeaderData.length, true);
+    data.set(signedHeaderData, context.length + 4);
+    return data;
+  }
+
+  private static async verifyCrx2(source: ByteSource, header: CRXHeader): Promise<void> {
+    if (!header.sha1WithRsa) {
+      throw new SecurityError('CRX2 file has no signature');
+    }
+
+    // CRX2 signs the ZIP archive alone
+    const proofs = [this.prepare(header.sha1WithRsa, 'RSA', 'sha1', 'CRX2 signature verification failed')];
+    await this.streamZip(source, header.zipOffset, proofs);
+    this.check(proofs);
+  }
+
+  private static async verifyCrx3(source: ByteSource, header: CRXHeader): Promise<void> {
+    const proofCount = header.sha256WithRsa.length + header.sha256WithEcdsa.length;
+    if (proofCount === 0) {
+      throw new SecurityError('CRX3 file has no signatures');
+    }
+
+    const proofs = [
+      ...header.sha256WithRsa.map((proof, index) =>
+        this.prepare(proof, 'RSA', 'sha256', `CRX3 RSA signature #${index + 1} verification failed`)
+      ),
+      ...header.sha256WithEcdsa.map((proof, index) =>
+        this.prepare(proof, 'ECDSA', 'sha256', `CRX3 ECDSA signature #${index + 1} verification failed`)
+      )
+    ];
+
+    const prefix = this.buildCrx3SignedPrefix(header.signedHeaderData ?? new Uint8Array());
+    for (const proof of proofs) {
+      proof.verifier.update(prefix);
+    }
+    await this.streamZip(source, header.zipOffset, proofs);
+    this.check(proofs);
+  }
+
+  /**
+   * Imports the proof's public key, rejecting keys of the wrong type or curve.
+   */
+  private static prepare(
+    proof: AsymmetricKeyProof,
+    label: 'RSA' | 'ECDSA',
+    hash: 'sha1' | 'sha256',
+    failure: string
+  ): PendingProof {
+    let key: KeyObject;
+    try {
+      key = createPublicKey({ key: Buffer.from(proof.publicKey), format: 'der', type: 'spki' });
+    } catch {
+      throw new SecurityError(`CRX contains an invalid ${label} public key`);
+    }
+
+    const valid = label === 'RSA' ?
+      key.asymmetricKeyType === 'rsa' :
+      key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1';
+    if (!valid) {
+      throw new SecurityError(`CRX contains an invalid ${label} public key`);
+    }
+
+    return { verifier: createVerify(hash), key, signature: proof.signature, failure };
+  }
+
+  private static async streamZip(source: ByteSource, zipOffset: number, proofs: PendingProof[]): Promise<void> {
+    for (let offset = zipOffset;offset < source.size;offset += VERIFY_CHUNK_SIZE) {
+      const chunk = await source.read(offset, Math.min(VERIFY_CHUNK_SIZE, source.size - offset));
+      for (const proof of proofs) {
+        proof.verifier.update(chunk);
+      }
+    }
+  }
+
+  private static check(proofs: PendingProof[]): void {
+    for (const proof of proofs) {
+      let valid: boolean;
+      try {
+        // CRX ECDSA signatures are DER-encoded, which is also node:crypto's default
+        valid = proof.verifier.verify(proof.key, proof.signature);
+      } catch {
+        valid = false;
+      }
+      if (!valid) {
+        throw new SecurityError(proof.failure);
+      }
+    }
+  }
+}
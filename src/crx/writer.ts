@@ -0,0 +1,81 @@
+// src/crx/writer.ts
+
+import { createSign, KeyObject, type Sign } from 'node:crypto';
+import { CRX_MAGIC, CRX_VERSION_3 } from '../config/constants';
+import { ValidationError } from '../errors';
+import { type SigningKey } from '../types';
+import { ProtobufWriter } from '../utils/protobuf';
+import { type ByteSource, MemorySource } from '../zip/source';
+import { ASYMMETRIC_KEY_PROOF_PUBLIC_KEY, ASYMMETRIC_KEY_PROOF_SIGNATURE, CRX_FILE_HEADER_SHA256_WITH_ECDSA, CRX_FILE_HEADER_SHA256_WITH_RSA, CRX_FILE_HEADER_SIGNED_HEADER_DATA, CRX_ID_LENGTH, SIGNED_DATA_CRX_ID } from './proto';
+import { CRXVerifier } from './verifier';
+
+const SIGN_CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Writes signed CRX3 packages
+ */
+export class CRXWriter {
+  /**
+   * Wraps a ZIP archive in a CRX3 container. The first key is the developer key:
+   * its hash becomes the `crx_id`, and therefore the extension ID.
+   */
+  static async build(zipData: Uint8Array, keys: readonly SigningKey[]): Promise<Uint8Array> {
+    const header = await this.buildHeader(new MemorySource(zipData), keys);
+    const crx = new Uint8Array(header.length + zipData.length);
+    crx.set(header, 0);
+    crx.set(zipData, header.length);
+    return crx;
+  }
+
+  /**
+   * Builds everything ahead of the ZIP archive in a CRX3: magic, version and the signed
+   * header. The archive is read in chunks, so a package of any size is signed in bounded
+   * memory; write it after the header to complete the CRX.
+   */
+  static async buildHeader(zip: ByteSource, keys: readonly SigningKey[]): Promise<Uint8Array> {
+    const [developerKey] = keys;
+    if (!developerKey) {
+      throw new ValidationError('At least one signing key is required');
+    }
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', developerKey.publicKey));
+    const signedHeaderData = new ProtobufWriter().bytes(SIGNED_DATA_CRX_ID, digest.subarray(0, CRX_ID_LENGTH)).finish();
+
+    // WebCrypto only signs a whole buffer, so node:crypto signs the data chunk by chunk.
+    // It also encodes ECDSA signatures in DER, as CRX files carry them.
+    const signers = keys.map(() => createSign('sha256'));
+    await this.streamSignedData(zip, CRXVerifier.buildCrx3SignedPrefix(signedHeaderData), signers);
+
+    const header = new ProtobufWriter();
+    for (const [i, key] of keys.entries()) {
+      const signature = (signers[i] as Sign).sign(KeyObject.from(key.privateKey));
+      const proof = new ProtobufWriter()
+        .bytes(ASYMMETRIC_KEY_PROOF_PUBLIC_KEY, key.publicKey)
+        .bytes(ASYMMETRIC_KEY_PROOF_SIGNATURE, new Uint8Array(signature))
+        .finish();
+      header.bytes(key.algorithm === 'rsa' ? CRX_FILE_HEADER_SHA256_WITH_RSA : CRX_FILE_HEADER_SHA256_WITH_ECDSA, proof);
+    }
+    header.bytes(CRX_FILE_HEADER_SIGNED_HEADER_DATA, signedHeaderData);
+    const headerBytes = header.finish();
+
+    const crxHeader = new Uint8Array(12 + headerBytes.length);
+    const view = new DataView(crxHeader.buffer);
+    view.setUint32(0, CRX_MAGIC, true);
+    view.setUint32(4, CRX_VERSION_3, true);
+    view.setUint32(8, headerBytes.length, true);
+    crxHeader.set(headerBytes, 12);
+    return crxHeader;
+  }
+
+  private static async streamSignedData(zip: ByteSource, prefix: Uint8Array, signers: Sign[]): Promise<void> {
+    for (const signer of signers) {
+      signer.update(prefix);
+    }
+    for (let offset = 0;offset < zip.size;offset += SIGN_CHUNK_SIZE) {
+      const chunk = await zip.read(offset, Math.min(SIGN_CHUNK_SIZE, zip.size - offset));
+      for (const signer of signers) {
+        signer.update(chunk);
+      }
+    }
+  }
+}
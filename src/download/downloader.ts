@@ -0,0 +1,455 @@
+// src/download/downloader.ts
+
+import { type BunFile, type FileSink } from 'bun';
+import { rm } from 'node:fs/promises';
+import { rootCertificates } from 'node:tls';
+import { type ExtractorConfig } from '../config/types';
+import { DownloadError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { type ResponseValidators } from '../types';
+import { ProxyUtils } from '../utils/proxy';
+import { RetryUtils } from '../utils/retry';
+
+export interface DownloadProgress {
+  readonly received: number;
+  /** Null while the server hasn't declared a length */
+  readonly total: number | null;
+}
+
+export interface DownloadOptions {
+  /** Largest accepted body, in bytes */
+  readonly maxSize: number;
+  /** Checks each successful response before its body is read; throw to reject it */
+  readonly validate?: (response: Response) => void;
+  readonly onProgress?: (progress: DownloadProgress) => void;
+  /** Validators of a copy the caller already has; the request becomes conditional */
+  readonly cached?: ResponseValidators;
+}
+
+/** Options for an unconditional download, which always produces a body */
+type FullDownloadOptions = DownloadOptions & { readonly cached?: undefined };
+
+export interface Download<T> extends ResponseValidators {
+  readonly data: T;
+  /** True when the body was assembled from more than one response with Range requests */
+  readonly resumed: boolean;
+}
+
+/** A failure worth retrying: a network error, a timeout, a retryable status or a body cut short */
+class TransientError extends DownloadError {
+  constructor (message: string, readonly retryAfter: number | null = null) {
+    super(message);
+  }
+}
+
+/**
+ * Aborts a request once no data has arrived for `timeout` ms: first while waiting for the
+ * response, then between chunks of the body. Each chunk restarts the clock, so a slow but
+ * steady download isn't cut off, while a stalled one is.
+ */
+class IdleTimer {
+  private readonly controller = new AbortController();
+  /** Rejects when the timer fires; raced against each body read */
+  readonly expired: Promise<never>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor (private readonly timeout: number) {
+    this.expired = new Promise<never>((_, reject) => {
+      this.controller.signal.addEventListener('abort', () => reject(this.stalled()), { once: true });
+    });
+    // Only observed while a body is read
+    this.expired.catch(() => {});
+    this.restart();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  restart(): void {
+    this.stop();
+    this.timer = setTimeout(() => this.controller.abort(), this.timeout);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  stalled(): TransientError {
+    return new TransientError(`Download stalled: no data received for ${this.timeout}ms`);
+  }
+}
+
+/** Progress of one download across its attempts */
+interface Transfer {
+  /** Where the next request goes; after a redirect, the resolved URL */
+  target: string;
+  received: number;
+  total: number | null;
+  /** Validators of the full response; resuming sends one back as If-Range */
+  etag: string | null;
+  lastModified: string | null;
+  resumed: boolean;
+}
+
+/** How a request reaches the server: through a proxy, trusting extra CAs */
+interface Connection {
+  proxy?: string;
+  tls?: { ca: string[] };
+}
+
+/** Where body bytes go; they arrive in order, possibly across several responses */
+interface DownloadSink {
+  write(chunk: Uint8Array): void;
+  /** Drops everything written so far, for when the body restarts from byte 0 */
+  reset(): Promise<void>;
+}
+
+class MemorySink implements DownloadSink {
+  private chunks: Uint8Array[] = [];
+
+  write(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+  }
+
+  async reset(): Promise<void> {
+    this.chunks = [];
+  }
+
+  bytes(): Uint8Array {
+    return new Uint8Array(Buffer.concat(this.chunks));
+  }
+}
+
+class DiskSink implements DownloadSink {
+  private writer: FileSink;
+
+  constructor (private readonly path: string) {
+    this.writer = this.open();
+  }
+
+  write(chunk: Uint8Array): void {
+    this.writer.write(chunk);
+  }
+
+  async reset(): Promise<void> {
+    await this.writer.end();
+    this.writer = this.open();
+  }
+
+  async close(): Promise<void> {
+    await this.writer.end();
+  }
+
+  private open(): FileSink {
+    // Opening a writer truncates the file
+    return Bun.file(this.path).writer({ highWaterMark: 1024 * 1024 });
+  }
+}
+
+/**
+ * Fetches package downloads and update responses. Network errors, timeouts and
+ * retryable statuses are retried with exponential backoff, honouring `Retry-After`;
+ * a body that breaks off is resumed with a Range request instead of starting over.
+ * Every request carries the configured headers and goes through the configured proxy.
+ */
+export class Downloader {
+  private readonly logger: Logger;
+  /** Certificates trusted with `config.caFile`, read on first use */
+  private ca: Promise<string[]> | null = null;
+
+  constructor (private readonly config: ExtractorConfig) {
+    this.logger = new Logger(config.logLevel);
+  }
+
+  /**
+   * Hex SHA-256 of a download, read in chunks when it is on disk.
+   */
+  static async sha256(data: BunFile | Uint8Array): Promise<string> {
+    const hasher = new Bun.CryptoHasher('sha256');
+    if (data instanceof Uint8Array) {
+      hasher.update(data);
+    } else {
+      for await (const chunk of data.stream()) {
+        hasher.update(chunk);
+      }
+    }
+    return hasher.digest('hex');
+  }
+
+  /**
+   * Buffers the body in memory. With `options.cached`, resolves to null when the
+   * server answers 304 Not Modified.
+   */
+  toMemory(url: URL, options: FullDownloadOptions): Promise<Download<Uint8Array>>;
+  toMemory(url: URL, options: DownloadOptions): Promise<Download<Uint8Array> | null>;
+  async toMemory(url: URL, options: DownloadOptions): Promise<Download<Uint8Array> | null> {
+    const sink = new MemorySink();
+    const transfer = await this.run(url, sink, options);
+    return transfer && this.result(transfer, sink.bytes());
+  }
+
+  /**
+   * Streams the body to `path`, which is removed again if the download fails or
+   * the server answers a conditional request with 304 Not Modified (resolving to null).
+   */
+  toFile(url: URL, path: string, options: FullDownloadOptions): Promise<Download<BunFile>>;
+  toFile(url: URL, path: string, options: DownloadOptions): Promise<Download<BunFile> | null>;
+  async toFile(url: URL, path: string, options: DownloadOptions): Promise<Download<BunFile> | null> {
+    const sink = new DiskSink(path);
+    let transfer: Transfer | null;
+
+    try {
+      transfer = await this.run(url, sink, options);
+    } catch (error) {
+      await sink.close();
+      await rm(path, { force: true });
+      throw error;
+    }
+
+    await sink.close();
+    if (!transfer) {
+      await rm(path, { force: true });
+      return null;
+    }
+    return this.result(transfer, Bun.file(path));
+  }
+
+  private result<T>(transfer: Transfer, data: T): Download<T> {
+    return { data, resumed: transfer.resumed, etag: transfer.etag, lastModified: transfer.lastModified };
+  }
+
+  /**
+   * Runs attempts until one completes, a failure isn't transient, or the retries run out.
+   * Returns null when a conditional request found the cached copy current.
+   */
+  private async run(url: URL, sink: DownloadSink, options: DownloadOptions): Promise<Transfer | null> {
+    const transfer: Transfer = {
+      target: url.href,
+      received: 0,
+      total: null,
+      etag: null,
+      lastModified: null,
+      resumed: false
+    };
+    const { retries, retryDelay, maxRetryDelay } = this.config;
+
+    for (let attempt = 0;;attempt++) {
+      try {
+        const modified = await this.attempt(transfer, sink, options);
+        return modified ? transfer : null;
+      } catch (error) {
+        if (!(error instanceof TransientError) || attempt >= retries) {
+          throw error;
+        }
+
+        const delay = RetryUtils.backoff(attempt, retryDelay, maxRetryDelay, error.retryAfter);
+        this.logger.warn(`Attempt ${attempt + 1} of ${retries + 1} failed: ${error.message}; retrying in ${delay}ms`);
+        await Bun.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Makes one request and reads its body into the sink, aborting it when the server stops
+   * sending. Returns false for 304 Not Modified.
+   */
+  private async attempt(transfer: Transfer, sink: DownloadSink, options: DownloadOptions): Promise<boolean> {
+    const idle = new IdleTimer(this.config.downloadTimeout);
+    try {
+      return await this.receive(transfer, sink, options, idle);
+    } finally {
+      idle.stop();
+    }
+  }
+
+  private async receive(
+    transfer: Transfer,
+    sink: DownloadSink,
+    options: DownloadOptions,
+    idle: IdleTimer
+  ): Promise<boolean> {
+    const response = await this.request(transfer, idle, options.cached);
+
+    if (response.status === 304 && options.cached && transfer.received === 0) {
+      return false;
+    }
+
+    if (!response.ok) {
+      const message = `Download failed: ${response.status} ${response.statusText}`;
+      if (response.status === 416) {
+        // The server no longer has the bytes we asked for; start over
+        await this.restart(transfer, sink);
+        throw new TransientError(message);
+      }
+      if (RetryUtils.isRetryableStatus(response.status)) {
+        throw new TransientError(message, RetryUtils.parseRetryAfter(response.headers.get('retry-after')));
+      }
+      throw new DownloadError(message);
+    }
+
+    options.validate?.(response);
+
+    if (response.status === 206) {
+      const range = this.parseContentRange(response.headers.get('content-range'));
+      if (!range || range.start !== transfer.received) {
+        await this.restart(transfer, sink);
+        throw new TransientError('Server answered the Range request with a different range');
+      }
+      transfer.total = range.total ?? transfer.total;
+      transfer.resumed = true;
+      this.logger.info(`Resuming download at ${transfer.received} bytes`);
+    } else {
+      if (transfer.received > 0) {
+        // Range ignored, or If-Range found a changed file: the full body follows
+        this.logger.warn('Server sent the whole file again; restarting the download');
+        await this.restart(transfer, sink);
+      }
+      transfer.total = this.declaredLength(response);
+      transfer.target = response.url || transfer.target;
+      transfer.etag = response.headers.get('etag');
+      transfer.lastModified = response.headers.get('last-modified');
+    }
+
+    // Reject oversized downloads up front when the server declares a length
+    if (transfer.total !== null && transfer.total > options.maxSize) {
+      throw new DownloadError(this.tooLargeMessage(options.maxSize));
+    }
+
+    if (!response.body) {
+      throw new DownloadError('Download returned an empty response');
+    }
+
+    await this.readBody(response.body, transfer, sink, options, idle);
+
+    if (transfer.total !== null && transfer.received < transfer.total) {
+      throw new TransientError(`Download ended early at ${transfer.received} of ${transfer.total} bytes`);
+    }
+
+    // The final event carries the actual size, so listeners can tell the download is complete
+    options.onProgress?.({ received: transfer.received, total: transfer.received });
+    return true;
+  }
+
+  private async request(transfer: Transfer, idle: IdleTimer, cached?: ResponseValidators): Promise<Response> {
+    // Headers of the protocol itself come last, so configured headers can't break resuming or caching
+    const headers = this.baseHeaders();
+    if (transfer.received > 0) {
+      headers.Range = `bytes=${transfer.received}-`;
+      // Weak ETags can't guard a Range request
+      const { etag, lastModified } = transfer;
+      const validator = etag && !etag.startsWith('W/') ? etag : lastModified;
+      if (validator) headers['If-Range'] = validator;
+    } else if (cached) {
+      if (cached.etag) headers['If-None-Match'] = cached.etag;
+      if (cached.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    // Outside the try: a bad proxy URL or CA file is a configuration error, not worth retrying
+    const connection = await this.connection(new URL(transfer.target));
+
+    try {
+      return await fetch(transfer.target, { ...connection, headers, redirect: 'follow', signal: idle.signal });
+    } catch (error) {
+      if (idle.signal.aborted) {
+        throw new TransientError(`Download timed out after ${this.config.downloadTimeout}ms`);
+      }
+      throw new TransientError(`Download failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private baseHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'User-Agent': this.config.userAgent };
+    for (const [name, value] of Object.entries(this.config.headers ?? {})) {
+      // Header names are case-insensitive; a configured user-agent replaces the default one
+      if (name.toLowerCase() === 'user-agent') delete headers['User-Agent'];
+      headers[name] = value;
+    }
+    return headers;
+  }
+
+  private async connection(target: URL): Promise<Connection> {
+    const connection: Connection = {};
+    const proxy = ProxyUtils.resolve(target, this.config.proxy, this.config.noProxy);
+    if (proxy) connection.proxy = proxy;
+
+    if (this.config.caFile) {
+      this.ca ??= this.readCertificates(this.config.caFile);
+      connection.tls = { ca: await this.ca };
+    }
+    return connection;
+  }
+
+  private async readCertificates(path: string): Promise<string[]> {
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new ValidationError(`CA file not found: ${path}`);
+    }
+    // A custom CA list replaces the built-in roots, so keep them alongside the extra ones
+    return [...rootCertificates, await file.text()];
+  }
+
+  /**
+   * Copies the body into the sink, enforcing the size limit and reporting progress.
+   * A stalled body fails as a transient error, so the download is resumed.
+   */
+  private async readBody(
+    body: ReadableStream<Uint8Array>,
+    transfer: Transfer,
+    sink: DownloadSink,
+    options: DownloadOptions,
+    idle: IdleTimer
+  ): Promise<void> {
+    const reader = body.getReader();
+
+    try {
+      for (;;) {
+        // Raced against the timer, since not every body stream observes the abort signal
+        const { done, value } = await Promise.race([reader.read(), idle.expired]).catch((error: unknown) => {
+          if (idle.signal.aborted) throw idle.stalled();
+          throw new TransientError(`Download interrupted: ${error instanceof Error ? error.message : String(error)}`);
+        });
+        if (done) return;
+        idle.restart();
+
+        transfer.received += value.length;
+        if (transfer.received > options.maxSize) {
+          throw new DownloadError(this.tooLargeMessage(options.maxSize));
+        }
+        sink.write(value);
+        options.onProgress?.({ received: transfer.received, total: transfer.total });
+      }
+    } catch (error) {
+      // Cancelling closes the connection instead of draining the rest of the body
+      await reader.cancel().catch(() => {});
+      throw error;
+    }
+  }
+
+  private async restart(transfer: Transfer, sink: DownloadSink): Promise<void> {
+    transfer.received = 0;
+    transfer.total = null;
+    transfer.etag = null;
+    transfer.lastModified = null;
+    transfer.resumed = false;
+    await sink.reset();
+  }
+
+  private declaredLength(response: Response): number | null {
+    // Encoded bodies are decoded while read, so their length says nothing about the bytes received
+    const encoding = response.headers.get('content-encoding');
+    if (encoding && encoding !== 'identity') return null;
+    return Number(response.headers.get('content-length')) || null;
+  }
+
+  private parseContentRange(value: string | null): { start: number, total: number | null } | null {
+    const match = value?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+    if (!match) return null;
+    return { start: Number(match[1]), total: match[2] === '*' ? null : Number(match[2]) };
+  }
+
+  private tooLargeMessage(maxSize: number): string {
+    return `Download too large. Maximum size is ${(maxSize / 1024 / 1024).toFixed(0)}MB`;
+  }
+}
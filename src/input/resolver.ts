@@ -0,0 +1,117 @@
+// src/input/resolver.ts
+
+import { stat } from 'node:fs/promises';
+import { DEFAULT_CONFIG } from '../config/defaults';
+import { type ExtractorConfig } from '../config/types';
+import { ExtensionId } from '../crx/extension-id';
+import { ValidationError } from '../errors';
+import { StoreRegistry } from '../store/registry';
+import { type InputKind, type InputSource, type StoreListing } from '../types';
+import { PathUtils } from '../utils/path';
+
+/**
+ * Works out what an input string refers to. Detection prefers what exists locally:
+ *
+ *     -                      stdin
+ *     an existing file       local-file (even when its name looks like an extension ID)
+ *     an existing directory  extension-directory, when it holds a manifest.json
+ *     http(s)://...          webstore-url on a store's host, http-url anywhere else
+ *     32 letters a–p         webstore-id in the configured store
+ *     anything else          local-file, which fails to load if it doesn't exist
+ */
+export class InputResolver {
+  /**
+   * Resolves an input, detecting its type unless `kind` forces one. Store URLs and IDs
+   * are recognised by the built-in stores and any in `config.stores`.
+   */
+  static async resolve(
+    input: string,
+    kind?: InputKind,
+    config: ExtractorConfig = DEFAULT_CONFIG
+  ): Promise<InputSource> {
+    if (!input) {
+      throw new ValidationError('Input must be a non-empty string');
+    }
+
+    const stores = new StoreRegistry(config);
+    const store = stores.get();
+    switch (kind) {
+      case 'id':
+        return { kind: 'webstore-id', store: store.name, id: store.parseId(input) };
+      case 'url':
+        return this.parseUrl(input, stores);
+      case 'file':
+        return await this.localPath(input) ?? { kind: 'local-file', path: input };
+    }
+
+    if (input === '-') return { kind: 'stdin' };
+
+    const local = await this.localPath(input);
+    if (local) return local;
+
+    if (/^https?:\/\//i.test(input)) return this.parseUrl(input, stores);
+    // Looks like an ID, so a letter outside a–p is more likely a typo than a file name
+    if (/^[a-z]{32}$/i.test(input)) return { kind: 'webstore-id', store: store.name, id: store.parseId(input) };
+
+    return { kind: 'local-file', path: input };
+  }
+
+  /**
+   * The store listing a bare ID or store URL names, or null for any other input. Doesn't
+   * touch the file system, so a local file named like an ID still counts as an ID.
+   * Throws when the configured store is unknown.
+   */
+  static storeListing(input: string, config: ExtractorConfig = DEFAULT_CONFIG): StoreListing | null {
+    const stores = new StoreRegistry(config);
+    const store = stores.get();
+    try {
+      if (!/^https?:\/\//i.test(input)) {
+        return { store: store.name, id: store.parseId(input) };
+      }
+      const source = this.parseUrl(input, stores);
+      return source.kind === 'webstore-url' ? { store: source.store, id: source.id } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Extracts the extension ID from a directory named `<id>` or `<name>_<id>`, as `extract`
+   * names its output directories.
+   */
+  static idFromDirectoryName(path: string): string | null {
+    const name = path.replace(/\/+$/, '').split('/').pop() ?? '';
+    const id = name.slice(-32);
+    return ExtensionId.isValid(id) && (name.length === 32 || name.at(-33) === '_') ? id : null;
+  }
+
+  private static parseUrl(input: string, stores: StoreRegistry): InputSource {
+    let url: URL;
+    try {
+      url = new URL(input);
+    } catch {
+      throw new ValidationError(`Invalid URL: ${input}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ValidationError(`URL must use http or https: ${input}`);
+    }
+
+    const listing = stores.parseUrl(url);
+    return listing ? { kind: 'webstore-url', ...listing, url: url.href } : { kind: 'http-url', url: url.href };
+  }
+
+  /**
+   * A file, or a directory holding a manifest.json; null when nothing exists at `path`.
+   */
+  private static async localPath(path: string): Promise<InputSource | null> {
+    const stats = await stat(path).catch(() => null);
+    if (!stats) return null;
+    if (!stats.isDirectory()) {
+      return { kind: 'local-file', path };
+    }
+    if (!(await Bun.file(PathUtils.join(path, 'manifest.json')).exists())) {
+      throw new ValidationError(`"${path}" is a directory without a manifest.json`);
+    }
+    return { kind: 'extension-directory', path };
+  }
+}
@@ -0,0 +1,95 @@
+// src/store/provider.ts
+
+import { type ExtractorConfig } from '../config/types';
+import { ExtensionId } from '../crx/extension-id';
+import { DownloadError, ValidationError } from '../errors';
+import { UpdateClient } from '../update/client';
+
+/**
+ * An extension store that packages can be downloaded from. Register custom providers
+ * with the `stores` setting; a provider named like a built-in one replaces it.
+ */
+export interface StoreProvider {
+  /** Lowercase letters, digits and dashes; selects the store with the `store` setting and `--store` */
+  readonly name: string;
+  /** Shown in messages, e.g. `Chrome Web Store` */
+  readonly label: string;
+  /**
+   * The extension ID in one of the store's detail page URLs, or null when the URL is not on
+   * one of its hosts. Throws a `ValidationError` for any other page on those hosts.
+   */
+  parseUrl(url: URL): string | null;
+  /** Returns the ID as the store spells it, or throws a `ValidationError` explaining the format */
+  parseId(input: string): string;
+  /** Where the package of an extension is downloaded from */
+  downloadUrl(id: string, config: ExtractorConfig): URL;
+  /** Rejects a successful response that doesn't carry a package, such as an HTML error page */
+  validateResponse(response: Response): void;
+  /** The store's update service endpoint, used for update checks; omitted when it has none */
+  updateUrl?(config: ExtractorConfig): string;
+}
+
+export interface UpdateServiceStoreOptions {
+  readonly name: string;
+  readonly label: string;
+  /** Detail page path on each host of the store; pages are `<path>[<slug>/]<id>` */
+  readonly detailPaths?: Readonly<Record<string, string>>;
+  /** Update service endpoint; defaults to the configured `updateUrl` */
+  readonly updateUrl?: string;
+}
+
+/**
+ * A store that serves packages through an Omaha update service, as the Chrome Web Store,
+ * Edge Add-ons and most other Chromium stores do. IDs are Chrome extension IDs.
+ */
+export class UpdateServiceStore implements StoreProvider {
+  readonly name: string;
+  readonly label: string;
+  private readonly detailPaths: Readonly<Record<string, string>>;
+  private readonly endpoint?: string;
+
+  constructor (options: UpdateServiceStoreOptions) {
+    this.name = options.name;
+    this.label = options.label;
+    this.detailPaths = options.detailPaths ?? {};
+    this.endpoint = options.updateUrl;
+  }
+
+  parseUrl(url: URL): string | null {
+    const prefix = this.detailPaths[url.hostname];
+    if (!prefix) return null;
+
+    // A trailing slash, query and fragment are fine; a deeper path is some other page
+    const rest = url.pathname.startsWith(prefix) ? url.pathname.slice(prefix.length).replace(/\/$/, '') : '';
+    const segments = rest.split('/');
+    const id = segments.length <= 2 ? segments.at(-1) ?? '' : '';
+    if (!ExtensionId.isValid(id)) {
+      throw new ValidationError(`Not an extension detail page on ${this.label}: ${url.href}`);
+    }
+    return id;
+  }
+
+  parseId(input: string): string {
+    if (!ExtensionId.isValid(input)) {
+      throw new ValidationError(`Invalid extension ID "${input}": IDs are 32 letters from a to p`);
+    }
+    return input;
+  }
+
+  downloadUrl(id: string, config: ExtractorConfig): URL {
+    return new UpdateClient({ ...config, updateUrl: this.updateUrl(config) }).requestUrl(id, 'redirect');
+  }
+
+  validateResponse(response: Response): void {
+    if (response.status === 204) {
+      throw new DownloadError(`${this.label} has no package for this extension`);
+    }
+    if (response.headers.get('content-type')?.includes('text/html')) {
+      throw new DownloadError('Received HTML instead of a CRX file. The extension might be unlisted.');
+    }
+  }
+
+  updateUrl(config: ExtractorConfig): string {
+    return this.endpoint ?? config.updateUrl;
+  }
+}
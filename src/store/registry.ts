@@ -0,0 +1,80 @@
+// src/store/registry.ts
+
+import { CHROME_WEBSTORE_DETAIL_PATHS, EDGE_ADDONS_DETAIL_PATHS, EDGE_UPDATE_URL_BASE } from '../config/constants';
+import { DEFAULT_CONFIG } from '../config/defaults';
+import { type ExtractorConfig } from '../config/types';
+import { ValidationError } from '../errors';
+import { type StoreListing } from '../types';
+import { type StoreProvider, UpdateServiceStore } from './provider';
+
+const BUILT_IN_STORES: readonly StoreProvider[] = [
+  // Downloads from the configured update URL, so a mirror or stub server can stand in for it
+  new UpdateServiceStore({ name: 'chrome', label: 'Chrome Web Store', detailPaths: CHROME_WEBSTORE_DETAIL_PATHS }),
+  new UpdateServiceStore({
+    name: 'edge',
+    label: 'Edge Add-ons',
+    detailPaths: EDGE_ADDONS_DETAIL_PATHS,
+    updateUrl: EDGE_UPDATE_URL_BASE
+  })
+];
+
+/**
+ * The built-in stores plus the custom providers in `config.stores`, by name.
+ */
+export class StoreRegistry {
+  private readonly stores = new Map<string, StoreProvider>();
+
+  constructor (private readonly config: ExtractorConfig = DEFAULT_CONFIG) {
+    for (const store of [...BUILT_IN_STORES, ...(config.stores ?? [])]) {
+      this.register(store);
+    }
+  }
+
+  /**
+   * Adds a provider, replacing any registered under the same name.
+   */
+  register(store: StoreProvider): this {
+    if (typeof store?.name !== 'string' || !/^[a-z0-9-]+$/.test(store.name)) {
+      throw new ValidationError(`Invalid store name "${store?.name}": use lowercase letters, digits and dashes`);
+    }
+    this.stores.delete(store.name);
+    this.stores.set(store.name, store);
+    return this;
+  }
+
+  /**
+   * The provider called `name`, by default the configured store.
+   */
+  get(name: string = this.config.store): StoreProvider {
+    const store = this.stores.get(name);
+    if (!store) {
+      throw new ValidationError(`Unknown store "${name}"; known stores are ${[...this.stores.keys()].join(', ')}`);
+    }
+    return store;
+  }
+
+  list(): StoreProvider[] {
+    return [...this.stores.values()];
+  }
+
+  /**
+   * The store and extension ID of a detail page URL, or null when no store claims its host.
+   * Providers registered later are asked first.
+   */
+  parseUrl(url: URL): StoreListing | null {
+    for (const store of this.list().reverse()) {
+      const id = store.parseUrl(url);
+      if (id) return { store: store.name, id };
+    }
+    return null;
+  }
+
+  /**
+   * The store whose update service is `updateUrl`, as an extracted extension's manifest names
+   * it, or else a one-off store for that endpoint (a self-hosted update manifest).
+   */
+  forUpdateUrl(updateUrl: string): StoreProvider {
+    const store = this.list().reverse().find(candidate => candidate.updateUrl?.(this.config) === updateUrl);
+    return store ?? new UpdateServiceStore({ name: 'self-hosted', label: updateUrl, updateUrl });
+  }
+}
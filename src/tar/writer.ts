@@ -0,0 +1,131 @@
+// src/tar/writer.ts
+
+import { ValidationError } from '../errors';
+
+const BLOCK_SIZE = 512;
+const NAME_SIZE = 100;
+const PREFIX_SIZE = 155;
+const MAX_SIZE = 0o77777777777; // 11 octal digits
+const TYPE_FILE = '0';
+const TYPE_PAX_HEADER = 'x';
+const FILE_MODE = 0o644;
+
+/**
+ * Writes POSIX ustar archives, in memory or streamed to `sink` as entries are added.
+ * Names that don't fit the ustar name and prefix fields get a PAX `path` record.
+ * Entries carry fixed owners and timestamps, so output is reproducible.
+ */
+export class TarWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private readonly names = new Set<string>();
+
+  constructor (private readonly sink?: (chunk: Uint8Array) => void) {}
+
+  /**
+   * Adds a regular file. Names use forward slashes and must be unique.
+   */
+  add(name: string, data: Uint8Array): this {
+    if (this.names.has(name)) {
+      throw new ValidationError(`Duplicate tar entry: ${name}`);
+    }
+    if (data.length > MAX_SIZE) {
+      throw new ValidationError(`Entry too large for a tar archive: ${name}`);
+    }
+
+    const encoded = new TextEncoder().encode(name);
+    const fields = this.splitName(encoded);
+    if (!fields) {
+      const record = this.paxRecord('path', name);
+      this.push(this.header(new TextEncoder().encode('PaxHeader'), null, record.length, TYPE_PAX_HEADER));
+      this.pushPadded(record);
+    }
+
+    // A PAX path overrides the header name, which then only needs to be a readable stand-in
+    const { name: headerName, prefix } = fields ?? { name: encoded.subarray(-NAME_SIZE), prefix: null };
+    this.push(this.header(headerName, prefix, data.length, TYPE_FILE));
+    this.pushPadded(data);
+    this.names.add(name);
+    return this;
+  }
+
+  /**
+   * Writes the two zero blocks that end an archive and returns it; empty when streaming to a sink.
+   */
+  finish(): Uint8Array {
+    this.push(new Uint8Array(BLOCK_SIZE * 2));
+
+    const result = new Uint8Array(this.chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let position = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, position);
+      position += chunk.length;
+    }
+    return result;
+  }
+
+  /**
+   * Fits a name into the ustar name field, or splits it at a slash into prefix and name.
+   */
+  private splitName(name: Uint8Array): { name: Uint8Array, prefix: Uint8Array | null } | null {
+    if (name.length <= NAME_SIZE) return { name, prefix: null };
+
+    for (let i = name.length - 1;i > 0;i--) {
+      if (name[i] !== 0x2f) continue;
+      if (name.length - i - 1 > NAME_SIZE) break;
+      if (i <= PREFIX_SIZE) return { name: name.subarray(i + 1), prefix: name.subarray(0, i) };
+    }
+    return null;
+  }
+
+  /**
+   * Encodes a PAX record, `<length> <key>=<value>\n`, whose length counts its own digits.
+   */
+  private paxRecord(key: string, value: string): Uint8Array {
+    const body = new TextEncoder().encode(` ${key}=${value}\n`);
+    let digits = 1;
+    while (String(body.length + digits).length > digits) digits++;
+
+    const record = new Uint8Array(digits + body.length);
+    record.set(new TextEncoder().encode(String(record.length)));
+    record.set(body, digits);
+    return record;
+  }
+
+  private header(name: Uint8Array, prefix: Uint8Array | null, size: number, type: string): Uint8Array {
+    const header = new Uint8Array(BLOCK_SIZE);
+    const ascii = (offset: number, text: string) => header.set(new TextEncoder().encode(text), offset);
+    const octal = (offset: number, width: number, value: number) => {
+      ascii(offset, `${value.toString(8).padStart(width - 1, '0')}\0`);
+    };
+
+    header.set(name, 0);
+    octal(100, 8, FILE_MODE);
+    octal(108, 8, 0); // uid
+    octal(116, 8, 0); // gid
+    octal(124, 12, size);
+    octal(136, 12, 0); // mtime: the epoch, keeps output reproducible
+    ascii(148, ' '.repeat(8)); // checksum is computed over spaces in its own field
+    ascii(156, type);
+    ascii(257, 'ustar\0');
+    ascii(263, '00');
+    if (prefix) header.set(prefix, 345);
+
+    const checksum = header.reduce((total, byte) => total + byte, 0);
+    ascii(148, `${checksum.toString(8).padStart(6, '0')}\0 `);
+    return header;
+  }
+
+  private pushPadded(data: Uint8Array): void {
+    this.push(data);
+    const padding = (BLOCK_SIZE - (data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) this.push(new Uint8Array(padding));
+  }
+
+  private push(chunk: Uint8Array): void {
+    if (this.sink) {
+      this.sink(chunk);
+    } else {
+      this.chunks.push(chunk);
+    }
+  }
+}
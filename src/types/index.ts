@@ -1,15 +1,71 @@
 // src/types/index.ts
 
+export interface AsymmetricKeyProof {
+  /** DER-encoded SubjectPublicKeyInfo */
+  readonly publicKey: Uint8Array;
+  readonly signature: Uint8Array;
+}
+
 export interface CRXHeader {
   readonly version: number;
   readonly zipOffset: number;
+  readonly sha256WithRsa: readonly AsymmetricKeyProof[];
+  readonly sha256WithEcdsa: readonly AsymmetricKeyProof[];
+  /** CRX2 only: the single RSA key and SHA-1 signature */
+  readonly sha1WithRsa?: AsymmetricKeyProof;
+  /** CRX3 only: serialized SignedData message covered by every proof */
+  readonly signedHeaderData?: Uint8Array;
+  /** CRX3 only: first 16 bytes of the SHA-256 of the developer key */
+  readonly crxId?: Uint8Array;
+}
+
+/** Container formats recognized by their leading magic bytes */
+export type PackageFormat = 'crx' | 'zip' | 'xpi';
+
+/** Archive formats `CRXExtractor.extractToStream()` can write the extracted files as */
+export type ArchiveFormat = 'tar' | 'zip';
+
+export type KeyAlgorithm = 'rsa' | 'ecdsa';
+
+export interface SigningKey {
+  readonly algorithm: KeyAlgorithm;
+  readonly privateKey: CryptoKey;
+  /** DER-encoded SubjectPublicKeyInfo, as embedded in CRX key proofs */
+  readonly publicKey: Uint8Array;
 }
 
 export interface ExtensionInfo {
   readonly id: string;
   readonly name: string;
+  readonly format: PackageFormat;
+  /** Firefox add-on ID from the manifest, when present */
+  readonly geckoId?: string;
+}
+
+/**
+ * What an extractor input refers to, as worked out by `InputResolver.resolve()`
+ */
+export type InputSource =
+  /** `store` names the `StoreProvider` to download from */
+  | { readonly kind: 'webstore-id', readonly store: string, readonly id: string }
+  | { readonly kind: 'webstore-url', readonly store: string, readonly id: string, readonly url: string }
+  /** A CRX link or an update manifest (updates.xml) outside any store */
+  | { readonly kind: 'http-url', readonly url: string }
+  /** A CRX, ZIP or XPI file */
+  | { readonly kind: 'local-file', readonly path: string }
+  /** An extracted extension, updated from the `update_url` its manifest declares */
+  | { readonly kind: 'extension-directory', readonly path: string }
+  | { readonly kind: 'stdin' };
+
+/** An extension in a store, as named by a detail page URL or a bare ID */
+export interface StoreListing {
+  readonly store: string;
+  readonly id: string;
 }
 
+/** Input types a caller can force instead of having them detected */
+export type InputKind = 'id' | 'url' | 'file';
+
 export interface ExtensionManifest {
   readonly name: string;
   readonly version: string;
@@ -17,11 +73,338 @@ export interface ExtensionManifest {
   readonly description?: string;
   readonly permissions?: string[];
   readonly host_permissions?: string[];
+  /** Firefox-specific keys; `gecko.id` is the add-on ID */
+  readonly browser_specific_settings?: { readonly gecko?: { readonly id?: string } };
+  /** Update manifest Chrome polls for new versions; the Web Store sets its own */
+  readonly update_url?: string;
+  /** Base64 DER public key; pins the extension ID of unpacked copies */
+  readonly key?: string;
   readonly [key: string]: unknown;
 }
 
+/** How much access a permission grants, from `low` (harmless on its own) to `critical` */
+export type RiskTier = 'low' | 'medium' | 'high' | 'critical';
+
+/** Manifest keys whose entries `PermissionAnalyzer` rates */
+export type PermissionSource =
+  | 'permissions'
+  | 'optional_permissions'
+  | 'host_permissions'
+  | 'optional_host_permissions'
+  | 'content_scripts';
+
+/** One permission, host pattern or content script match, as rated by `PermissionAnalyzer` */
+export interface PermissionRisk {
+  /** The manifest key it was declared under */
+  readonly source: PermissionSource;
+  readonly value: string;
+  readonly tier: RiskTier;
+  /** What the item lets the extension do, in plain words */
+  readonly explanation: string;
+}
+
+/** The outcome of `PermissionAnalyzer.analyze()` */
+export interface PermissionReport {
+  /** 0 (requests nothing) to 100, weighted by tier */
+  readonly score: number;
+  /** The highest tier of any item; `low` when there are none */
+  readonly tier: RiskTier;
+  /** Riskiest first */
+  readonly items: readonly PermissionRisk[];
+}
+
+/** A schema error or warning found by `ManifestValidator.validate()` */
+export interface ManifestIssue {
+  /** Errors make the manifest invalid; warnings don't */
+  readonly severity: 'error' | 'warning';
+  /** JSON pointer to the offending value; an empty string means the whole manifest */
+  readonly pointer: string;
+  readonly message: string;
+}
+
+/** The outcome of `ManifestValidator.validate()` */
+export interface ManifestValidation {
+  /** The manifest as parsed, errors or not; null only when it isn't a JSON object */
+  readonly manifest: ExtensionManifest | null;
+  /** False when any issue is an error */
+  readonly valid: boolean;
+  readonly issues: readonly ManifestIssue[];
+}
+
+/** Time spent in each extraction phase, in milliseconds */
+export interface ExtractionTimings {
+  /** Download or file read, format detection and header parsing */
+  readonly loadMs: number;
+  /** Signature verification; 0 when skipped */
+  readonly verifyMs: number;
+  /** Writing the package copy and the extracted files */
+  readonly extractMs: number;
+  readonly totalMs: number;
+}
+
+/** The outcome of `CRXExtractor.extract()` */
+export interface ExtractionResult {
+  readonly outputDir: string;
+  /** Where the original package was saved */
+  readonly packagePath: string;
+  readonly format: PackageFormat;
+  /** Parsed CRX header, or null for ZIP and XPI input */
+  readonly header: CRXHeader | null;
+  /** Extension ID derived from the CRX key, or null for ZIP and XPI input */
+  readonly id: string | null;
+  readonly name: string;
+  /** Version from the manifest, or null when it is missing or invalid */
+  readonly version: string | null;
+  readonly manifest: ExtensionManifest | null;
+  readonly geckoId: string | null;
+  /** Risk analysis of the manifest's permissions, or null without a manifest */
+  readonly permissions: PermissionReport | null;
+  /** Schema errors and warnings in the manifest, including a missing or unparsable manifest.json */
+  readonly manifestIssues: readonly ManifestIssue[];
+  /** Number of entries extracted, directories included */
+  readonly fileCount: number;
+  readonly packageSize: number;
+  readonly compressedSize: number;
+  readonly extractedSize: number;
+  readonly timings: ExtractionTimings;
+}
+
+/** Events emitted by `CRXExtractor`, keyed by name */
+export interface ExtractorEvents {
+  /**
+   * A chunk of the download arrived; `total` is null without a Content-Length.
+   * A last event with `received === total` marks the end of the body.
+   */
+  downloadProgress: { readonly received: number, readonly total: number | null };
+  /** Format detected and, for CRX input, the header parsed and its signatures checked */
+  headerParsed: { readonly format: PackageFormat, readonly header: CRXHeader | null, readonly id: string | null };
+  /** The archive passed the ZIP bomb and entry checks */
+  validated: ZipInfo;
+  /** An entry was written out (or read into memory); `index` counts from 1 */
+  entry: { readonly name: string, readonly index: number, readonly total: number, readonly size: number };
+  done: { readonly durationMs: number };
+  failed: { readonly error: unknown };
+}
+
+/** A package extracted by `CRXExtractor.extractToMemory()` */
+export interface MemoryExtractionResult {
+  /** File contents keyed by their path inside the archive; directories are omitted */
+  readonly files: Map<string, Uint8Array>;
+  /** Parsed CRX header, or null for ZIP and XPI input */
+  readonly header: CRXHeader | null;
+  /** Parsed manifest, or null when it is missing or not a JSON object; schema errors are in `manifestIssues` */
+  readonly manifest: ExtensionManifest | null;
+  readonly format: PackageFormat;
+  /** Extension ID derived from the CRX key, or null for ZIP and XPI input */
+  readonly id: string | null;
+  readonly name: string;
+  readonly geckoId: string | null;
+  /** Risk analysis of the manifest's permissions, or null without a manifest */
+  readonly permissions: PermissionReport | null;
+  /** Schema errors and warnings in the manifest, including a missing or unparsable manifest.json */
+  readonly manifestIssues: readonly ManifestIssue[];
+}
+
+/** One key proof from a CRX header, as reported by `CRXExtractor.inspect()` */
+export interface ProofSummary {
+  readonly algorithm: 'sha256_with_rsa' | 'sha256_with_ecdsa' | 'sha1_with_rsa';
+  /** Extension ID derived from the proof's public key */
+  readonly keyId: string;
+  readonly publicKeySize: number;
+  readonly signatureSize: number;
+}
+
+/** A ZIP entry as listed by `CRXExtractor.inspect()` */
+export interface InspectedEntry {
+  readonly name: string;
+  readonly compressionMethod: number;
+  readonly compressedSize: number;
+  readonly uncompressedSize: number;
+  readonly crc32: number;
+  readonly isDirectory: boolean;
+}
+
+/** A read-only report on a package, built without extracting it */
+export interface InspectionResult {
+  readonly format: PackageFormat;
+  /** Package size in bytes */
+  readonly size: number;
+  /** CRX container version, or null for ZIP and XPI input */
+  readonly crxVersion: number | null;
+  /** Extension ID derived from the CRX key, or null when there is none */
+  readonly id: string | null;
+  readonly proofs: readonly ProofSummary[];
+  /** False when signature checks are disabled in the config */
+  readonly signaturesVerified: boolean;
+  readonly zip: ZipInfo;
+  readonly entries: readonly InspectedEntry[];
+  /** Parsed manifest, or null when it is missing or not a JSON object; schema errors are in `manifestIssues` */
+  readonly manifest: ExtensionManifest | null;
+  readonly geckoId: string | null;
+  /** Risk analysis of the manifest's permissions, or null without a manifest */
+  readonly permissions: PermissionReport | null;
+  /** Schema errors and warnings in the manifest, including a missing or unparsable manifest.json */
+  readonly manifestIssues: readonly ManifestIssue[];
+}
+
+/** The `<updatecheck>` element of an update response */
+export interface UpdateCheck {
+  /** `ok` when a package is offered, `noupdate` when the sent version is current, or an error status */
+  readonly status: string;
+  readonly version: string | null;
+  /** Download URL of the package */
+  readonly codebase: string | null;
+  /** Hex SHA-256 of the package, when the service provides it */
+  readonly sha256: string | null;
+  readonly size: number | null;
+}
+
+/** One `<app>` element of an update response */
+export interface UpdateResponseApp {
+  readonly appId: string;
+  readonly status: string;
+  readonly updateCheck: UpdateCheck | null;
+}
+
+/** A package picked from an update manifest by `UpdateClient.selectPackage()` */
+export interface UpdatePackage {
+  readonly appId: string;
+  readonly version: string | null;
+  /** Absolute download URL, resolved against the manifest's own URL */
+  readonly codebase: string;
+  readonly sha256: string | null;
+  readonly size: number | null;
+}
+
+/** The outcome of `UpdateClient.check()` */
+export interface UpdateCheckResult extends UpdateCheck {
+  readonly id: string;
+  /** The version the check was made against, if one was supplied */
+  readonly currentVersion: string | null;
+  /** Null when no current version was supplied */
+  readonly updateAvailable: boolean | null;
+}
+
+/** Validators a server sent with a response, for conditional and Range requests */
+export interface ResponseValidators {
+  readonly etag: string | null;
+  readonly lastModified: string | null;
+}
+
+/** A package in the download cache; there is one entry per extension ID, version and package hash */
+export interface CacheEntry extends ResponseValidators {
+  readonly id: string;
+  /** From the package manifest */
+  readonly version: string | null;
+  /** Hex SHA-256 of the package, which is also its file name in the cache */
+  readonly sha256: string;
+  readonly size: number;
+  /** When the package was downloaded, as an ISO 8601 timestamp */
+  readonly storedAt: string;
+  /** When the update service last confirmed it unchanged, as an ISO 8601 timestamp */
+  readonly checkedAt: string;
+}
+
+/** The outcome of `DownloadCache.prune()` */
+export interface CachePruneResult {
+  readonly removedEntries: number;
+  readonly removedPackages: number;
+  readonly freedBytes: number;
+}
+
+export interface ZipEntry {
+  readonly name: string;
+  readonly compressionMethod: number;
+  readonly compressedSize: number;
+  readonly uncompressedSize: number;
+  readonly crc32: number;
+  readonly localHeaderOffset: number;
+  /** General purpose bit flags */
+  readonly flags: number;
+  /** Upper byte identifies the host system that wrote the entry (3 = Unix) */
+  readonly versionMadeBy: number;
+  /** Host-specific attributes; for Unix hosts the upper 16 bits hold the file mode */
+  readonly externalAttributes: number;
+  readonly isDirectory: boolean;
+  readonly lastModified: Date;
+}
+
 export interface ZipInfo {
   readonly fileCount: number;
   readonly uncompressedSize: number;
   readonly compressedSize: number;
 }
+
+export interface BatchOptions {
+  /** Extractions running at once (default: 4) */
+  readonly concurrency?: number;
+  /** Keep going after a failure; otherwise inputs not yet started are skipped */
+  readonly continueOnError?: boolean;
+}
+
+/** How one input of a batch went */
+export interface BatchItemResult {
+  readonly input: string;
+  readonly status: 'succeeded' | 'failed' | 'skipped';
+  readonly id: string | null;
+  readonly name: string | null;
+  readonly version: string | null;
+  readonly outputDir: string | null;
+  /** The `CRXError` code, or `UNEXPECTED_ERROR` for other failures; null unless failed */
+  readonly errorCode: string | null;
+  readonly errorMessage: string | null;
+  readonly durationMs: number;
+}
+
+/** The outcome of `BatchExtractor.run()`; `results` follow the input order */
+export interface BatchReport {
+  readonly startedAt: string;
+  readonly durationMs: number;
+  readonly total: number;
+  readonly succeeded: number;
+  readonly failed: number;
+  readonly skipped: number;
+  readonly results: BatchItemResult[];
+}
+
+export interface BatchEvents {
+  /** An input was extracted or failed; `completed` counts finished inputs, in completion order */
+  item: { readonly result: BatchItemResult, readonly completed: number, readonly total: number };
+}
+
+export interface PackOptions {
+  /** PKCS#8 PEM key to sign with; a new key is generated next to the directory when omitted */
+  readonly keyPath?: string;
+  /** Defaults to `<dir>.crx` */
+  readonly outputPath?: string;
+  /** Algorithm for generated keys (default: rsa) */
+  readonly algorithm?: KeyAlgorithm;
+}
+
+export interface PackResult {
+  readonly crxPath: string;
+  readonly keyPath: string;
+  readonly keyGenerated: boolean;
+  readonly extensionId: string;
+  readonly fileCount: number;
+  readonly size: number;
+}
+
+export interface ConvertOptions {
+  /** PKCS#8 PEM key to sign the new CRX3 with */
+  readonly keyPath: string;
+  /** Defaults to `<name>.crx3.crx` next to the input */
+  readonly outputPath?: string;
+  /** Require `keyPath` to be the original signing key so the extension ID doesn't change */
+  readonly keepId?: boolean;
+}
+
+export interface ConvertResult {
+  readonly crxPath: string;
+  /** CRX version of the input file */
+  readonly sourceVersion: number;
+  /** ID the input was signed as, if it carried a key */
+  readonly originalId: string | null;
+  readonly extensionId: string;
+  readonly size: number;
+}
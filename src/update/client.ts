@@ -0,0 +1,156 @@
+// src/update/client.ts
+
+import { UPDATE_RESPONSE_MAX_SIZE } from '../config/constants';
+import { DEFAULT_CONFIG } from '../config/defaults';
+import { type ExtractorConfig } from '../config/types';
+import { ExtensionId } from '../crx/extension-id';
+import { Downloader } from '../download/downloader';
+import { DownloadError, ValidationError } from '../errors';
+import { Logger } from '../logger';
+import { type UpdateCheck, type UpdateCheckResult, type UpdatePackage } from '../types';
+import { VersionUtils } from '../utils/version';
+import { UpdateResponseParser } from './response';
+
+/**
+ * Talks to the extension update service (the Omaha `update2/crx` endpoint)
+ */
+export class UpdateClient {
+  private readonly logger: Logger;
+
+  constructor (private readonly config: ExtractorConfig = DEFAULT_CONFIG) {
+    this.logger = new Logger(config.logLevel);
+  }
+
+  /**
+   * Builds an update service request from the configured endpoint, Chrome version,
+   * accepted formats and platform. `redirect` answers with the CRX itself, `updatecheck`
+   * with a gupdate XML document describing the latest version.
+   */
+  requestUrl(extensionId: string, response: 'redirect' | 'updatecheck', version = ''): URL {
+    let url: URL;
+    try {
+      url = new URL(this.config.updateUrl);
+    } catch {
+      throw new ValidationError(`Invalid update URL: ${this.config.updateUrl}`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ValidationError(`Update URL must use http or https: ${this.config.updateUrl}`);
+    }
+
+    const params = new URLSearchParams({ response });
+    const { os, arch, naclArch } = this.config;
+    if (os) params.set('os', os);
+    if (arch) params.set('arch', arch);
+    if (naclArch) params.set('nacl_arch', naclArch);
+    params.set('prodversion', this.config.prodVersion);
+    params.set('acceptformat', this.config.acceptFormat);
+    params.set('x', `id=${extensionId}${version ? `&v=${version}` : ''}&installsource=ondemand&uc`);
+
+    url.search = params.toString();
+    return url;
+  }
+
+  /**
+   * Asks the update service for the latest version of an extension without downloading it.
+   * With `currentVersion`, the result also says whether that version is out of date.
+   */
+  async check(extensionId: string, currentVersion?: string): Promise<UpdateCheckResult> {
+    if (!ExtensionId.isValid(extensionId)) {
+      throw new ValidationError(`Invalid extension ID format: ${extensionId}`);
+    }
+    if (currentVersion !== undefined && !VersionUtils.isValid(currentVersion)) {
+      throw new ValidationError(`Invalid extension version: "${currentVersion}"`);
+    }
+
+    const url = this.requestUrl(extensionId, 'updatecheck', currentVersion);
+    this.logger.info(`Checking for updates: ${extensionId}`);
+    this.logger.debug('Update check URL constructed', { url: url.href });
+
+    const apps = UpdateResponseParser.parse(await this.fetchText(url));
+    const app = apps.find(candidate => candidate.appId === extensionId);
+    if (!app) {
+      throw new DownloadError(`Update response has no entry for ${extensionId}`);
+    }
+    if (app.status !== 'ok') {
+      throw new DownloadError(`Update service returned status "${app.status}" for ${extensionId}`);
+    }
+
+    const updateCheck = app.updateCheck;
+    if (!updateCheck || (updateCheck.status !== 'ok' && updateCheck.status !== 'noupdate')) {
+      const status = updateCheck?.status ?? 'no updatecheck element';
+      throw new DownloadError(`Update check failed for ${extensionId}: ${status}`);
+    }
+    if (updateCheck.version && !VersionUtils.isValid(updateCheck.version)) {
+      throw new ValidationError(`Update service returned an invalid version: "${updateCheck.version}"`);
+    }
+
+    let updateAvailable: boolean | null = null;
+    if (currentVersion !== undefined) {
+      updateAvailable = updateCheck.status === 'ok' && !!updateCheck.version &&
+        VersionUtils.compare(updateCheck.version, currentVersion) > 0;
+    }
+
+    this.logger.info(`Latest version: ${updateCheck.version ?? currentVersion ?? 'unknown'}`);
+    return { ...updateCheck, id: extensionId, currentVersion: currentVersion ?? null, updateAvailable };
+  }
+
+  /**
+   * Picks the package to download from a gupdate document, such as a self-hosted `updates.xml`
+   * or the update service's answer: the entry for `appId` (by default the only extension listed)
+   * at `config.appVersion`, or else its newest version. `manifestUrl` resolves relative codebases.
+   */
+  selectPackage(xml: string, appId: string | null, manifestUrl: URL): UpdatePackage {
+    const apps = UpdateResponseParser.parse(xml);
+    const listed = [...new Set(apps.map(app => app.appId))];
+    const id = appId ?? (listed.length === 1 ? listed[0] : undefined);
+    if (!id) {
+      throw new ValidationError(listed.length > 1
+        ? `Update manifest lists ${listed.length} extensions (${listed.join(', ')}); choose one with appId`
+        : 'Update manifest lists no extensions');
+    }
+
+    const offered = apps
+      .filter(app => app.appId === id && app.status === 'ok' && app.updateCheck?.status === 'ok')
+      .map(app => app.updateCheck as UpdateCheck)
+      .filter(updateCheck => updateCheck.codebase);
+    for (const { version } of offered) {
+      if (version && !VersionUtils.isValid(version)) {
+        throw new ValidationError(`Update manifest lists an invalid version: "${version}"`);
+      }
+    }
+
+    const wanted = this.config.appVersion;
+    const chosen = wanted
+      ? offered.find(updateCheck => updateCheck.version && VersionUtils.compare(updateCheck.version, wanted) === 0)
+      : offered.reduce<UpdateCheck | undefined>((newest, updateCheck) => this.newer(newest, updateCheck), undefined);
+    if (!chosen) {
+      throw new DownloadError(wanted
+        ? `Update manifest has no version ${wanted} of ${id}`
+        : `Update manifest offers no package for ${id}`);
+    }
+
+    let codebase: URL;
+    try {
+      codebase = new URL(chosen.codebase as string, manifestUrl);
+    } catch {
+      throw new ValidationError(`Invalid codebase in update manifest: ${chosen.codebase}`);
+    }
+    if (codebase.protocol !== 'https:' && codebase.protocol !== 'http:') {
+      throw new ValidationError(`Codebase must use http or https: ${chosen.codebase}`);
+    }
+
+    this.logger.info(`Update manifest offers ${id} ${chosen.version ?? '(unversioned)'}`);
+    return { appId: id, version: chosen.version, codebase: codebase.href, sha256: chosen.sha256, size: chosen.size };
+  }
+
+  /** The newer of two offers; one without a version loses to any with one */
+  private newer(a: UpdateCheck | undefined, b: UpdateCheck): UpdateCheck {
+    if (!a?.version) return a && !b.version ? a : b;
+    return b.version && VersionUtils.compare(b.version, a.version) > 0 ? b : a;
+  }
+
+  private async fetchText(url: URL): Promise<string> {
+    const { data } = await new Downloader(this.config).toMemory(url, { maxSize: UPDATE_RESPONSE_MAX_SIZE });
+    return new TextDecoder().decode(data);
+  }
+}
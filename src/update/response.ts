@@ -0,0 +1,83 @@
+// src/update/response.ts
+
+import { ValidationError } from '../errors';
+import { type UpdateCheck, type UpdateResponseApp } from '../types';
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Readonly<Record<string, string>> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Parses `gupdate` XML responses from the update service. Only the `<app>` and
+ * `<updatecheck>` elements are read, so a tag scanner is enough; anything else is ignored.
+ */
+export class UpdateResponseParser {
+  static parse(xml: string): UpdateResponseApp[] {
+    const body = xml.replace(/<!--[\s\S]*?-->/g, '');
+    if (!/<gupdate[\s>]/.test(body)) {
+      throw new ValidationError('Update response is not a gupdate document');
+    }
+
+    const apps: UpdateResponseApp[] = [];
+    let app: { appId: string, status: string, updateCheck: UpdateCheck | null } | null = null;
+
+    for (const match of body.matchAll(TAG_PATTERN)) {
+      const [, closing, name, attributeText = '', selfClosing] = match;
+      if (name === 'app' && closing) {
+        if (app) apps.push(app);
+        app = null;
+        continue;
+      }
+      if (closing) continue;
+
+      const attributes = this.parseAttributes(attributeText);
+      if (name === 'app') {
+        if (app) apps.push(app);
+        const appId = attributes.get('appid');
+        if (!appId) {
+          throw new ValidationError('Update response has an <app> without an appid');
+        }
+        app = { appId, status: attributes.get('status') ?? 'ok', updateCheck: null };
+        if (selfClosing) {
+          apps.push(app);
+          app = null;
+        }
+      } else if (name === 'updatecheck' && app) {
+        app.updateCheck = this.parseUpdateCheck(attributes);
+      }
+    }
+    if (app) apps.push(app);
+
+    return apps;
+  }
+
+  private static parseUpdateCheck(attributes: Map<string, string>): UpdateCheck {
+    const size = attributes.get('size');
+    return {
+      // Self-hosted update manifests leave the status out
+      status: attributes.get('status') ?? 'ok',
+      version: attributes.get('version') || null,
+      codebase: attributes.get('codebase') || null,
+      sha256: attributes.get('hash_sha256')?.toLowerCase() || null,
+      size: size && /^\d+$/.test(size) ? Number(size) : null
+    };
+  }
+
+  private static parseAttributes(text: string): Map<string, string> {
+    const attributes = new Map<string, string>();
+    for (const [, name, doubleQuoted, singleQuoted] of text.matchAll(ATTRIBUTE_PATTERN)) {
+      if (name) {
+        attributes.set(name, this.decodeEntities(doubleQuoted ?? singleQuoted ?? ''));
+      }
+    }
+    return attributes;
+  }
+
+  private static decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (!code.startsWith('#')) return ENTITIES[code] ?? entity;
+      const codePoint = /^#x/i.test(code) ? parseInt(code.slice(2), 16) : Number(code.slice(1));
+      return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    });
+  }
+}
@@ -0,0 +1,28 @@
+// src/utils/binary.ts
+
+import { ValidationError } from '../errors';
+
+/**
+ * Byte-level helpers shared by the CRX and ZIP parsers
+ */
+export class BinaryUtils {
+  /**
+   * Reads a 32-bit unsigned little-endian integer from a buffer
+   */
+  static readUInt32LE(buffer: Uint8Array, offset: number): number {
+    if (offset < 0 || offset + 4 > buffer.length) {
+      throw new ValidationError('Buffer underrun while reading UInt32LE');
+    }
+    return ((buffer[offset] ?? 0) |
+      ((buffer[offset + 1] ?? 0) << 8) |
+      ((buffer[offset + 2] ?? 0) << 16) |
+      ((buffer[offset + 3] ?? 0) << 24)) >>> 0;
+  }
+
+  /**
+   * Encodes bytes as a lowercase hex string
+   */
+  static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -0,0 +1,41 @@
+// src/utils/events.ts
+
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload type;
+ * listeners run synchronously, in the order they were added.
+ */
+export class TypedEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return this;
+  }
+
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    const wrapper: EventListener<Events[K]> = payload => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): this {
+    this.listeners.get(event)?.delete(listener);
+    return this;
+  }
+
+  /**
+   * Calls every listener for `event`. A throwing listener stops the ones after it
+   * and the error propagates to the caller.
+   */
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      (listener as EventListener<Events[K]>)(payload);
+    }
+  }
+}
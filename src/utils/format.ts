@@ -0,0 +1,58 @@
+// src/utils/format.ts
+
+import { CRX_MAGIC, XPI_SIGNATURE_ENTRY, ZIP_EMPTY_ARCHIVE_MAGIC, ZIP_LOCAL_HEADER_MAGIC } from '../config/constants';
+import { ValidationError } from '../errors';
+import { type PackageFormat } from '../types';
+import { BinaryUtils } from './binary';
+
+/**
+ * Identifies extension packages by their leading magic bytes
+ */
+export class FormatUtils {
+  /**
+   * Detects the container format. XPI files are ZIP archives, so from the leading
+   * bytes alone the `.xpi` file name is the only hint; `detectZip()` looks inside.
+   */
+  static detect(buffer: Uint8Array, fileName = ''): PackageFormat {
+    const magic = buffer.length >= 4 ? BinaryUtils.readUInt32LE(buffer, 0) : null;
+
+    switch (magic) {
+      case CRX_MAGIC:
+        return 'crx';
+      case ZIP_LOCAL_HEADER_MAGIC:
+      case ZIP_EMPTY_ARCHIVE_MAGIC:
+        return /\.xpi$/i.test(fileName) ? 'xpi' : 'zip';
+      default: {
+        const leading = BinaryUtils.toHex(buffer.subarray(0, 4)) || 'none';
+        throw new ValidationError(`Unrecognized package format (leading bytes: ${leading}); expected CRX, ZIP or XPI`);
+      }
+    }
+  }
+
+  /**
+   * Tells an XPI from a plain ZIP by its contents: a Mozilla signature entry, or Gecko
+   * settings under `browser_specific_settings` or `applications` in the manifest.
+   * Archives showing neither keep the format `hint` their file name suggested.
+   */
+  static detectZip(entryNames: readonly string[], manifestData: Uint8Array | null, hint: PackageFormat): PackageFormat {
+    if (entryNames.includes(XPI_SIGNATURE_ENTRY)) {
+      return 'xpi';
+    }
+
+    let manifest: unknown;
+    try {
+      manifest = manifestData ? JSON.parse(new TextDecoder().decode(manifestData)) : null;
+    } catch {
+      return hint;
+    }
+    const hasGecko = (key: string): boolean => {
+      const settings = this.isObject(manifest) ? manifest[key] : null;
+      return this.isObject(settings) && this.isObject(settings.gecko);
+    };
+    return hasGecko('browser_specific_settings') || hasGecko('applications') ? 'xpi' : hint;
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
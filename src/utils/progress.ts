@@ -0,0 +1,45 @@
+// src/utils/progress.ts
+
+export interface ProgressStream {
+  write(text: string): unknown;
+}
+
+/**
+ * Single-line progress bar, redrawn in place on a terminal stream
+ */
+export class ProgressBar {
+  private drawn = false;
+
+  constructor (private readonly stream: ProgressStream = process.stderr, private readonly width = 30) {}
+
+  /**
+   * Formats one bar line. A null fraction means the total is unknown, so the
+   * bar stays empty and no percentage is shown.
+   */
+  static render(fraction: number | null, label: string, width = 30): string {
+    if (fraction === null) {
+      return `[${'-'.repeat(width)}]      ${label}`;
+    }
+
+    const clamped = Math.min(Math.max(fraction, 0), 1);
+    const filled = Math.round(clamped * width);
+    const percent = `${Math.floor(clamped * 100)}%`.padStart(4);
+    return `[${'#'.repeat(filled)}${'-'.repeat(width - filled)}] ${percent} ${label}`;
+  }
+
+  update(fraction: number | null, label: string): void {
+    // \r returns to the start of the line, \x1b[K clears what the last draw left behind
+    this.stream.write(`\r${ProgressBar.render(fraction, label, this.width)}\x1b[K`);
+    this.drawn = true;
+  }
+
+  /**
+   * Ends the current bar, leaving it on its own line.
+   */
+  finish(): void {
+    if (this.drawn) {
+      this.stream.write('\n');
+      this.drawn = false;
+    }
+  }
+}
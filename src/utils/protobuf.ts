@@ -0,0 +1,135 @@
+// src/utils/protobuf.ts
+
+import { ValidationError } from '../errors';
+
+export enum WireType {
+  VARINT = 0,
+  FIXED64 = 1,
+  LENGTH_DELIMITED = 2,
+  FIXED32 = 5
+}
+
+export interface ProtobufField {
+  readonly fieldNumber: number;
+  readonly wireType: WireType;
+  /** Decoded value for varints, raw bytes for every other wire type */
+  readonly value: number | Uint8Array;
+}
+
+/**
+ * Minimal protobuf wire-format reader, enough to walk the CRX3 header messages
+ */
+export class ProtobufReader {
+  private offset = 0;
+
+  private constructor (private readonly buffer: Uint8Array) {}
+
+  /**
+   * Decodes every top-level field of the message
+   */
+  static decode(buffer: Uint8Array): ProtobufField[] {
+    const reader = new ProtobufReader(buffer);
+    const fields: ProtobufField[] = [];
+    while (!reader.done()) {
+      fields.push(reader.readField());
+    }
+    return fields;
+  }
+
+  private done(): boolean {
+    return this.offset >= this.buffer.length;
+  }
+
+  private readField(): ProtobufField {
+    const tag = this.readVarint();
+    const fieldNumber = Math.floor(tag / 8);
+    const wireType = tag % 8;
+
+    if (fieldNumber === 0) {
+      throw new ValidationError('Invalid protobuf field number 0');
+    }
+
+    switch (wireType) {
+      case WireType.VARINT:
+        return { fieldNumber, wireType, value: this.readVarint() };
+      case WireType.FIXED64:
+        return { fieldNumber, wireType, value: this.readBytes(8) };
+      case WireType.LENGTH_DELIMITED:
+        return { fieldNumber, wireType, value: this.readBytes(this.readVarint()) };
+      case WireType.FIXED32:
+        return { fieldNumber, wireType, value: this.readBytes(4) };
+      default:
+        throw new ValidationError(`Unsupported protobuf wire type: ${wireType}`);
+    }
+  }
+
+  /**
+   * Reads a base-128 varint. Values beyond 2^53 are rejected rather than silently rounded.
+   */
+  private readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+
+    for (let i = 0;i < 10;i++) {
+      const byte = this.buffer[this.offset++];
+      if (byte === undefined) {
+        throw new ValidationError('Truncated protobuf varint');
+      }
+      result += (byte & 0x7f) * multiplier;
+      if (!Number.isSafeInteger(result)) {
+        throw new ValidationError('Protobuf varint exceeds safe integer range');
+      }
+      if ((byte & 0x80) === 0) {
+        return result;
+      }
+      multiplier *= 128;
+    }
+
+    throw new ValidationError('Malformed protobuf varint');
+  }
+
+  private readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.buffer.length) {
+      throw new ValidationError('Truncated protobuf field');
+    }
+    const bytes = this.buffer.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+/**
+ * Minimal protobuf wire-format writer for the length-delimited fields CRX3 headers use
+ */
+export class ProtobufWriter {
+  private readonly chunks: Uint8Array[] = [];
+
+  /**
+   * Appends a length-delimited field (bytes or embedded message).
+   */
+  bytes(fieldNumber: number, value: Uint8Array): this {
+    this.chunks.push(this.varint(fieldNumber * 8 + WireType.LENGTH_DELIMITED), this.varint(value.length), value);
+    return this;
+  }
+
+  finish(): Uint8Array {
+    const length = this.chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+
+  private varint(value: number): Uint8Array {
+    const bytes: number[] = [];
+    while (value > 0x7f) {
+      bytes.push((value % 128) | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return new Uint8Array(bytes);
+  }
+}
@@ -0,0 +1,63 @@
+// src/utils/proxy.ts
+
+import { ValidationError } from '../errors';
+
+type Environment = Readonly<Record<string, string | undefined>>;
+
+/**
+ * Proxy selection following the curl conventions: `HTTPS_PROXY` for https targets,
+ * `HTTP_PROXY` for plain http, and `NO_PROXY` for hosts reached directly.
+ */
+export class ProxyUtils {
+  /**
+   * The proxy for a request to `target`, or null to connect directly. A configured
+   * proxy or bypass list replaces the corresponding environment variable.
+   */
+  static resolve(target: URL, proxy?: string, noProxy?: string, env: Environment = process.env): string | null {
+    const https = target.protocol === 'https:';
+    const chosen = proxy ?? (https ? env.HTTPS_PROXY ?? env.https_proxy : env.HTTP_PROXY ?? env.http_proxy);
+    if (!chosen) return null;
+    if (this.bypasses(target, noProxy ?? env.NO_PROXY ?? env.no_proxy ?? '')) return null;
+    return this.validate(chosen);
+  }
+
+  /**
+   * Matches a host against a comma-separated `NO_PROXY` list. Entries are `*`, a host or IP
+   * address, or a domain (with or without a leading dot) that also covers its subdomains;
+   * any of them may end in `:port`.
+   */
+  static bypasses(target: URL, noProxy: string): boolean {
+    const host = target.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+    const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+    return noProxy.split(/[\s,]+/).some(entry => {
+      if (entry === '*') return true;
+
+      const rule = this.parseEntry(entry.toLowerCase());
+      if (!rule.host || (rule.port && rule.port !== port)) return false;
+      return host === rule.host || host.endsWith(`.${rule.host}`);
+    });
+  }
+
+  private static parseEntry(entry: string): { host: string, port: string | null } {
+    // Bracketed IPv6 may carry a port; a bare one is taken whole, as its colons can't be told from a port
+    const [, bracketedHost, bracketedPort] = entry.match(/^\[(.+)\](?::(\d+))?$/) ?? [];
+    if (bracketedHost) return { host: bracketedHost, port: bracketedPort ?? null };
+
+    const [, host = entry, port = null] = entry.match(/^([^:]+):(\d+)$/) ?? [];
+    return { host: host.replace(/^\*?\./, ''), port };
+  }
+
+  private static validate(proxy: string): string {
+    let url: URL;
+    try {
+      url = new URL(proxy);
+    } catch {
+      throw new ValidationError(`Invalid proxy URL: ${proxy}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ValidationError(`Proxy URL must use http or https: ${proxy}`);
+    }
+    return proxy;
+  }
+}
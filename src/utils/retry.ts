@@ -0,0 +1,46 @@
+// src/utils/retry.ts
+
+/** Request timeouts, rate limiting and transient server errors */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Backoff arithmetic for retried requests
+ */
+export class RetryUtils {
+  static isRetryableStatus(status: number): boolean {
+    return RETRYABLE_STATUSES.has(status);
+  }
+
+  /**
+   * Reads a `Retry-After` header, given either as seconds or as an HTTP date, in milliseconds.
+   */
+  static parseRetryAfter(value: string | null, now = Date.now()): number | null {
+    const trimmed = value?.trim();
+    if (!trimmed) return null;
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(date - now, 0);
+  }
+
+  /**
+   * Delay before retry number `attempt` (from 0): exponential backoff with jitter, so clients
+   * that failed together don't retry together. A server's `Retry-After` replaces the computed
+   * delay; either way the result is capped at `maxDelay`.
+   */
+  static backoff(
+    attempt: number,
+    baseDelay: number,
+    maxDelay: number,
+    retryAfter: number | null = null,
+    random = Math.random
+  ): number {
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, maxDelay);
+    }
+
+    // Half the window is fixed and half random, so a retry never fires immediately
+    const window = Math.min(baseDelay * 2 ** attempt, maxDelay);
+    return Math.round(window / 2 + random() * window / 2);
+  }
+}
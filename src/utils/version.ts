@@ -0,0 +1,34 @@
+// src/utils/version.ts
+
+import { ValidationError } from '../errors';
+
+/**
+ * Chrome extension versions: one to four dot-separated integers
+ */
+export class VersionUtils {
+  static isValid(version: string): boolean {
+    return /^\d+(\.\d+){0,3}$/.test(version);
+  }
+
+  /**
+   * Compares two versions part by part; missing parts count as 0, so "1.2" equals "1.2.0".
+   * Returns a negative number, zero or a positive number.
+   */
+  static compare(a: string, b: string): number {
+    const left = this.parse(a);
+    const right = this.parse(b);
+
+    for (let i = 0;i < Math.max(left.length, right.length);i++) {
+      const diff = (left[i] ?? 0) - (right[i] ?? 0);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  }
+
+  private static parse(version: string): number[] {
+    if (!this.isValid(version)) {
+      throw new ValidationError(`Invalid extension version: "${version}"`);
+    }
+    return version.split('.').map(Number);
+  }
+}
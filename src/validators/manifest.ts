@@ -1,40 +1,511 @@
 // src/validators/manifest.ts
 
 import { ValidationError } from '../errors';
-import { type ExtensionManifest } from '../types';
+import { type ExtensionManifest, type ManifestIssue, type ManifestValidation } from '../types';
+
+/** Browser whose rules decide the checks that differ between Chrome and Firefox */
+export type ManifestTarget = 'chrome' | 'firefox';
+
+export interface ManifestValidationOptions {
+  /** Defaults to `chrome` */
+  target?: ManifestTarget;
+}
+
+type Fields = Record<string, unknown>;
+
+/** Issues found so far, plus what the checks need to know about the manifest */
+interface Context {
+  readonly issues: ManifestIssue[];
+  readonly target: ManifestTarget;
+  /** 2 or 3, or null when `manifest_version` is invalid and version-specific checks are skipped */
+  readonly version: 2 | 3 | null;
+}
+
+const RUN_AT = ['document_start', 'document_end', 'document_idle'];
+const WORLDS = ['ISOLATED', 'MAIN'];
+const BACKGROUND_TYPES = ['module', 'classic'];
+const ACTION_KEYS = ['action', 'browser_action', 'page_action'] as const;
+const MAX_DESCRIPTION_LENGTH = 132;
+/** Script sources Manifest V3 allows in the extension pages policy */
+const MV3_SCRIPT_SOURCES = ["'self'", "'none'", "'wasm-unsafe-eval'"];
+const LOCAL_SOURCE = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+|:\*)?$/;
 
 export class ManifestValidator {
-  validateManifest(data: unknown): ExtensionManifest {
-    if (typeof data !== 'object' || data === null) {
-      throw new ValidationError('Manifest must be an object');
+  /**
+   * Validates manifest data and returns it, throwing a `ValidationError` for the
+   * first schema error found. Use `validate()` to see every error and warning.
+   */
+  validateManifest(data: unknown, options: ManifestValidationOptions = {}): ExtensionManifest {
+    const { manifest, valid, issues } = this.validate(data, options);
+    if (!valid || !manifest) {
+      const error = issues.find(issue => issue.severity === 'error') as ManifestIssue;
+      throw new ValidationError(error.pointer ? `${error.message} (at ${error.pointer})` : error.message);
+    }
+    return manifest;
+  }
+
+  /**
+   * Checks manifest data against the Manifest V2 or V3 schema (by its `manifest_version`)
+   * and lists every error and warning, each located by a JSON pointer into the manifest.
+   * The manifest is returned as parsed even when it has errors, so callers can still read it.
+   */
+  validate(data: unknown, options: ManifestValidationOptions = {}): ManifestValidation {
+    const issues: ManifestIssue[] = [];
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      const issue: ManifestIssue = { severity: 'error', pointer: '', message: 'Manifest must be an object' };
+      return { manifest: null, valid: false, issues: [issue] };
     }
 
-    const manifest = data as Record<string, unknown>;
+    const manifest = data as Fields;
+    const target = options.target ?? 'chrome';
+    const version = manifest.manifest_version === 2 || manifest.manifest_version === 3
+      ? manifest.manifest_version
+      : null;
+    const ctx: Context = { issues, target, version };
+
+    this.checkRequired(manifest, ctx);
+    this.checkOptionalStrings(manifest, ctx);
+    this.checkPermissions(manifest, ctx);
+    this.checkBackground(manifest.background, ctx);
+    this.checkContentScripts(manifest.content_scripts, ctx);
+    this.checkWebAccessibleResources(manifest.web_accessible_resources, ctx);
+    this.checkActions(manifest, ctx);
+    this.checkContentSecurityPolicy(manifest.content_security_policy, ctx);
+    if (manifest.icons !== undefined) this.checkIconMap(manifest.icons, '/icons', ctx, true);
+    this.checkGeckoSettings(manifest, ctx);
+
+    const valid = !issues.some(issue => issue.severity === 'error');
+    return { manifest: manifest as ExtensionManifest, valid, issues };
+  }
+
+  /**
+   * Returns the Firefox add-on ID from `browser_specific_settings.gecko.id`
+   * (or the older `applications.gecko.id`), if the manifest declares one.
+   */
+  getGeckoId(manifest: ExtensionManifest): string | null {
+    for (const key of ['browser_specific_settings', 'applications']) {
+      const settings = manifest[key];
+      if (typeof settings !== 'object' || settings === null) continue;
 
-    // Required fields validation
+      const gecko = (settings as Record<string, unknown>).gecko;
+      if (typeof gecko !== 'object' || gecko === null) continue;
+
+      const id = (gecko as Record<string, unknown>).id;
+      if (id === undefined) continue;
+      if (typeof id !== 'string' || !id) {
+        throw new ValidationError(`Manifest "${key}.gecko.id" must be a non-empty string`);
+      }
+      return id;
+    }
+    return null;
+  }
+
+  /**
+   * Escapes a key for use as a JSON pointer segment (RFC 6901).
+   */
+  static pointer(...segments: (string | number)[]): string {
+    return segments.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+  }
+
+  private checkRequired(manifest: Fields, ctx: Context): void {
     if (typeof manifest.name !== 'string' || !manifest.name.trim()) {
-      throw new ValidationError('Manifest missing required "name" field');
+      this.error(ctx, '/name', 'Manifest missing required "name" field');
     }
 
     if (typeof manifest.version !== 'string' || !manifest.version) {
-      throw new ValidationError('Manifest missing required "version" field');
+      this.error(ctx, '/version', 'Manifest missing required "version" field');
+    } else if (!this.isVersion(manifest.version)) {
+      // Firefox still loads older toolkit-style versions such as 1.0b1, with a warning
+      const message = 'Manifest "version" must be one to four dot-separated integers from 0 to 65535';
+      this.report(ctx, ctx.target === 'firefox' ? 'warning' : 'error', '/version', message);
     }
 
     if (typeof manifest.manifest_version !== 'number') {
-      throw new ValidationError('Manifest missing required "manifest_version" field');
+      this.error(ctx, '/manifest_version', 'Manifest missing required "manifest_version" field');
+    } else if (ctx.version === null) {
+      this.error(ctx, '/manifest_version', 'Manifest "manifest_version" must be 2 or 3');
+    } else if (ctx.version === 2 && ctx.target === 'chrome') {
+      this.warn(ctx, '/manifest_version', 'Manifest V2 is no longer supported by Chrome');
     }
+  }
 
-    // Optional fields validation
+  private checkOptionalStrings(manifest: Fields, ctx: Context): void {
     if (manifest.description !== undefined && typeof manifest.description !== 'string') {
-      throw new ValidationError('Manifest "description" must be a string');
+      this.error(ctx, '/description', 'Manifest "description" must be a string');
+    } else if (typeof manifest.description === 'string' && manifest.description.length > MAX_DESCRIPTION_LENGTH) {
+      this.warn(ctx, '/description', `Manifest "description" is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+
+    for (const key of ['version_name', 'default_locale', 'key', 'minimum_chrome_version', 'homepage_url']) {
+      if (manifest[key] !== undefined && typeof manifest[key] !== 'string') {
+        this.error(ctx, ManifestValidator.pointer(key), `Manifest "${key}" must be a string`);
+      }
+    }
+
+    if (manifest.update_url !== undefined && !this.isHttpUrl(manifest.update_url)) {
+      this.error(ctx, '/update_url', 'Manifest "update_url" must be an http or https URL');
+    }
+
+    const localized = [manifest.name, manifest.description].some(value =>
+      typeof value === 'string' && value.startsWith('__MSG_'));
+    if (localized && manifest.default_locale === undefined) {
+      this.error(ctx, '/default_locale', 'Manifest uses __MSG_ messages but has no "default_locale"');
+    }
+  }
+
+  private checkPermissions(manifest: Fields, ctx: Context): void {
+    for (const key of ['permissions', 'optional_permissions']) {
+      const permissions = manifest[key];
+      if (permissions === undefined) continue;
+      const pointer = ManifestValidator.pointer(key);
+      if (!this.checkStringArray(permissions, pointer, ctx, `Manifest "${key}" must be an array of strings`)) continue;
+      if (ctx.version !== 3) continue;
+
+      const hostKey = key.replace('permissions', 'host_permissions');
+      for (const [i, permission] of (permissions as unknown[]).entries()) {
+        if (typeof permission === 'string' && this.looksLikeHostPattern(permission)) {
+          this.warn(ctx, `${pointer}/${i}`, `Manifest V3 expects host patterns in "${hostKey}"`);
+        }
+      }
+    }
+
+    for (const key of ['host_permissions', 'optional_host_permissions']) {
+      const patterns = manifest[key];
+      if (patterns === undefined) continue;
+      const pointer = ManifestValidator.pointer(key);
+      if (ctx.version === 2) {
+        this.warn(ctx, pointer, `Manifest "${key}" requires Manifest V3; list host patterns in "permissions"`);
+      }
+      this.checkMatchPatterns(patterns, pointer, ctx, `Manifest "${key}" must be an array of match patterns`);
+    }
+  }
+
+  private checkBackground(background: unknown, ctx: Context): void {
+    if (background === undefined) return;
+    if (!this.isObject(background)) {
+      this.error(ctx, '/background', 'Manifest "background" must be an object');
+      return;
+    }
+
+    const hasWorker = background.service_worker !== undefined;
+    const hasScripts = background.scripts !== undefined;
+    const hasPage = background.page !== undefined;
+
+    if (hasWorker && (typeof background.service_worker !== 'string' || !background.service_worker)) {
+      this.error(ctx, '/background/service_worker', 'Background "service_worker" must be a file path');
+    }
+    if (hasScripts) {
+      const message = 'Background "scripts" must be an array of file paths';
+      this.checkStringArray(background.scripts, '/background/scripts', ctx, message);
+    }
+    if (hasPage && typeof background.page !== 'string') {
+      this.error(ctx, '/background/page', 'Background "page" must be a file path');
+    }
+    if (hasScripts && hasPage) {
+      this.error(ctx, '/background', 'Background can have "scripts" or a "page", not both');
+    }
+    if (background.type !== undefined && !BACKGROUND_TYPES.includes(background.type as string)) {
+      this.error(ctx, '/background/type', 'Background "type" must be "module" or "classic"');
+    }
+    if (background.persistent !== undefined && typeof background.persistent !== 'boolean') {
+      this.error(ctx, '/background/persistent', 'Background "persistent" must be a boolean');
+    }
+
+    if (ctx.version === 2) {
+      if (hasWorker) {
+        this.error(ctx, '/background/service_worker', 'Background "service_worker" requires Manifest V3');
+      } else if (!hasScripts && !hasPage) {
+        this.error(ctx, '/background', 'Manifest V2 background needs "scripts" or a "page"');
+      }
+    } else if (ctx.version === 3) {
+      if (background.persistent !== undefined) {
+        this.warn(ctx, '/background/persistent', 'Background "persistent" is ignored in Manifest V3');
+      }
+      if (ctx.target === 'firefox') {
+        // Firefox runs Manifest V3 background scripts as event pages and has no service workers
+        if (!hasScripts && !hasPage) {
+          this.error(ctx, '/background', 'Firefox needs background "scripts" or a "page"');
+        } else if (hasWorker) {
+          this.warn(ctx, '/background/service_worker', 'Background "service_worker" is ignored by Firefox');
+        }
+      } else if (!hasWorker) {
+        this.error(ctx, '/background', 'Manifest V3 background must be a "service_worker"');
+      } else if (hasScripts || hasPage) {
+        this.warn(ctx, '/background', 'Background "scripts" and "page" are ignored by Chrome in Manifest V3');
+      }
+    }
+  }
+
+  private checkContentScripts(scripts: unknown, ctx: Context): void {
+    if (scripts === undefined) return;
+    if (!Array.isArray(scripts)) {
+      this.error(ctx, '/content_scripts', 'Manifest "content_scripts" must be an array');
+      return;
+    }
+
+    for (const [i, script] of scripts.entries()) {
+      const at = (...keys: string[]) => ManifestValidator.pointer('content_scripts', i, ...keys);
+      if (!this.isObject(script)) {
+        this.error(ctx, at(), 'Content script must be an object');
+        continue;
+      }
+
+      if (!Array.isArray(script.matches) || script.matches.length === 0) {
+        this.error(ctx, at('matches'), 'Content script needs a non-empty "matches" array');
+      } else {
+        this.checkMatchPatterns(script.matches, at('matches'), ctx, 'Content script "matches" must be match patterns');
+      }
+      if (script.exclude_matches !== undefined) {
+        const message = 'Content script "exclude_matches" must be match patterns';
+        this.checkMatchPatterns(script.exclude_matches, at('exclude_matches'), ctx, message);
+      }
+
+      for (const key of ['js', 'css', 'include_globs', 'exclude_globs']) {
+        if (script[key] !== undefined) {
+          this.checkStringArray(script[key], at(key), ctx, `Content script "${key}" must be an array of strings`);
+        }
+      }
+      if (script.js === undefined && script.css === undefined) {
+        this.error(ctx, at(), 'Content script needs "js" or "css" files');
+      }
+
+      if (script.run_at !== undefined && !RUN_AT.includes(script.run_at as string)) {
+        this.error(ctx, at('run_at'), `Content script "run_at" must be one of ${RUN_AT.join(', ')}`);
+      }
+      if (script.world !== undefined && !WORLDS.includes(script.world as string)) {
+        this.error(ctx, at('world'), 'Content script "world" must be "ISOLATED" or "MAIN"');
+      }
+      for (const key of ['all_frames', 'match_about_blank', 'match_origin_as_fallback']) {
+        if (script[key] !== undefined && typeof script[key] !== 'boolean') {
+          this.error(ctx, at(key), `Content script "${key}" must be a boolean`);
+        }
+      }
     }
+  }
+
+  private checkWebAccessibleResources(resources: unknown, ctx: Context): void {
+    if (resources === undefined) return;
+    if (!Array.isArray(resources)) {
+      this.error(ctx, '/web_accessible_resources', 'Manifest "web_accessible_resources" must be an array');
+      return;
+    }
+    if (ctx.version === 2) {
+      const message = 'Manifest V2 lists web accessible resources as paths';
+      this.checkStringArray(resources, '/web_accessible_resources', ctx, message);
+      return;
+    }
+    if (ctx.version !== 3) return;
+
+    for (const [i, entry] of resources.entries()) {
+      const at = (...keys: string[]) => ManifestValidator.pointer('web_accessible_resources', i, ...keys);
+      if (!this.isObject(entry)) {
+        this.error(ctx, at(), 'Manifest V3 web accessible resources must be objects with "resources" and "matches"');
+        continue;
+      }
+
+      if (!Array.isArray(entry.resources) || entry.resources.length === 0) {
+        this.error(ctx, at('resources'), 'Web accessible resources need a non-empty "resources" array');
+      } else {
+        this.checkStringArray(entry.resources, at('resources'), ctx, 'Web accessible "resources" must be paths');
+      }
+      if (entry.matches !== undefined) {
+        this.checkMatchPatterns(entry.matches, at('matches'), ctx, 'Web accessible "matches" must be match patterns');
+      }
+      if (entry.extension_ids !== undefined) {
+        const message = 'Web accessible "extension_ids" must be strings';
+        this.checkStringArray(entry.extension_ids, at('extension_ids'), ctx, message);
+      }
+      if (entry.matches === undefined && entry.extension_ids === undefined) {
+        this.error(ctx, at(), 'Web accessible resources need "matches" or "extension_ids"');
+      }
+      if (entry.use_dynamic_url !== undefined && typeof entry.use_dynamic_url !== 'boolean') {
+        this.error(ctx, at('use_dynamic_url'), 'Web accessible "use_dynamic_url" must be a boolean');
+      }
+    }
+  }
 
-    if (manifest.permissions !== undefined) {
-      if (!Array.isArray(manifest.permissions) || !manifest.permissions.every(p => typeof p === 'string')) {
-        throw new ValidationError('Manifest "permissions" must be an array of strings');
+  private checkActions(manifest: Fields, ctx: Context): void {
+    if (ctx.version === 3) {
+      for (const key of ['browser_action', 'page_action']) {
+        if (manifest[key] !== undefined) {
+          this.error(ctx, ManifestValidator.pointer(key), `Manifest V3 replaces "${key}" with "action"`);
+        }
+      }
+    } else if (ctx.version === 2) {
+      if (manifest.action !== undefined) {
+        this.error(ctx, '/action', 'Manifest "action" requires Manifest V3; use "browser_action"');
+      }
+      if (manifest.browser_action !== undefined && manifest.page_action !== undefined) {
+        this.error(ctx, '/page_action', 'Manifest can have a "browser_action" or a "page_action", not both');
       }
     }
 
-    return manifest as ExtensionManifest;
+    for (const key of ACTION_KEYS) {
+      const action = manifest[key];
+      if (action === undefined) continue;
+      if (!this.isObject(action)) {
+        this.error(ctx, ManifestValidator.pointer(key), `Manifest "${key}" must be an object`);
+        continue;
+      }
+      for (const field of ['default_title', 'default_popup']) {
+        if (action[field] !== undefined && typeof action[field] !== 'string') {
+          this.error(ctx, ManifestValidator.pointer(key, field), `Action "${field}" must be a string`);
+        }
+      }
+      if (action.default_icon !== undefined && typeof action.default_icon !== 'string') {
+        this.checkIconMap(action.default_icon, ManifestValidator.pointer(key, 'default_icon'), ctx, false);
+      }
+    }
+  }
+
+  private checkContentSecurityPolicy(policy: unknown, ctx: Context): void {
+    if (policy === undefined || ctx.version === null) return;
+
+    if (ctx.version === 2) {
+      if (typeof policy !== 'string') {
+        this.error(ctx, '/content_security_policy', 'Manifest V2 "content_security_policy" must be a string');
+      } else {
+        this.checkScriptSources(policy, '/content_security_policy', 'warning', ctx);
+      }
+      return;
+    }
+
+    if (!this.isObject(policy)) {
+      const message = 'Manifest V3 "content_security_policy" must be an object with "extension_pages" and "sandbox"';
+      this.error(ctx, '/content_security_policy', message);
+      return;
+    }
+    for (const key of ['extension_pages', 'sandbox']) {
+      if (policy[key] !== undefined && typeof policy[key] !== 'string') {
+        this.error(ctx, ManifestValidator.pointer('content_security_policy', key), `Policy "${key}" must be a string`);
+      }
+    }
+    if (typeof policy.extension_pages === 'string') {
+      this.checkScriptSources(policy.extension_pages, '/content_security_policy/extension_pages', 'error', ctx);
+    }
+  }
+
+  /**
+   * Flags script sources that let extension pages run code the package doesn't ship:
+   * `unsafe-eval`, inline scripts and remote hosts. Manifest V3 rejects them outright.
+   */
+  private checkScriptSources(policy: string, pointer: string, severity: ManifestIssue['severity'], ctx: Context): void {
+    const directives = policy.split(';').map(directive => directive.trim().split(/\s+/));
+    const scriptSrc = directives.find(([name]) => name?.toLowerCase() === 'script-src');
+    for (const source of scriptSrc?.slice(1) ?? []) {
+      const lowered = source.toLowerCase();
+      if (MV3_SCRIPT_SOURCES.includes(lowered) || LOCAL_SOURCE.test(lowered)) continue;
+      if (ctx.version === 2 && lowered === "'wasm-eval'") continue;
+      this.report(ctx, severity, pointer, `Content security policy allows script source ${source}`);
+    }
+  }
+
+  /**
+   * Checks an icon map: sizes in pixels as keys and file paths as values.
+   */
+  private checkIconMap(icons: unknown, pointer: string, ctx: Context, wantLargest: boolean): void {
+    if (!this.isObject(icons)) {
+      this.error(ctx, pointer, 'Icons must be an object mapping sizes to file paths');
+      return;
+    }
+
+    for (const [size, path] of Object.entries(icons)) {
+      if (!/^[1-9]\d*$/.test(size)) {
+        this.error(ctx, `${pointer}${ManifestValidator.pointer(size)}`, 'Icon sizes must be positive integers');
+      } else if (typeof path !== 'string' || !path) {
+        this.error(ctx, `${pointer}${ManifestValidator.pointer(size)}`, 'Icon must be a file path');
+      }
+    }
+    if (wantLargest && ctx.target === 'chrome' && icons['128'] === undefined) {
+      this.warn(ctx, pointer, 'Icons have no 128px size, which Chrome shows on install and in the Web Store');
+    }
+  }
+
+  private checkGeckoSettings(manifest: Fields, ctx: Context): void {
+    for (const key of ['browser_specific_settings', 'applications']) {
+      const settings = manifest[key];
+      if (settings === undefined) continue;
+      if (!this.isObject(settings)) {
+        this.error(ctx, ManifestValidator.pointer(key), `Manifest "${key}" must be an object`);
+        continue;
+      }
+      const gecko = settings.gecko;
+      if (!this.isObject(gecko) || gecko.id === undefined) continue;
+      if (typeof gecko.id !== 'string' || !gecko.id) {
+        const message = `Manifest "${key}.gecko.id" must be a non-empty string`;
+        this.error(ctx, ManifestValidator.pointer(key, 'gecko', 'id'), message);
+      }
+    }
+  }
+
+  /**
+   * Reports an error at `pointer` unless `value` is an array of strings, and an error
+   * per non-string item. Returns whether the value was an array.
+   */
+  private checkStringArray(value: unknown, pointer: string, ctx: Context, message: string): boolean {
+    if (!Array.isArray(value)) {
+      this.error(ctx, pointer, message);
+      return false;
+    }
+    for (const [i, item] of value.entries()) {
+      if (typeof item !== 'string') this.error(ctx, `${pointer}/${i}`, message);
+    }
+    return true;
+  }
+
+  private checkMatchPatterns(value: unknown, pointer: string, ctx: Context, message: string): void {
+    if (!this.checkStringArray(value, pointer, ctx, message)) return;
+    for (const [i, pattern] of (value as unknown[]).entries()) {
+      if (typeof pattern === 'string' && !this.isMatchPattern(pattern)) {
+        this.error(ctx, `${pointer}/${i}`, `Invalid match pattern: ${pattern}`);
+      }
+    }
+  }
+
+  /**
+   * Checks `<scheme>://<host><path>` match patterns, where the host is `*`, `*.` and a
+   * domain, or a domain, and is empty only for `file` URLs.
+   */
+  private isMatchPattern(pattern: string): boolean {
+    if (pattern === '<all_urls>') return true;
+    const match = /^(\*|https?|wss?|ftp|file|urn):\/\/([^/]*)(\/.*)$/.exec(pattern);
+    if (!match) return false;
+    const [, scheme, host = ''] = match;
+    if (scheme === 'file') return true;
+    return host === '*' || /^(\*\.)?[^*]+$/.test(host);
+  }
+
+  private looksLikeHostPattern(permission: string): boolean {
+    return permission === '<all_urls>' || permission.includes('://');
+  }
+
+  /**
+   * Chrome's version format: one to four integers from 0 to 65535, without leading zeros.
+   */
+  private isVersion(version: string): boolean {
+    if (!/^(0|[1-9]\d*)(\.(0|[1-9]\d*)){0,3}$/.test(version)) return false;
+    return version.split('.').every(part => Number(part) <= 65535);
+  }
+
+  private isHttpUrl(value: unknown): boolean {
+    if (typeof value !== 'string' || !URL.canParse(value)) return false;
+    const protocol = new URL(value).protocol;
+    return protocol === 'http:' || protocol === 'https:';
+  }
+
+  private isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private error(ctx: Context, pointer: string, message: string): void {
+    this.report(ctx, 'error', pointer, message);
+  }
+
+  private warn(ctx: Context, pointer: string, message: string): void {
+    this.report(ctx, 'warning', pointer, message);
+  }
+
+  private report(ctx: Context, severity: ManifestIssue['severity'], pointer: string, message: string): void {
+    ctx.issues.push({ severity, pointer, message });
   }
 }
@@ -0,0 +1,85 @@
+// src/validators/zip.ts
+
+import { SecurityError } from '../errors';
+import { type ZipEntry } from '../types';
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_STRONG_ENCRYPTION = 0x0040;
+const HOST_UNIX = 3;
+const UNIX_FILE_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+export class ZipValidator {
+  constructor (private readonly maxEntryExtractionRatio: number) {}
+
+  /**
+   * Checks every entry individually. A single bad entry rejects the whole archive.
+   */
+  validateEntries(entries: readonly ZipEntry[]): void {
+    const seen = new Map<string, string>();
+
+    for (const entry of entries) {
+      this.validateName(entry.name);
+
+      if (entry.flags & (FLAG_ENCRYPTED | FLAG_STRONG_ENCRYPTION)) {
+        throw new SecurityError(`ZIP entry "${entry.name}" is encrypted`);
+      }
+
+      if (this.isSymlink(entry)) {
+        throw new SecurityError(`ZIP entry "${entry.name}" is a symbolic link`);
+      }
+
+      const ratio = entry.uncompressedSize / Math.max(entry.compressedSize, 1);
+      if (ratio > this.maxEntryExtractionRatio) {
+        throw new SecurityError(
+          `ZIP entry "${entry.name}" has a suspicious compression ratio (${ratio.toFixed(1)}:1). Possible ZIP bomb.`
+        );
+      }
+
+      // Case-insensitive filesystems would merge these into one file
+      const key = entry.name.replace(/\/+$/, '').toLowerCase();
+      const previous = seen.get(key);
+      if (previous !== undefined) {
+        throw new SecurityError(this.collision(previous, entry.name));
+      }
+      seen.set(key, entry.name);
+    }
+  }
+
+  /**
+   * Describes two entries that would land on the same path.
+   */
+  private collision(previous: string, name: string): string {
+    if (previous === name) {
+      return `Duplicate ZIP entry "${name}"`;
+    }
+    if (previous.endsWith('/') !== name.endsWith('/')) {
+      const [file, directory] = name.endsWith('/') ? [previous, name] : [name, previous];
+      return `ZIP entry "${file}" conflicts with directory "${directory}"`;
+    }
+    return `ZIP entries "${previous}" and "${name}" differ only in case`;
+  }
+
+  /**
+   * Rejects names that could escape the output directory (zip-slip).
+   */
+  private validateName(name: string): void {
+    if (!name || name.includes('\0')) {
+      throw new SecurityError(`ZIP entry "${name}" has an invalid name`);
+    }
+
+    if (name.startsWith('/') || name.startsWith('\\') || /^[a-zA-Z]:/.test(name)) {
+      throw new SecurityError(`ZIP entry "${name}" uses an absolute path`);
+    }
+
+    if (name.split(/[/\\]/).includes('..')) {
+      throw new SecurityError(`ZIP entry "${name}" contains a parent directory reference`);
+    }
+  }
+
+  private isSymlink(entry: ZipEntry): boolean {
+    const host = entry.versionMadeBy >> 8;
+    const mode = entry.externalAttributes >>> 16;
+    return host === HOST_UNIX && (mode & UNIX_FILE_TYPE_MASK) === UNIX_SYMLINK;
+  }
+}
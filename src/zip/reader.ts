@@ -0,0 +1,346 @@
+// src/zip/reader.ts
+
+import { crc32, inflateRawSync } from 'node:zlib';
+import { ZIP_METHOD_DEFLATED, ZIP_METHOD_STORED } from '../config/constants';
+import { CRXError, ExtractionError, SecurityError } from '../errors';
+import { type ZipEntry, type ZipInfo } from '../types';
+import { type ByteSource, MemorySource } from './source';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_LOCATOR_SIZE = 20;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_EOCD_SIZE = 56;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const LOCAL_HEADER_SIZE = 30;
+const MAX_COMMENT_SIZE = 0xffff;
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+const FLAG_UTF8 = 0x0800;
+// Small enough that one chunk of a lying deflate stream can't inflate to much
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * In-process ZIP reader: parses the central directory (including ZIP64 records)
+ * and inflates individual entries on demand.
+ */
+export class ZipReader {
+  private constructor (private readonly source: ByteSource, readonly entries: readonly ZipEntry[]) {}
+
+  /**
+   * Opens an archive and reads its central directory.
+   */
+  static async open(input: ByteSource | Uint8Array): Promise<ZipReader> {
+    const source = input instanceof Uint8Array ? new MemorySource(input) : input;
+    const directory = await this.readEndOfCentralDirectory(source);
+    const entries = await this.readCentralDirectory(source, directory);
+    return new ZipReader(source, entries);
+  }
+
+  /**
+   * Aggregate totals used by the ZIP bomb checks.
+   */
+  get info(): ZipInfo {
+    return {
+      fileCount: this.entries.length,
+      uncompressedSize: this.entries.reduce((total, entry) => total + entry.uncompressedSize, 0),
+      compressedSize: this.source.size
+    };
+  }
+
+  /**
+   * Reads and decompresses an entry, verifying its size and CRC-32.
+   */
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    const dataOffset = await this.locateData(entry);
+    const compressed = await this.source.read(dataOffset, entry.compressedSize);
+    const data = this.decompress(entry, compressed);
+
+    if (data.length !== entry.uncompressedSize) {
+      throw new ExtractionError(`Entry "${entry.name}" size does not match the central directory`);
+    }
+    if (crc32(data) !== entry.crc32) {
+      throw new ExtractionError(`CRC-32 mismatch for entry "${entry.name}"`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Streams an entry's decompressed contents in chunks so large entries are never
+   * held in memory whole. Size and CRC-32 are checked as data flows, and a mismatch
+   * throws partway through: callers must discard whatever they already wrote.
+   */
+  async *stream(entry: ZipEntry): AsyncGenerator<Uint8Array> {
+    const dataOffset = await this.locateData(entry);
+    const compressed = this.readRange(dataOffset, entry.compressedSize);
+    let chunks: AsyncIterable<Uint8Array> = compressed;
+
+    switch (entry.compressionMethod) {
+      case ZIP_METHOD_STORED:
+        break;
+      case ZIP_METHOD_DEFLATED: {
+        const input = new ReadableStream<Uint8Array>({
+          async pull(controller) {
+            const next = await compressed.next();
+            if (next.done) {
+              controller.close();
+            } else {
+              controller.enqueue(next.value);
+            }
+          }
+        });
+        chunks = input.pipeThrough(new DecompressionStream('deflate-raw'));
+        break;
+      }
+      default:
+        throw new ExtractionError(
+          `Unsupported compression method ${entry.compressionMethod} for entry "${entry.name}"`
+        );
+    }
+
+    let size = 0;
+    let crc = 0;
+    try {
+      for await (const chunk of chunks) {
+        size += chunk.length;
+        if (size > entry.uncompressedSize) {
+          throw new SecurityError(`Entry "${entry.name}" inflates beyond its declared size`);
+        }
+        crc = crc32(chunk, crc);
+        yield chunk;
+      }
+    } catch (error) {
+      if (error instanceof CRXError) throw error;
+      throw new ExtractionError(`Failed to inflate entry "${entry.name}"`);
+    }
+
+    if (size !== entry.uncompressedSize) {
+      throw new ExtractionError(`Entry "${entry.name}" size does not match the central directory`);
+    }
+    if (crc !== entry.crc32) {
+      throw new ExtractionError(`CRC-32 mismatch for entry "${entry.name}"`);
+    }
+  }
+
+  /**
+   * Checks the entry's local header and returns where its data starts.
+   */
+  private async locateData(entry: ZipEntry): Promise<number> {
+    const local = await this.source.read(entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+    if (local.length < LOCAL_HEADER_SIZE || view(local).getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ExtractionError(`Invalid local header for entry "${entry.name}"`);
+    }
+
+    const nameLength = view(local).getUint16(26, true);
+    const extraLength = view(local).getUint16(28, true);
+    const dataOffset = entry.localHeaderOffset + LOCAL_HEADER_SIZE + nameLength + extraLength;
+    if (dataOffset + entry.compressedSize > this.source.size) {
+      throw new ExtractionError(`Entry "${entry.name}" extends beyond the end of the archive`);
+    }
+    return dataOffset;
+  }
+
+  private async *readRange(offset: number, length: number): AsyncGenerator<Uint8Array> {
+    for (let position = 0;position < length;position += STREAM_CHUNK_SIZE) {
+      yield await this.source.read(offset + position, Math.min(STREAM_CHUNK_SIZE, length - position));
+    }
+  }
+
+  private decompress(entry: ZipEntry, compressed: Uint8Array): Uint8Array {
+    switch (entry.compressionMethod) {
+      case ZIP_METHOD_STORED:
+        return compressed;
+      case ZIP_METHOD_DEFLATED:
+        try {
+          // Cap the output at the declared size so a lying header can't balloon memory
+          return inflateRawSync(compressed, { maxOutputLength: Math.max(entry.uncompressedSize, 1) });
+        } catch (error) {
+          if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new SecurityError(`Entry "${entry.name}" inflates beyond its declared size`);
+          }
+          throw new ExtractionError(`Failed to inflate entry "${entry.name}"`);
+        }
+      default:
+        throw new ExtractionError(
+          `Unsupported compression method ${entry.compressionMethod} for entry "${entry.name}"`
+        );
+    }
+  }
+
+  private static async readEndOfCentralDirectory(
+    source: ByteSource
+  ): Promise<{ entryCount: number, size: number, offset: number }> {
+    const tailLength = Math.min(source.size, EOCD_SIZE + MAX_COMMENT_SIZE);
+    const tailStart = source.size - tailLength;
+    const tail = await source.read(tailStart, tailLength);
+    const tailView = view(tail);
+
+    let eocd = -1;
+    for (let i = tail.length - EOCD_SIZE;i >= 0;i--) {
+      if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new ExtractionError('Not a ZIP archive: end of central directory not found');
+    }
+
+    let entryCount = tailView.getUint16(eocd + 10, true);
+    let size = tailView.getUint32(eocd + 12, true);
+    let offset = tailView.getUint32(eocd + 16, true);
+
+    if (entryCount === UINT16_MAX || size === UINT32_MAX || offset === UINT32_MAX) {
+      const zip64 = await this.readZip64EndOfCentralDirectory(source, tailStart + eocd);
+      entryCount = zip64.entryCount;
+      size = zip64.size;
+      offset = zip64.offset;
+    }
+
+    if (offset + size > source.size) {
+      throw new ExtractionError('Central directory extends beyond the end of the archive');
+    }
+
+    return { entryCount, size, offset };
+  }
+
+  private static async readZip64EndOfCentralDirectory(
+    source: ByteSource,
+    eocdOffset: number
+  ): Promise<{ entryCount: number, size: number, offset: number }> {
+    const locatorOffset = eocdOffset - ZIP64_EOCD_LOCATOR_SIZE;
+    const locator = locatorOffset >= 0 ? await source.read(locatorOffset, ZIP64_EOCD_LOCATOR_SIZE) : new Uint8Array();
+    const complete = locator.length === ZIP64_EOCD_LOCATOR_SIZE;
+    if (!complete || view(locator).getUint32(0, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      throw new ExtractionError('ZIP64 end of central directory locator not found');
+    }
+
+    const recordOffset = readUInt64(view(locator), 8);
+    const record = await source.read(recordOffset, ZIP64_EOCD_SIZE);
+    if (record.length < ZIP64_EOCD_SIZE || view(record).getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new ExtractionError('Invalid ZIP64 end of central directory record');
+    }
+
+    return {
+      entryCount: readUInt64(view(record), 32),
+      size: readUInt64(view(record), 40),
+      offset: readUInt64(view(record), 48)
+    };
+  }
+
+  private static async readCentralDirectory(
+    source: ByteSource,
+    directory: { entryCount: number, size: number, offset: number }
+  ): Promise<ZipEntry[]> {
+    const data = await source.read(directory.offset, directory.size);
+    const dataView = view(data);
+    const entries: ZipEntry[] = [];
+    let position = 0;
+
+    for (let i = 0;i < directory.entryCount;i++) {
+      const truncated = position + CENTRAL_HEADER_SIZE > data.length;
+      if (truncated || dataView.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new ExtractionError(`Invalid central directory header for entry #${i + 1}`);
+      }
+
+      const flags = dataView.getUint16(position + 8, true);
+      const nameLength = dataView.getUint16(position + 28, true);
+      const extraLength = dataView.getUint16(position + 30, true);
+      const commentLength = dataView.getUint16(position + 32, true);
+      const next = position + CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+      if (next > data.length) {
+        throw new ExtractionError(`Central directory entry #${i + 1} is truncated`);
+      }
+
+      const nameStart = position + CENTRAL_HEADER_SIZE;
+      const extraStart = nameStart + nameLength;
+      const name = new TextDecoder(flags & FLAG_UTF8 ? 'utf-8' : 'windows-1252').decode(data.subarray(nameStart, extraStart));
+      const extra = data.subarray(extraStart, extraStart + extraLength);
+
+      let compressedSize = dataView.getUint32(position + 20, true);
+      let uncompressedSize = dataView.getUint32(position + 24, true);
+      let localHeaderOffset = dataView.getUint32(position + 42, true);
+
+      // ZIP64 extended information only carries the fields whose 32-bit value is saturated
+      if (uncompressedSize === UINT32_MAX || compressedSize === UINT32_MAX || localHeaderOffset === UINT32_MAX) {
+        const zip64 = findExtraField(extra, ZIP64_EXTRA_FIELD_ID);
+        if (!zip64) {
+          throw new ExtractionError(`Entry "${name}" is missing its ZIP64 extended information`);
+        }
+        const zip64View = view(zip64);
+        let cursor = 0;
+        const take = (): number => {
+          if (cursor + 8 > zip64.length) {
+            throw new ExtractionError(`Entry "${name}" has truncated ZIP64 extended information`);
+          }
+          const value = readUInt64(zip64View, cursor);
+          cursor += 8;
+          return value;
+        };
+        if (uncompressedSize === UINT32_MAX) uncompressedSize = take();
+        if (compressedSize === UINT32_MAX) compressedSize = take();
+        if (localHeaderOffset === UINT32_MAX) localHeaderOffset = take();
+      }
+
+      entries.push({
+        name,
+        compressionMethod: dataView.getUint16(position + 10, true),
+        compressedSize,
+        uncompressedSize,
+        crc32: dataView.getUint32(position + 16, true),
+        localHeaderOffset,
+        flags,
+        versionMadeBy: dataView.getUint16(position + 4, true),
+        externalAttributes: dataView.getUint32(position + 38, true),
+        isDirectory: name.endsWith('/'),
+        lastModified: dosDateTime(dataView.getUint16(position + 14, true), dataView.getUint16(position + 12, true))
+      });
+
+      position = next;
+    }
+
+    return entries;
+  }
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUInt64(dataView: DataView, offset: number): number {
+  const value = dataView.getUint32(offset, true) + dataView.getUint32(offset + 4, true) * 0x100000000;
+  if (!Number.isSafeInteger(value)) {
+    throw new ExtractionError('ZIP64 value exceeds supported range');
+  }
+  return value;
+}
+
+function findExtraField(extra: Uint8Array, id: number): Uint8Array | null {
+  const extraView = view(extra);
+  let offset = 0;
+  while (offset + 4 <= extra.length) {
+    const fieldId = extraView.getUint16(offset, true);
+    const size = extraView.getUint16(offset + 2, true);
+    if (fieldId === id) {
+      return extra.subarray(offset + 4, Math.min(offset + 4 + size, extra.length));
+    }
+    offset += 4 + size;
+  }
+  return null;
+}
+
+function dosDateTime(date: number, time: number): Date {
+  return new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
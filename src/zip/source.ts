@@ -0,0 +1,43 @@
+// src/zip/source.ts
+
+import { type BunFile } from 'bun';
+
+/**
+ * Random-access byte source the ZIP reader pulls from
+ */
+export interface ByteSource {
+  readonly size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+/**
+ * Byte source backed by an in-memory buffer
+ */
+export class MemorySource implements ByteSource {
+  constructor (private readonly buffer: Uint8Array) {}
+
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    return this.buffer.subarray(offset, offset + length);
+  }
+}
+
+/**
+ * Byte source backed by a `Bun.file()`, or a slice of one. Bytes are read
+ * from disk on demand, so the whole file is never held in memory.
+ * Slices should be given an explicit end so their `size` is exact.
+ */
+export class FileSource implements ByteSource {
+  constructor (private readonly file: BunFile) {}
+
+  get size(): number {
+    return this.file.size;
+  }
+
+  async read(offset: number, length: number): Promise<Uint8Array> {
+    return new Uint8Array(await this.file.slice(offset, offset + length).arrayBuffer());
+  }
+}
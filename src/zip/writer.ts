@@ -0,0 +1,141 @@
+// src/zip/writer.ts
+
+import { deflateRawSync } from 'node:zlib';
+import { ZIP_METHOD_DEFLATED, ZIP_METHOD_STORED } from '../config/constants';
+import { ValidationError } from '../errors';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const VERSION_NEEDED = 20;
+const VERSION_MADE_BY_UNIX = (3 << 8) | VERSION_NEEDED;
+const FLAG_UTF8 = 0x0800;
+const UNIX_REGULAR_FILE = 0o100644;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+interface PendingEntry {
+  readonly name: Uint8Array;
+  readonly method: number;
+  readonly crc32: number;
+  readonly compressedSize: number;
+  readonly uncompressedSize: number;
+  readonly offset: number;
+}
+
+/**
+ * Builds ZIP archives in memory, or streams them to `sink` as entries are added. Entries
+ * are deflated unless that doesn't save space. Archives that would need ZIP64 are refused;
+ * extension packages never get that large.
+ */
+export class ZipWriter {
+  private readonly chunks: Uint8Array[] = [];
+  private readonly entries: PendingEntry[] = [];
+  private readonly names = new Set<string>();
+  private offset = 0;
+
+  constructor (private readonly sink?: (chunk: Uint8Array) => void) {}
+
+  /**
+   * Adds a regular file. Names use forward slashes and must be unique.
+   */
+  add(name: string, data: Uint8Array): this {
+    if (this.names.has(name)) {
+      throw new ValidationError(`Duplicate ZIP entry: ${name}`);
+    }
+    if (this.entries.length >= MAX_ENTRIES) {
+      throw new ValidationError('Too many files for a ZIP archive');
+    }
+
+    const deflated = deflateRawSync(data);
+    const method = deflated.length < data.length ? ZIP_METHOD_DEFLATED : ZIP_METHOD_STORED;
+    const payload = method === ZIP_METHOD_DEFLATED ? deflated : data;
+
+    if (this.offset + payload.length > MAX_SIZE) {
+      throw new ValidationError('Archive exceeds the 4GB ZIP limit');
+    }
+
+    const entry: PendingEntry = {
+      name: new TextEncoder().encode(name),
+      method,
+      crc32: Bun.hash.crc32(data),
+      compressedSize: payload.length,
+      uncompressedSize: data.length,
+      offset: this.offset
+    };
+
+    const header = new Uint8Array(30 + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, VERSION_NEEDED, true);
+    view.setUint16(6, FLAG_UTF8, true);
+    view.setUint16(8, entry.method, true);
+    view.setUint16(10, 0, true); // DOS time 00:00
+    view.setUint16(12, 0x21, true); // DOS date 1980-01-01, keeps output reproducible
+    view.setUint32(14, entry.crc32, true);
+    view.setUint32(18, entry.compressedSize, true);
+    view.setUint32(22, entry.uncompressedSize, true);
+    view.setUint16(26, entry.name.length, true);
+    view.setUint16(28, 0, true);
+    header.set(entry.name, 30);
+
+    this.push(header);
+    this.push(payload);
+    this.entries.push(entry);
+    this.names.add(name);
+    return this;
+  }
+
+  /**
+   * Writes the central directory and returns the finished archive; empty when streaming to a sink.
+   */
+  finish(): Uint8Array {
+    const centralOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new Uint8Array(46 + entry.name.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, VERSION_MADE_BY_UNIX, true);
+      view.setUint16(6, VERSION_NEEDED, true);
+      view.setUint16(8, FLAG_UTF8, true);
+      view.setUint16(10, entry.method, true);
+      view.setUint16(12, 0, true);
+      view.setUint16(14, 0x21, true);
+      view.setUint32(16, entry.crc32, true);
+      view.setUint32(20, entry.compressedSize, true);
+      view.setUint32(24, entry.uncompressedSize, true);
+      view.setUint16(28, entry.name.length, true);
+      view.setUint32(38, (UNIX_REGULAR_FILE << 16) >>> 0, true);
+      view.setUint32(42, entry.offset, true);
+      header.set(entry.name, 46);
+      this.push(header);
+    }
+
+    const eocd = new Uint8Array(22);
+    const view = new DataView(eocd.buffer);
+    view.setUint32(0, EOCD_SIGNATURE, true);
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, this.offset - centralOffset, true);
+    view.setUint32(16, centralOffset, true);
+    this.push(eocd);
+
+    const result = new Uint8Array(this.sink ? 0 : this.offset);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, position);
+      position += chunk.length;
+    }
+    return result;
+  }
+
+  private push(chunk: Uint8Array): void {
+    if (this.sink) {
+      this.sink(chunk);
+    } else {
+      this.chunks.push(chunk);
+    }
+    this.offset += chunk.length;
+  }
+}
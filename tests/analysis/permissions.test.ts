@@ -0,0 +1,112 @@
+// tests/analysis/permissions.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { PermissionAnalyzer } from '../../src/analysis/permissions';
+import { type ExtensionManifest } from '../../src/types';
+
+function manifest(fields: Record<string, unknown>): ExtensionManifest {
+  return { name: 'Test', version: '1.0', manifest_version: 3, ...fields };
+}
+
+describe('PermissionAnalyzer', () => {
+  test('should rate API permissions and sort the riskiest first', () => {
+    const report = PermissionAnalyzer.analyze(manifest({ permissions: ['storage', 'tabs', 'cookies', 'debugger'] }));
+
+    expect(report.items.map(item => [item.value, item.tier])).toEqual([
+      ['debugger', 'critical'],
+      ['cookies', 'high'],
+      ['tabs', 'medium'],
+      ['storage', 'low']
+    ]);
+    expect(report.tier).toBe('critical');
+    expect(report.score).toBe(30 + 15 + 5 + 1);
+    expect(report.items[0]?.explanation).toContain('DevTools protocol');
+  });
+
+  test('should rate host permissions and content script matches by reach', () => {
+    const report = PermissionAnalyzer.analyze(manifest({
+      host_permissions: ['<all_urls>', 'https://*.example.com/*', 'file:///*'],
+      content_scripts: [{ matches: ['*://*/*'], js: ['content.js'] }, { matches: ['https://mail.example.com/*'] }, null]
+    }));
+
+    expect(report.items).toEqual([
+      {
+        source: 'host_permissions',
+        value: '<all_urls>',
+        tier: 'critical',
+        explanation: 'Can read and change data on every website, and in local files'
+      },
+      {
+        source: 'content_scripts',
+        value: '*://*/*',
+        tier: 'critical',
+        explanation: 'Runs its scripts in pages on every website'
+      },
+      {
+        source: 'host_permissions',
+        value: 'file:///*',
+        tier: 'high',
+        explanation: 'Can read local files opened in the browser'
+      },
+      {
+        source: 'host_permissions',
+        value: 'https://*.example.com/*',
+        tier: 'medium',
+        explanation: 'Can read and change data on example.com and all its subdomains'
+      },
+      {
+        source: 'content_scripts',
+        value: 'https://mail.example.com/*',
+        tier: 'medium',
+        explanation: 'Runs its scripts in pages on mail.example.com'
+      }
+    ]);
+  });
+
+  test('should treat host patterns in Manifest V2 permissions as host access', () => {
+    const report = PermissionAnalyzer.analyze(manifest({
+      manifest_version: 2,
+      permissions: ['webRequest', 'webRequestBlocking', 'http://*/*']
+    }));
+
+    expect(report.items.find(item => item.value === 'http://*/*')).toMatchObject({
+      source: 'permissions',
+      tier: 'critical',
+      explanation: 'Can read and change data on every website'
+    });
+    expect(report.score).toBe(30 + 15 + 15);
+  });
+
+  test('should rate optional items one tier lower', () => {
+    const report = PermissionAnalyzer.analyze(manifest({
+      optional_permissions: ['nativeMessaging', 'storage'],
+      optional_host_permissions: ['<all_urls>']
+    }));
+
+    expect(report.items.map(item => [item.value, item.tier])).toEqual([
+      ['nativeMessaging', 'high'],
+      ['<all_urls>', 'high'],
+      ['storage', 'low']
+    ]);
+    expect(report.items[0]?.explanation).toEndWith('once the user grants it');
+  });
+
+  test('should flag unknown permissions and patterns, and cap the score', () => {
+    const report = PermissionAnalyzer.analyze(manifest({
+      permissions: ['constructor', 'debugger', 'proxy', 'nativeMessaging', 'debugger', 42],
+      host_permissions: ['not a pattern']
+    }));
+
+    expect(report.items).toHaveLength(5);
+    expect(report.items.find(item => item.value === 'constructor')).toMatchObject({
+      tier: 'medium',
+      explanation: 'Not a known permission; check what it grants'
+    });
+    expect(report.items.find(item => item.value === 'not a pattern')?.tier).toBe('medium');
+    expect(report.score).toBe(100);
+  });
+
+  test('should report a manifest that requests nothing as low risk', () => {
+    expect(PermissionAnalyzer.analyze(manifest({}))).toEqual({ score: 0, tier: 'low', items: [] });
+  });
+});
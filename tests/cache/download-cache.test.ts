@@ -0,0 +1,120 @@
+// tests/cache/download-cache.test.ts
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DownloadCache } from '../../src/cache/download-cache';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { SecurityError } from '../../src/errors';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+const OTHER_ID = 'cjpalhdlnbpafiamejdnhcphjbkeiagm';
+const PACKAGE = new TextEncoder().encode('Cr24 package bytes');
+
+describe('DownloadCache', () => {
+  let dir: string;
+  let cache: DownloadCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'crx-cache-'));
+    cache = new DownloadCache({
+      ...DEFAULT_CONFIG,
+      allowedOutputPaths: [dir],
+      extensionsDir: join(dir, '_extensions'),
+      logLevel: LogLevel.ERROR
+    });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const record = (id: string, version = '1.0.0') => ({ id, version, etag: '"v1"', lastModified: null });
+
+  test('should store packages under their SHA-256 and find them by extension ID', async () => {
+    const stored = await cache.store(record(ID), PACKAGE);
+
+    const entry = await cache.lookup(ID);
+    expect(entry).toEqual(stored);
+    expect(entry).toMatchObject({ id: ID, version: '1.0.0', etag: '"v1"', size: PACKAGE.length });
+    expect(entry?.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(new Uint8Array(await cache.file(stored).arrayBuffer())).toEqual(PACKAGE);
+    expect(await readdir(join(dir, '_extensions', '.cache', 'packages'))).toEqual([`${stored.sha256}.crx`]);
+  });
+
+  test('should keep one copy of identical packages', async () => {
+    await cache.store(record(ID), PACKAGE);
+    await cache.store(record(OTHER_ID), PACKAGE);
+
+    expect(await readdir(join(dir, '_extensions', '.cache', 'packages'))).toHaveLength(1);
+    expect((await cache.lookup(OTHER_ID))?.id).toBe(OTHER_ID);
+  });
+
+  test('should miss when the package file is gone or the index is corrupt', async () => {
+    expect(await cache.lookup(ID)).toBeNull();
+
+    const entry = await cache.store(record(ID), PACKAGE);
+    await rm(cache.file(entry).name as string);
+    expect(await cache.lookup(ID)).toBeNull();
+
+    const entryPath = join(dir, '_extensions', '.cache', 'index', ID, `1.0.0_${entry.sha256}.json`);
+    await Bun.write(entryPath, '{"id":"x","sha256":"../../etc"}');
+    expect(await cache.lookup(ID)).toBeNull();
+  });
+
+  test('should keep an entry per version and find the latest', async () => {
+    const first = await cache.store(record(ID, '1.0.0'), PACKAGE);
+    await Bun.sleep(5);
+    const second = await cache.store(record(ID, '1.1.0'), new TextEncoder().encode('Cr24 newer bytes'));
+
+    expect(await cache.lookup(ID)).toEqual(second);
+    expect(await readdir(join(dir, '_extensions', '.cache', 'index', ID))).toHaveLength(2);
+
+    // Confirming the older copy current makes it the cached copy again
+    await Bun.sleep(5);
+    await cache.touch(first);
+    expect((await cache.lookup(ID))?.version).toBe('1.0.0');
+  });
+
+  test('should not lose entries stored concurrently', async () => {
+    const versions = ['1.0.0', '1.1.0', '1.2.0', '1.3.0'];
+    await Promise.all(versions.map(version => cache.store(record(ID, version), PACKAGE)));
+
+    const names = await readdir(join(dir, '_extensions', '.cache', 'index', ID));
+    expect(names.sort().map(name => name.split('_')[0])).toEqual(versions);
+  });
+
+  test('should update the check time when touched', async () => {
+    const entry = await cache.store(record(ID), PACKAGE);
+    await Bun.sleep(5);
+
+    await cache.touch(entry);
+
+    const touched = await cache.lookup(ID);
+    expect(touched?.storedAt).toBe(entry.storedAt);
+    expect(Date.parse(touched?.checkedAt as string)).toBeGreaterThan(Date.parse(entry.checkedAt));
+  });
+
+  test('should prune superseded packages and expired entries', async () => {
+    await cache.store(record(ID, '1.0.0'), PACKAGE);
+    await Bun.sleep(5);
+    const latest = await cache.store(record(ID, '1.1.0'), new TextEncoder().encode('Cr24 newer bytes'));
+
+    const superseded = await cache.prune();
+    expect(superseded).toEqual({ removedEntries: 1, removedPackages: 1, freedBytes: PACKAGE.length });
+    expect(await cache.lookup(ID)).toEqual(latest);
+
+    expect((await cache.prune(60 * 60 * 1000)).removedEntries).toBe(0);
+
+    const all = await cache.prune(0);
+    expect(all).toMatchObject({ removedEntries: 1, removedPackages: 1 });
+    expect(await cache.lookup(ID)).toBeNull();
+  });
+
+  test('should stay inside the allowed output paths', async () => {
+    const outside = new DownloadCache({ ...DEFAULT_CONFIG, allowedOutputPaths: [dir], cacheDir: '/tmp/elsewhere' });
+    await expect(outside.store(record(ID), PACKAGE)).rejects.toThrow(SecurityError);
+  });
+});
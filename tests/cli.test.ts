@@ -1,14 +1,42 @@
 // tests/cli.test.ts
 
-import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DownloadCache } from '../src/cache/download-cache';
 import { runCLI } from '../src/cli';
+import { EDGE_UPDATE_URL_BASE } from '../src/config/constants';
 import { CRXExtractor } from '../src/core/crx-extractor';
+import { CRXPacker } from '../src/core/crx-packer';
+import { ValidationError } from '../src/errors';
+import { UpdateClient } from '../src/update/client';
 
 describe('CLI', () => {
+  const result = {
+    outputDir: '/tmp/out',
+    packagePath: '/tmp/_extensions/test.crx',
+    format: 'crx',
+    header: null,
+    id: 'abcdefghijklmnopabcdefghijklmnop',
+    name: 'Test',
+    version: '1.0',
+    manifest: { name: 'Test', version: '1.0', manifest_version: 3 },
+    geckoId: null,
+    manifestIssues: [],
+    fileCount: 2,
+    packageSize: 2048,
+    compressedSize: 2000,
+    extractedSize: 4096,
+    timings: { loadMs: 1, verifyMs: 1, extractMs: 1, totalMs: 3 }
+  };
   let consoleLogSpy: any;
   let consoleErrorSpy: any;
   let processExitSpy: any;
   let extractorMock: any;
+  const originalExtract = CRXExtractor.prototype.extract;
+  const { log, error } = console;
+  const { exit } = process;
 
   beforeEach(() => {
     consoleLogSpy = mock(() => {});
@@ -27,6 +55,10 @@ describe('CLI', () => {
     consoleErrorSpy.mockRestore();
     processExitSpy.mockRestore();
     extractorMock.mockRestore();
+    CRXExtractor.prototype.extract = originalExtract;
+    console.log = log;
+    console.error = error;
+    process.exit = exit;
   });
 
   describe('help display', () => {
@@ -50,7 +82,7 @@ describe('CLI', () => {
 
   describe('argument parsing', () => {
     test('should parse input argument', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx']);
 
@@ -58,7 +90,7 @@ describe('CLI', () => {
     });
 
     test('should parse output directory', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx', './output']);
 
@@ -66,7 +98,7 @@ describe('CLI', () => {
     });
 
     test('should parse --debug flag', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx', '--debug']);
 
@@ -75,7 +107,7 @@ describe('CLI', () => {
     });
 
     test('should parse --quiet flag', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx', '--quiet']);
 
@@ -83,8 +115,165 @@ describe('CLI', () => {
       expect(extractorMock).toHaveBeenCalled();
     });
 
+    test('should pass update service flags to the config', async () => {
+      let config: any;
+      extractorMock.mockImplementation(function (this: any) {
+        config = this.config;
+        return Promise.resolve(result);
+      });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--os', 'mac', '--arch', 'arm64', '--chrome-version', '126.0']);
+
+      expect(config).toMatchObject({ os: 'mac', arch: 'arm64', prodVersion: '126.0' });
+    });
+
+    test('should reject an update flag without a value', async () => {
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--os']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --os requires a value');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(extractorMock).not.toHaveBeenCalled();
+    });
+
+    test('should pass --retries to the config', async () => {
+      let config: any;
+      extractorMock.mockImplementation(function (this: any) {
+        config = this.config;
+        return Promise.resolve(result);
+      });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--retries', '5']);
+      expect(config.retries).toBe(5);
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--retries', 'many']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --retries must be a non-negative integer');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    test('should pass download cache flags to the config', async () => {
+      let config: any;
+      extractorMock.mockImplementation(function (this: any) {
+        config = this.config;
+        return Promise.resolve(result);
+      });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--refresh', '--cache-dir', './cache']);
+      expect(config).toMatchObject({ cache: true, refreshCache: true, cacheDir: './cache' });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--no-cache']);
+      expect(config.cache).toBe(false);
+    });
+
+    test('should pass network flags to the config', async () => {
+      let config: any;
+      extractorMock.mockImplementation(function (this: any) {
+        config = this.config;
+        return Promise.resolve(result);
+      });
+
+      await runCLI([
+        'abcdefghijklmnopabcdefghijklmnop',
+        '--proxy', 'http://proxy.corp:3128',
+        '--header', 'Authorization: Bearer token',
+        '--header', 'X-Team:tools',
+        '--user-agent', 'crx-tool/1.0',
+        '--ca-file', './corp-ca.pem'
+      ]);
+      expect(config).toMatchObject({
+        proxy: 'http://proxy.corp:3128',
+        headers: { 'Authorization': 'Bearer token', 'X-Team': 'tools' },
+        userAgent: 'crx-tool/1.0',
+        caFile: './corp-ca.pem'
+      });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--header', 'no colon']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --header must look like "Name: value"');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    test('should take the input from --id, --url or --file', async () => {
+      let input: any;
+      extractorMock.mockImplementation(function (this: any) {
+        input = this.input;
+        return Promise.resolve(result);
+      });
+
+      await runCLI(['--file', 'abcdefghijklmnopabcdefghijklmnop', './output']);
+      expect(input).toEqual({ kind: 'local-file', path: 'abcdefghijklmnopabcdefghijklmnop' });
+      expect(extractorMock).toHaveBeenCalledWith('./output');
+
+      await runCLI(['--url', 'https://chromewebstore.google.com/detail/name/abcdefghijklmnopabcdefghijklmnop']);
+      expect(input).toMatchObject({ kind: 'webstore-url', id: 'abcdefghijklmnopabcdefghijklmnop' });
+
+      await runCLI(['--id', 'abcdefghijklmnopqrstuvwxyzabcdef']);
+      expect(consoleErrorSpy.mock.calls.at(-1)[0]).toContain('IDs are 32 letters from a to p');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+      expect(extractorMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should write the archive to stdout with --to-stdout', async () => {
+      const written: Uint8Array[] = [];
+      const writerSpy = spyOn(Bun.stdout, 'writer').mockReturnValue({
+        write: (chunk: Uint8Array) => written.push(chunk),
+        flush: () => Promise.resolve()
+      } as any);
+      const streamMock = mock(() => Promise.resolve(new Blob(['tar bytes']).stream()));
+      const originalStream = CRXExtractor.prototype.extractToStream;
+      CRXExtractor.prototype.extractToStream = streamMock as any;
+      try {
+        await runCLI(['test.crx', '--to-stdout=tar']);
+        expect(streamMock).toHaveBeenCalledWith('tar');
+        expect(new TextDecoder().decode(Buffer.concat(written))).toBe('tar bytes');
+        expect(extractorMock).not.toHaveBeenCalled();
+        expect(consoleLogSpy).not.toHaveBeenCalled();
+
+        await runCLI(['test.crx', '--to-stdout=gz']);
+        expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --to-stdout must be --to-stdout=tar or --to-stdout=zip');
+
+        await runCLI(['test.crx', './output', '--to-stdout=zip']);
+        expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --to-stdout writes no files; drop the output directory');
+        expect(streamMock).toHaveBeenCalledTimes(1);
+      } finally {
+        CRXExtractor.prototype.extractToStream = originalStream;
+        writerSpy.mockRestore();
+      }
+    });
+
+    test('should accept --flag=value like --flag value', async () => {
+      let config: any;
+      extractorMock.mockImplementation(function (this: any) {
+        config = this.config;
+        return Promise.resolve(result);
+      });
+
+      await runCLI(['abcdefghijklmnopabcdefghijklmnop', '--os=mac', '--header=X-Team: tools', '--retries=2']);
+
+      expect(config).toMatchObject({ os: 'mac', headers: { 'X-Team': 'tools' }, retries: 2 });
+    });
+
+    test('should ignore unknown flags', async () => {
+      extractorMock.mockResolvedValue(result);
+
+      await runCLI(['test.crx', './output', '--verbose', '--color=never']);
+
+      expect(extractorMock).toHaveBeenCalledWith('./output');
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      expect(processExitSpy).not.toHaveBeenCalled();
+    });
+
+    test('should reject values given to switches and missing values', async () => {
+      await runCLI(['test.crx', '--debug=yes']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --debug takes no value');
+
+      await runCLI(['test.crx', '--os=']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --os requires a value');
+
+      expect(processExitSpy).toHaveBeenCalledTimes(2);
+      expect(extractorMock).not.toHaveBeenCalled();
+    });
+
     test('should handle multiple arguments', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx', './output', '--debug']);
 
@@ -94,7 +283,6 @@ describe('CLI', () => {
 
   describe('error handling', () => {
     test('should handle CRXError', async () => {
-      const { ValidationError } = await import('../src/errors');
       extractorMock.mockRejectedValue(new ValidationError('Test error'));
 
       await runCLI(['test.crx']);
@@ -132,14 +320,442 @@ describe('CLI', () => {
     });
   });
 
+  describe('pack command', () => {
+    const originalPack = CRXPacker.prototype.pack;
+    let packMock: any;
+
+    beforeEach(() => {
+      packMock = mock(() => Promise.resolve({
+        crxPath: 'ext.crx',
+        extensionId: 'abcdefghijklmnopabcdefghijklmnop',
+        fileCount: 1,
+        keyPath: 'ext.pem',
+        keyGenerated: false
+      }));
+      CRXPacker.prototype.pack = packMock;
+    });
+
+    afterEach(() => {
+      CRXPacker.prototype.pack = originalPack;
+    });
+
+    test('should pass the key, output and algorithm to the packer', async () => {
+      await runCLI(['pack', './ext', '--key', 'ext.pem', '--output', 'out.crx', '--algorithm', 'ecdsa']);
+
+      expect(packMock).toHaveBeenCalledWith('./ext', { keyPath: 'ext.pem', outputPath: 'out.crx', algorithm: 'ecdsa' });
+      expect(consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n')).toContain('ID: abcdef');
+    });
+
+    test('should accept --flag=value like --flag value', async () => {
+      await runCLI(['pack', './ext', '--key=ext.pem', '--output=out.crx', '--algorithm=ecdsa']);
+
+      expect(packMock).toHaveBeenCalledWith('./ext', { keyPath: 'ext.pem', outputPath: 'out.crx', algorithm: 'ecdsa' });
+    });
+
+    test('should reject a flag without a value', async () => {
+      await runCLI(['pack', './ext', '--key']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --key requires a value');
+
+      await runCLI(['pack', './ext', '--output', '--key', 'ext.pem']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --output requires a value');
+
+      expect(processExitSpy).toHaveBeenCalledTimes(2);
+      expect(packMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('convert command', () => {
+    const originalConvert = CRXPacker.prototype.convert;
+    let convertMock: any;
+
+    beforeEach(() => {
+      convertMock = mock(() => Promise.resolve({
+        crxPath: 'ext.crx3.crx',
+        sourceVersion: 2,
+        originalId: 'abcdefghijklmnopabcdefghijklmnop',
+        extensionId: 'abcdefghijklmnopabcdefghijklmnop'
+      }));
+      CRXPacker.prototype.convert = convertMock;
+    });
+
+    afterEach(() => {
+      CRXPacker.prototype.convert = originalConvert;
+    });
+
+    test('should pass the key and output to the packer', async () => {
+      await runCLI(['convert', 'ext.crx', '--key', 'ext.pem', '--output', 'out.crx', '--keep-id']);
+
+      expect(convertMock).toHaveBeenCalledWith('ext.crx', { keyPath: 'ext.pem', outputPath: 'out.crx', keepId: true });
+    });
+
+    test('should accept --flag=value and reject a value given to --keep-id', async () => {
+      await runCLI(['convert', 'ext.crx', '--key=ext.pem', '--output=out.crx']);
+      expect(convertMock).toHaveBeenCalledWith('ext.crx', { keyPath: 'ext.pem', outputPath: 'out.crx', keepId: false });
+
+      await runCLI(['convert', 'ext.crx', '--key=ext.pem', '--keep-id=yes']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --keep-id takes no value');
+      expect(convertMock).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject a flag without a value', async () => {
+      await runCLI(['convert', 'ext.crx', '--output', '--key', 'ext.pem']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --output requires a value');
+
+      await runCLI(['convert', 'ext.crx', '--key']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --key requires a value');
+
+      expect(processExitSpy).toHaveBeenCalledTimes(2);
+      expect(convertMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('inspect command', () => {
+    const report = {
+      format: 'crx',
+      size: 1024,
+      crxVersion: 3,
+      id: 'abcdefghijklmnopabcdefghijklmnop',
+      proofs: [{
+        algorithm: 'sha256_with_ecdsa',
+        keyId: 'abcdefghijklmnopabcdefghijklmnop',
+        publicKeySize: 91,
+        signatureSize: 71
+      }],
+      signaturesVerified: true,
+      zip: { fileCount: 1, uncompressedSize: 40, compressedSize: 60 },
+      entries: [{
+        name: 'manifest.json',
+        compressionMethod: 8,
+        compressedSize: 30,
+        uncompressedSize: 40,
+        crc32: 0xabc,
+        isDirectory: false
+      }],
+      manifest: { name: 'Test', version: '1.0', manifest_version: 3 },
+      geckoId: null,
+      permissions: {
+        score: 15,
+        tier: 'high',
+        items: [{ source: 'permissions', value: 'cookies', tier: 'high', explanation: 'Can read and change cookies' }]
+      },
+      manifestIssues: [{ severity: 'warning', pointer: '/icons', message: 'Icons have no 128px size' }]
+    };
+    const originalInspect = CRXExtractor.prototype.inspect;
+    let inspectMock: any;
+
+    beforeEach(() => {
+      inspectMock = mock(() => Promise.resolve(report));
+      CRXExtractor.prototype.inspect = inspectMock;
+    });
+
+    afterEach(() => {
+      CRXExtractor.prototype.inspect = originalInspect;
+    });
+
+    test('should print a report without extracting', async () => {
+      await runCLI(['inspect', 'test.crx']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(inspectMock).toHaveBeenCalled();
+      expect(extractorMock).not.toHaveBeenCalled();
+      expect(output).toContain('CRX3');
+      expect(output).toContain('sha256_with_ecdsa');
+      expect(output).toContain('00000abc  manifest.json');
+      expect(output).toContain('Permission Risk: high (score 15/100)');
+      expect(output).toContain('high     cookies (permissions): Can read and change cookies');
+      expect(output).toContain('warning  /icons: Icons have no 128px size');
+    });
+
+    test('should print JSON with --json', async () => {
+      await runCLI(['inspect', 'test.crx', '--json']);
+
+      expect(consoleLogSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toEqual(report);
+    });
+
+    test('should require an input', async () => {
+      await runCLI(['inspect']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ No input provided');
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('check command', () => {
+    const originalCheck = UpdateClient.prototype.check;
+    let checkMock: any;
+
+    beforeEach(() => {
+      checkMock = mock(() =>
+        Promise.resolve({
+          id: 'nkbihfbeogaeaoehlefnkodbefgpgknn',
+          status: 'ok',
+          version: '2.0.0',
+          codebase: 'https://example.com/ext.crx',
+          sha256: null,
+          size: 4096,
+          currentVersion: '1.0.0',
+          updateAvailable: true
+        })
+      );
+      UpdateClient.prototype.check = checkMock;
+    });
+
+    afterEach(() => {
+      UpdateClient.prototype.check = originalCheck;
+    });
+
+    test('should check the ID from a store URL against --version', async () => {
+      const url = 'https://chromewebstore.google.com/detail/nkbihfbeogaeaoehlefnkodbefgpgknn';
+      await runCLI(['check', url, '--version', '1.0.0']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(checkMock).toHaveBeenCalledWith('nkbihfbeogaeaoehlefnkodbefgpgknn', '1.0.0');
+      expect(output).toContain('Latest: 2.0.0');
+      expect(output).toContain('Installed: 1.0.0 (update available)');
+    });
+
+    test('should read the local version from an extracted manifest', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'crx-check-'));
+      try {
+        await Bun.write(join(dir, 'manifest.json'), JSON.stringify({ name: 'X', version: '1.4', manifest_version: 3 }));
+
+        await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--local', dir, '--json']);
+
+        expect(checkMock).toHaveBeenCalledWith('nkbihfbeogaeaoehlefnkodbefgpgknn', '1.4');
+        expect(JSON.parse(consoleLogSpy.mock.calls[0][0]).version).toBe('2.0.0');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should ask the update_url of an extracted manifest unless --update-url is given', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'crx-check-'));
+      const updateUrls: string[] = [];
+      checkMock.mockImplementation(function (this: any) {
+        updateUrls.push(this.config.updateUrl);
+        return Promise.resolve({ id: 'nkbihfbeogaeaoehlefnkodbefgpgknn', status: 'noupdate', version: null });
+      });
+      try {
+        const manifest = { name: 'X', version: '1.4', manifest_version: 3, update_url: 'https://corp.example/updates.xml' };
+        await Bun.write(join(dir, 'manifest.json'), JSON.stringify(manifest));
+
+        await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--local', dir, '--json']);
+        await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--local', dir, '--update-url', 'http://mirror/crx']);
+
+        expect(updateUrls).toEqual(['https://corp.example/updates.xml', 'http://mirror/crx']);
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should check Edge Add-ons extensions against the Edge update service', async () => {
+      const updateUrls: string[] = [];
+      checkMock.mockImplementation(function (this: any) {
+        updateUrls.push(this.config.updateUrl);
+        return Promise.resolve({ id: 'nkbihfbeogaeaoehlefnkodbefgpgknn', status: 'noupdate', version: null });
+      });
+
+      await runCLI(['check', 'https://microsoftedge.microsoft.com/addons/detail/nkbihfbeogaeaoehlefnkodbefgpgknn']);
+      await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--store', 'edge']);
+      await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--store', 'opera']);
+
+      expect(updateUrls).toEqual([EDGE_UPDATE_URL_BASE, EDGE_UPDATE_URL_BASE]);
+      expect(consoleErrorSpy.mock.calls.flat().join('\n')).toContain('Unknown store "opera"');
+    });
+
+    test('should require an extension ID', async () => {
+      await runCLI(['check', './local.crx']);
+
+      expect(checkMock).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+
+    test('should reject --version and --local without a value', async () => {
+      await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--version', '--json']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --version requires a value');
+
+      await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--local']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --local requires a value');
+
+      expect(processExitSpy).toHaveBeenCalledTimes(2);
+      expect(checkMock).not.toHaveBeenCalled();
+    });
+
+    test('should accept --flag=value like --flag value', async () => {
+      await runCLI(['check', 'nkbihfbeogaeaoehlefnkodbefgpgknn', '--version=1.0.0', '--store=edge']);
+
+      expect(checkMock).toHaveBeenCalledWith('nkbihfbeogaeaoehlefnkodbefgpgknn', '1.0.0');
+    });
+  });
+
+  describe('prune-cache command', () => {
+    const originalPrune = DownloadCache.prototype.prune;
+    let pruneMock: any;
+
+    beforeEach(() => {
+      pruneMock = mock(() => Promise.resolve({ removedEntries: 2, removedPackages: 3, freedBytes: 3 * 1024 * 1024 }));
+      DownloadCache.prototype.prune = pruneMock;
+    });
+
+    afterEach(() => {
+      DownloadCache.prototype.prune = originalPrune;
+    });
+
+    test('should remove only unused packages by default', async () => {
+      await runCLI(['prune-cache']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(pruneMock).toHaveBeenCalledWith(null);
+      expect(output).toContain('Removed 2 cache entries and 3 packages (3.00 MB)');
+    });
+
+    test('should convert --max-age to milliseconds and --all to zero', async () => {
+      await runCLI(['prune-cache', '--max-age', '30']);
+      expect(pruneMock).toHaveBeenLastCalledWith(30 * 24 * 60 * 60 * 1000);
+
+      await runCLI(['prune-cache', '--all']);
+      expect(pruneMock).toHaveBeenLastCalledWith(0);
+    });
+
+    test('should parse flags like every other command', async () => {
+      await runCLI(['prune-cache', '--max-age=7', '--json']);
+      expect(pruneMock).toHaveBeenLastCalledWith(7 * 24 * 60 * 60 * 1000);
+
+      await runCLI(['prune-cache', '--all=yes']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --all takes no value');
+      expect(pruneMock).toHaveBeenCalledTimes(1);
+
+      await runCLI(['prune-cache', '--refresh']);
+      expect(pruneMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('should reject an invalid --max-age', async () => {
+      await runCLI(['prune-cache', '--max-age', 'week']);
+
+      expect(pruneMock).not.toHaveBeenCalled();
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('batch extraction', () => {
+    const cwd = process.cwd();
+    let dir: string;
+
+    beforeEach(async () => {
+      // The report goes to ./_extensions, which must be inside the allowed output paths
+      dir = await mkdtemp(join(tmpdir(), 'crx-batch-'));
+      process.chdir(dir);
+      await Bun.write(join(dir, 'list.txt'), '# audit\nabcdefghijklmnopabcdefghijklmnop\nmissing.crx\n');
+      extractorMock.mockImplementation(function (this: any) {
+        return this.input === 'missing.crx'
+          ? Promise.reject(new ValidationError('File not found or inaccessible'))
+          : Promise.resolve(result);
+      });
+    });
+
+    afterEach(async () => {
+      process.chdir(cwd);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should print a summary table and write a JSON report', async () => {
+      await runCLI(['--batch', 'list.txt', '--continue-on-error', '--concurrency', '2']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(output).toContain('Batch Summary: 1 succeeded, 1 failed, 0 skipped');
+      expect(output).toMatch(/failed\s+missing\.crx\s+VALIDATION_ERROR: File not found/);
+      expect(processExitSpy).toHaveBeenCalledWith(1);
+
+      const report = await Bun.file(join(dir, '_extensions', 'batch-report.json')).json();
+      expect(report).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+      expect(report.results[1]).toMatchObject({ input: 'missing.crx', errorCode: 'VALIDATION_ERROR' });
+    });
+
+    test('should print the report as JSON', async () => {
+      await runCLI(['--batch', 'list.txt', '--continue-on-error', '--json', '--report', 'audit.json']);
+
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toMatchObject({ total: 2, failed: 1 });
+      expect(await Bun.file(join(dir, 'audit.json')).exists()).toBe(true);
+    });
+
+    test('should take the list as --batch=<file>', async () => {
+      await runCLI(['--batch=list.txt', '--continue-on-error', '--json']);
+
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+      expect(JSON.parse(consoleLogSpy.mock.calls[0][0])).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    });
+
+    test('should reject a missing list and an invalid --concurrency', async () => {
+      await runCLI(['--batch', 'nope.txt']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ VALIDATION_ERROR: Batch list not found: "nope.txt"');
+
+      await runCLI(['--batch', 'list.txt', '--concurrency', '0']);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('\n❌ --concurrency must be a positive integer');
+    });
+  });
+
   describe('successful extraction', () => {
     test('should complete without error', async () => {
-      extractorMock.mockResolvedValue(undefined);
+      extractorMock.mockResolvedValue(result);
 
       await runCLI(['test.crx']);
 
       expect(processExitSpy).not.toHaveBeenCalled();
       expect(consoleErrorSpy).not.toHaveBeenCalled();
     });
+
+    test('should print the extraction summary', async () => {
+      extractorMock.mockResolvedValue(result);
+
+      await runCLI(['test.crx']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(output).toContain('Name: Test');
+      expect(output).toContain('ID: abcdefghijklmnopabcdefghijklmnop');
+      expect(output).toContain('Extracted 2 entries');
+      expect(output).toContain('/tmp/out');
+    });
+
+    test('should print a manifest that failed validation without its missing fields', async () => {
+      const issues = [{ severity: 'error', pointer: '/name', message: 'Manifest "name" must be a string' }];
+      extractorMock.mockResolvedValue({
+        ...result,
+        name: 'test',
+        version: null,
+        manifest: { name: 3, description: { text: 'x' } },
+        manifestIssues: issues
+      });
+
+      await runCLI(['test.crx']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      expect(output).toContain('Version: unknown');
+      expect(output).toContain('Manifest: unknown (see Manifest Issues)');
+      expect(output).not.toContain('undefined');
+      expect(output).not.toContain('Description');
+      expect(output).toContain('error    /name: Manifest "name" must be a string');
+    });
+
+    test('should print the permission risks after the summary', async () => {
+      const permissions = {
+        score: 35,
+        tier: 'critical',
+        items: [
+          { source: 'host_permissions', value: '<all_urls>', tier: 'critical', explanation: 'Every website' },
+          { source: 'permissions', value: 'tabs', tier: 'medium', explanation: 'Tab addresses' }
+        ]
+      };
+      extractorMock.mockResolvedValue({ ...result, permissions });
+
+      await runCLI(['test.crx']);
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call.join(' ')).join('\n');
+      const risks = output.slice(output.indexOf('Permission Risk'));
+      expect(output.indexOf('Extracted 2 entries')).toBeLessThan(output.indexOf('Permission Risk'));
+      expect(risks).toContain('Permission Risk: critical (score 35/100)');
+      expect(risks).toContain('critical <all_urls> (host_permissions): Every website');
+      expect(risks).toContain('medium   tabs (permissions): Tab addresses');
+    });
   });
 });
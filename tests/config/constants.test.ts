@@ -1,7 +1,7 @@
 // tests/config/constants.test.ts
 
 import { describe, expect, test } from 'bun:test';
-import { CHROME_WEBSTORE_URL_BASE, CRX_DOWNLOAD_URL_BASE, CRX_MAGIC, CRX_VERSION_2, CRX_VERSION_3, DEFAULT_EXTENSIONS_DIR } from '../../src/config/constants';
+import { CHROME_WEBSTORE_URL_BASE, CRX3_SIGNATURE_CONTEXT, CRX_DOWNLOAD_URL_BASE, CRX_MAGIC, CRX_VERSION_2, CRX_VERSION_3, DEFAULT_EXTENSIONS_DIR } from '../../src/config/constants';
 
 describe('constants', () => {
   test('CRX_MAGIC should be correct value', () => {
@@ -13,6 +13,11 @@ describe('constants', () => {
     expect(CRX_VERSION_3).toBe(3);
   });
 
+  test('CRX3_SIGNATURE_CONTEXT should be NUL-terminated', () => {
+    expect(CRX3_SIGNATURE_CONTEXT).toBe('CRX3 SignedData\x00');
+    expect(CRX3_SIGNATURE_CONTEXT).toHaveLength(16);
+  });
+
   test('DEFAULT_EXTENSIONS_DIR should be _extensions', () => {
     expect(DEFAULT_EXTENSIONS_DIR).toBe('_extensions');
   });
@@ -14,8 +14,21 @@ describe('DEFAULT_CONFIG', () => {
     expect(DEFAULT_CONFIG.downloadTimeout).toBe(30000); // 30s
   });
 
+  test('should retry transient download failures', () => {
+    expect(DEFAULT_CONFIG.retries).toBe(3);
+    expect(DEFAULT_CONFIG.retryDelay).toBe(1000);
+    expect(DEFAULT_CONFIG.maxRetryDelay).toBe(30000);
+  });
+
+  test('should cache downloads inside the extensions directory', () => {
+    expect(DEFAULT_CONFIG.cache).toBe(true);
+    expect(DEFAULT_CONFIG.refreshCache).toBe(false);
+    expect(DEFAULT_CONFIG.cacheDir).toBeUndefined();
+  });
+
   test('should have correct extraction limits', () => {
     expect(DEFAULT_CONFIG.maxExtractionRatio).toBe(100);
+    expect(DEFAULT_CONFIG.maxEntryExtractionRatio).toBe(1000);
     expect(DEFAULT_CONFIG.maxExtractedFiles).toBe(10000);
   });
 
@@ -24,8 +37,23 @@ describe('DEFAULT_CONFIG', () => {
     expect(DEFAULT_CONFIG.extensionsDir).toBe('_extensions');
   });
 
-  test('should have INFO log level by default', () => {
-    expect(DEFAULT_CONFIG.logLevel).toBe(LogLevel.INFO);
+  test('should verify signatures by default', () => {
+    expect(DEFAULT_CONFIG.verifySignatures).toBe(true);
+  });
+
+  test('should target the Chrome Web Store update service', () => {
+    expect(DEFAULT_CONFIG.store).toBe('chrome');
+    expect(DEFAULT_CONFIG.stores).toBeUndefined();
+    expect(DEFAULT_CONFIG.updateUrl).toBe('https://clients2.google.com/service/update2/crx');
+    expect(DEFAULT_CONFIG.prodVersion).toBe('120.0');
+    expect(DEFAULT_CONFIG.acceptFormat).toBe('crx3');
+    expect(DEFAULT_CONFIG.userAgent).toContain('Mozilla/5.0');
+    expect(DEFAULT_CONFIG.os).toBeUndefined();
+    expect(DEFAULT_CONFIG.arch).toBeUndefined();
+  });
+
+  test('should log nothing by default', () => {
+    expect(DEFAULT_CONFIG.logLevel).toBe(LogLevel.SILENT);
   });
 
   test('should be readonly', () => {
@@ -9,10 +9,12 @@ describe('LogLevel enum', () => {
     expect(LogLevel.INFO).toBe(1);
     expect(LogLevel.WARN).toBe(2);
     expect(LogLevel.ERROR).toBe(3);
+    expect(LogLevel.SILENT).toBe(4);
   });
 
   test('should be comparable', () => {
     expect(LogLevel.ERROR > LogLevel.INFO).toBe(true);
     expect(LogLevel.DEBUG < LogLevel.WARN).toBe(true);
+    expect(LogLevel.SILENT > LogLevel.ERROR).toBe(true);
   });
 });
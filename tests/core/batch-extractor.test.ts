@@ -0,0 +1,100 @@
+// tests/core/batch-extractor.test.ts
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { BatchExtractor } from '../../src/core/batch-extractor';
+import { CRXExtractor } from '../../src/core/crx-extractor';
+import { DownloadError, ValidationError } from '../../src/errors';
+
+const config = { ...DEFAULT_CONFIG, logLevel: LogLevel.ERROR };
+
+describe('BatchExtractor', () => {
+  const originalExtract = CRXExtractor.prototype.extract;
+
+  afterEach(() => {
+    CRXExtractor.prototype.extract = originalExtract;
+  });
+
+  /** Replaces extraction with a short delay; inputs starting with `bad` fail */
+  function fakeExtract(onStart: (input: string) => void = () => {}): void {
+    CRXExtractor.prototype.extract = async function (this: any) {
+      const input: string = this.input;
+      onStart(input);
+      await Bun.sleep(5);
+      if (input.startsWith('bad')) {
+        throw new DownloadError('Download failed: 404 Not Found');
+      }
+      return { id: null, name: input, version: '1.0', outputDir: `_extensions/${input}` } as any;
+    };
+  }
+
+  test('should read one input per line, skipping blanks and comments', () => {
+    const list = '# weekly audit\nnkbihfbeogaeaoehlefnkodbefgpgknn\r\n\n  ./local.crx  \nhttps://example.com/ext.crx#frag\n';
+    expect(BatchExtractor.parseList(list)).toEqual([
+      'nkbihfbeogaeaoehlefnkodbefgpgknn',
+      './local.crx',
+      'https://example.com/ext.crx#frag'
+    ]);
+  });
+
+  test('should never run more extractions at once than the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    CRXExtractor.prototype.extract = async function () {
+      peak = Math.max(peak, ++active);
+      await Bun.sleep(5);
+      active--;
+      return { id: null, name: 'x', version: null, outputDir: 'x' } as any;
+    };
+
+    const inputs = Array.from({ length: 10 }, (_, i) => `ext-${i}.crx`);
+    const report = await new BatchExtractor(config).run(inputs, { concurrency: 3 });
+
+    expect(peak).toBe(3);
+    expect(report.succeeded).toBe(10);
+  });
+
+  test('should report failures with their error codes and keep going when asked to', async () => {
+    fakeExtract();
+    const completed: number[] = [];
+    const batch = new BatchExtractor(config).on('item', event => completed.push(event.completed));
+
+    const report = await batch.run(['one', 'bad-two', 'three'], { concurrency: 1, continueOnError: true });
+
+    expect(report).toMatchObject({ total: 3, succeeded: 2, failed: 1, skipped: 0 });
+    expect(report.results.map(result => result.status)).toEqual(['succeeded', 'failed', 'succeeded']);
+    expect(report.results[1]).toMatchObject({
+      input: 'bad-two',
+      errorCode: 'DOWNLOAD_ERROR',
+      errorMessage: 'Download failed: 404 Not Found'
+    });
+    expect(report.results[0]).toMatchObject({ name: 'one', version: '1.0', errorCode: null });
+    expect(completed).toEqual([1, 2, 3]);
+  });
+
+  test('should skip inputs not yet started after a failure by default', async () => {
+    const started: string[] = [];
+    fakeExtract(input => started.push(input));
+
+    const report = await new BatchExtractor(config).run(['bad-one', 'two', 'three'], { concurrency: 1 });
+
+    expect(started).toEqual(['bad-one']);
+    expect(report).toMatchObject({ failed: 1, skipped: 2 });
+    expect(report.results[2]?.status).toBe('skipped');
+  });
+
+  test('should extract duplicate inputs once', async () => {
+    const started: string[] = [];
+    fakeExtract(input => started.push(input));
+
+    const report = await new BatchExtractor(config).run(['one', 'one', 'two']);
+
+    expect(started.sort()).toEqual(['one', 'two']);
+    expect(report.total).toBe(2);
+  });
+
+  test('should reject an invalid concurrency', async () => {
+    await expect(new BatchExtractor(config).run(['one'], { concurrency: 0 })).rejects.toThrow(ValidationError);
+  });
+});
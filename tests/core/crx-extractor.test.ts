@@ -1,9 +1,25 @@
 import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { CRX_MAGIC, CRX_VERSION_3 } from '../../src/config/constants';
 import { DEFAULT_CONFIG } from '../../src/config/defaults';
 import { LogLevel } from '../../src/config/types';
 import { CRXExtractor } from '../../src/core/crx-extractor';
-import { DownloadError, ValidationError } from '../../src/errors';
+import { ExtensionId } from '../../src/crx/extension-id';
+import { KeyUtils } from '../../src/crx/keys';
+import { CRXWriter } from '../../src/crx/writer';
+import { DownloadError, SecurityError, ValidationError } from '../../src/errors';
+import { ZipReader } from '../../src/zip/reader';
+import { ZipWriter } from '../../src/zip/writer';
+
+function buildZip(files: Record<string, string>): Uint8Array {
+  const zip = new ZipWriter();
+  for (const [name, content] of Object.entries(files)) {
+    zip.add(name, new TextEncoder().encode(content));
+  }
+  return zip.finish();
+}
 
 describe('CRXExtractor', () => {
   let fetchSpy: any;
@@ -29,13 +45,15 @@ describe('CRXExtractor', () => {
   describe('constructor', () => {
     test('should accept valid input', () => {
       expect(() => new CRXExtractor('test.crx')).not.toThrow();
-      expect(() => new CRXExtractor('abcdefghijklmnopqrstuvwxyzabcdef')).not.toThrow();
+      expect(() => new CRXExtractor('abcdefghijklmnopabcdefghijklmnop')).not.toThrow();
+      expect(() => new CRXExtractor({ kind: 'local-file', path: 'test.crx' })).not.toThrow();
     });
 
     test('should reject invalid input', () => {
       expect(() => new CRXExtractor('')).toThrow(ValidationError);
       expect(() => new CRXExtractor(null as any)).toThrow(ValidationError);
       expect(() => new CRXExtractor(123 as any)).toThrow(ValidationError);
+      expect(() => new CRXExtractor({} as any)).toThrow(ValidationError);
     });
 
     test('should use default config', () => {
@@ -52,12 +70,12 @@ describe('CRXExtractor', () => {
 
   describe('extension ID detection', () => {
     test('should find extension ID in various formats', () => {
-      const testCases = [{ input: 'abcdefghijklmnopqrstuvwxyzabcdef', expected: 'abcdefghijklmnopqrstuvwxyzabcdef' }, {
-        input: 'https://chromewebstore.google.com/detail/abcdefghijklmnopqrstuvwxyzabcdef',
-        expected: 'abcdefghijklmnopqrstuvwxyzabcdef'
+      const testCases = [{ input: 'abcdefghijklmnopabcdefghijklmnop', expected: 'abcdefghijklmnopabcdefghijklmnop' }, {
+        input: 'https://chromewebstore.google.com/detail/abcdefghijklmnopabcdefghijklmnop',
+        expected: 'abcdefghijklmnopabcdefghijklmnop'
       }, {
-        input: 'https://chromewebstore.google.com/detail/name/abcdefghijklmnopqrstuvwxyzabcdef',
-        expected: 'abcdefghijklmnopqrstuvwxyzabcdef'
+        input: 'https://chromewebstore.google.com/detail/name/abcdefghijklmnopabcdefghijklmnop',
+        expected: 'abcdefghijklmnopabcdefghijklmnop'
       }];
 
       for (const { input, expected } of testCases) {
@@ -71,7 +89,7 @@ describe('CRXExtractor', () => {
 
   describe('CRX download', () => {
     test('should download from Chrome Web Store', async () => {
-      const extensionId = 'abcdefghijklmnopqrstuvwxyzabcdef';
+      const extensionId = 'abcdefghijklmnopabcdefghijklmnop';
       const mockCRXData = new Uint8Array([
         // CRX_MAGIC bytes (little-endian)
         (CRX_MAGIC >> 0) & 0xFF,
@@ -106,7 +124,7 @@ describe('CRXExtractor', () => {
     test('should handle download errors', async () => {
       fetchSpy.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' });
 
-      const extractor = new CRXExtractor('abcdefghijklmnopqrstuvwxyzabcdef');
+      const extractor = new CRXExtractor('abcdefghijklmnopabcdefghijklmnop');
       await expect(extractor.extract()).rejects.toThrow(DownloadError);
     });
 
@@ -117,16 +135,825 @@ describe('CRXExtractor', () => {
         arrayBuffer: () => Promise.resolve(new ArrayBuffer(100))
       });
 
-      const extractor = new CRXExtractor('abcdefghijklmnopqrstuvwxyzabcdef');
+      const extractor = new CRXExtractor('abcdefghijklmnopabcdefghijklmnop');
       await expect(extractor.extract()).rejects.toThrow(DownloadError);
     });
 
     test('should handle download timeout', async () => {
-      fetchSpy.mockImplementation(() => new Promise((resolve) => setTimeout(resolve, 40000)));
+      // A server that never answers: the request only ends when it is aborted
+      fetchSpy.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
 
-      const config = { ...DEFAULT_CONFIG, downloadTimeout: 100 };
-      const extractor = new CRXExtractor('abcdefghijklmnopqrstuvwxyzabcdef', config);
-      await expect(extractor.extract()).rejects.toThrow(DownloadError);
+      const config = { ...DEFAULT_CONFIG, downloadTimeout: 100, retries: 0, cache: false };
+      const extractor = new CRXExtractor('abcdefghijklmnopabcdefghijklmnop', config);
+      await expect(extractor.extract()).rejects.toThrow('Download timed out after 100ms');
+    });
+  });
+
+  describe('streamed download', () => {
+    const extensionId = 'abcdefghijklmnopabcdefghijklmnop';
+    let dir: string;
+    let config: typeof DEFAULT_CONFIG;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-download-'));
+      config = {
+        ...DEFAULT_CONFIG,
+        maxFileSize: 4096,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR
+      };
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    function download(extractor: CRXExtractor, inMemory = false): Promise<Blob | Uint8Array> {
+      return (extractor as any).downloadFromStore(extensionId, inMemory);
+    }
+
+    test('should write the response to disk', async () => {
+      const crx = new Uint8Array([0x43, 0x72, 0x32, 0x34, CRX_VERSION_3, 0, 0, 0, ...new Array(100).fill(1)]);
+      fetchSpy.mockResolvedValue(new Response(crx, { headers: { 'content-type': 'application/x-chrome-extension' } }));
+
+      const file = await download(new CRXExtractor(extensionId, config));
+      expect(file).toBeInstanceOf(Blob);
+      expect(new Uint8Array(await (file as Blob).arrayBuffer())).toEqual(crx);
+    });
+
+    test('should buffer the response without writing to disk when in memory', async () => {
+      const crx = new Uint8Array([0x43, 0x72, 0x32, 0x34, CRX_VERSION_3, 0, 0, 0, ...new Array(100).fill(1)]);
+      fetchSpy.mockResolvedValue(new Response(crx, { headers: { 'content-type': 'application/x-chrome-extension' } }));
+
+      const data = await download(new CRXExtractor(extensionId, config), true);
+      expect(data).toEqual(crx);
+      expect(await readdir(dir)).toEqual([]);
+    });
+
+    test('should report download progress', async () => {
+      const crx = new Uint8Array([0x43, 0x72, 0x32, 0x34, CRX_VERSION_3, 0, 0, 0, ...new Array(100).fill(1)]);
+      fetchSpy.mockResolvedValue(new Response(crx, { headers: { 'content-length': String(crx.length) } }));
+      const extractor = new CRXExtractor(extensionId, config);
+      const progress: { received: number, total: number | null }[] = [];
+      extractor.on('downloadProgress', event => progress.push(event));
+
+      await download(extractor, true);
+
+      expect(progress.length).toBeGreaterThan(0);
+      expect(progress.every(event => event.total === crx.length)).toBe(true);
+      expect(progress.at(-1)).toEqual({ received: crx.length, total: crx.length });
+    });
+
+    test('should request the configured Chrome version and format', async () => {
+      fetchSpy.mockResolvedValue(new Response('not found', { status: 404 }));
+
+      await expect(download(new CRXExtractor(extensionId, config))).rejects.toThrow(DownloadError);
+
+      const [url, init] = fetchSpy.mock.calls[0];
+      const params = new URL(url).searchParams;
+      expect(url).toStartWith(`${DEFAULT_CONFIG.updateUrl}?`);
+      expect(params.get('prodversion')).toBe('120.0');
+      expect(params.get('acceptformat')).toBe('crx3');
+      expect(params.get('x')).toBe(`id=${extensionId}&installsource=ondemand&uc`);
+      expect(params.has('os')).toBe(false);
+      expect(init.headers['User-Agent']).toBe(DEFAULT_CONFIG.userAgent);
+    });
+
+    test('should send platform parameters and a custom user agent', async () => {
+      fetchSpy.mockResolvedValue(new Response('not found', { status: 404 }));
+      const extractor = new CRXExtractor(extensionId, {
+        ...config,
+        updateUrl: 'https://mirror.example.com/update?channel=beta',
+        prodVersion: '126.0.6478.55',
+        acceptFormat: 'crx2,crx3',
+        userAgent: 'crx-test/1.0',
+        os: 'mac',
+        arch: 'arm64',
+        naclArch: 'arm'
+      });
+
+      await expect(download(extractor)).rejects.toThrow(DownloadError);
+
+      const [url, init] = fetchSpy.mock.calls[0];
+      const parsed = new URL(url);
+      expect(parsed.origin + parsed.pathname).toBe('https://mirror.example.com/update');
+      expect(Object.fromEntries(parsed.searchParams)).toMatchObject({
+        os: 'mac',
+        arch: 'arm64',
+        nacl_arch: 'arm',
+        prodversion: '126.0.6478.55',
+        acceptformat: 'crx2,crx3'
+      });
+      expect(init.headers['User-Agent']).toBe('crx-test/1.0');
+    });
+
+    test('should reject an invalid update URL', async () => {
+      const extractor = new CRXExtractor(extensionId, { ...config, updateUrl: 'file:///etc/passwd' });
+      await expect(download(extractor)).rejects.toThrow('Update URL must use http or https');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should download from a local stub server', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const crx = await CRXWriter.build(buildZip({ 'manifest.json': '{}' }), [key]);
+      const id = await ExtensionId.fromPublicKey(key.publicKey);
+      let requestedOs: string | null = null;
+      const server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          requestedOs = new URL(request.url).searchParams.get('os');
+          return new Response(crx, { headers: { 'content-type': 'application/x-chrome-extension' } });
+        }
+      });
+
+      try {
+        const updateUrl = `http://localhost:${server.port}/crx`;
+        const extractor = new CRXExtractor(id, { ...config, maxFileSize: 1024 * 1024, updateUrl, os: 'linux' });
+        const result = await extractor.extractToMemory();
+        expect(result.id).toBe(id);
+        expect(requestedOs).toBe('linux');
+      } finally {
+        server.stop(true);
+      }
+    });
+
+    test('should verify a resumed download against the update response', async () => {
+      const id = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+      const crx = new Uint8Array([0x43, 0x72, 0x32, 0x34, CRX_VERSION_3, 0, 0, 0, ...new Array(100).fill(1)]);
+      const hash = new Bun.CryptoHasher('sha256').update(crx).digest('hex');
+      let publishedHash = hash;
+      let attempt = 0;
+      fetchSpy.mockImplementation((url: string) => {
+        if (new URL(url).searchParams.get('response') === 'updatecheck') {
+          const updatecheck = `<updatecheck status="ok" version="1.0" hash_sha256="${publishedHash}"/>`;
+          return Promise.resolve(new Response(`<gupdate><app appid="${id}">${updatecheck}</app></gupdate>`));
+        }
+        if (attempt++ % 2 === 1) {
+          const headers = { 'content-range': `bytes 50-${crx.length - 1}/${crx.length}` };
+          return Promise.resolve(new Response(crx.slice(50), { status: 206, headers }));
+        }
+        // The first response stops half way through
+        return Promise.resolve(new Response(crx.slice(0, 50), { headers: { 'content-length': String(crx.length) } }));
+      });
+      const resumable = { ...config, retryDelay: 1 };
+
+      const data = await (new CRXExtractor(id, resumable) as any).downloadFromStore(id, true);
+      expect(data).toEqual(crx);
+
+      publishedHash = 'f'.repeat(64);
+      await expect((new CRXExtractor(id, resumable) as any).downloadFromStore(id, true)).rejects.toThrow('SHA-256');
+    });
+
+    test('should abort once the body exceeds the size limit', async () => {
+      let chunksPulled = 0;
+      const endless = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksPulled++;
+          controller.enqueue(new Uint8Array(1024));
+        }
+      });
+      fetchSpy.mockResolvedValue(new Response(endless));
+
+      await expect(download(new CRXExtractor(extensionId, config))).rejects.toThrow('Download too large');
+      expect(chunksPulled).toBeLessThan(10);
+      expect(await readdir(config.extensionsDir)).toEqual([]);
+    });
+
+    test('should reject a declared Content-Length over the limit without reading the body', async () => {
+      let bodyRead = false;
+      fetchSpy.mockResolvedValue({
+        ok: true,
+        headers: new Headers({ 'content-length': String(1024 * 1024) }),
+        get body() {
+          bodyRead = true;
+          return null;
+        }
+      });
+
+      await expect(download(new CRXExtractor(extensionId, config))).rejects.toThrow(DownloadError);
+      expect(bodyRead).toBe(false);
+    });
+  });
+
+  describe('in-memory extraction', () => {
+    const manifest = { name: 'Memory Test', version: '1.0.0', manifest_version: 3 };
+    let dir: string;
+    let config: typeof DEFAULT_CONFIG;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-memory-'));
+      config = {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR
+      };
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should return files, header and manifest of a CRX', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest), 'js/main.js': 'console.log(1);' });
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(zip, [key]));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+
+      expect(result.format).toBe('crx');
+      expect(result.header?.version).toBe(CRX_VERSION_3);
+      expect(result.id).toBe(await ExtensionId.fromPublicKey(key.publicKey));
+      expect(result.name).toBe('Memory Test');
+      expect(result.manifest?.version).toBe('1.0.0');
+      expect([...result.files.keys()].sort()).toEqual(['js/main.js', 'manifest.json']);
+      expect(new TextDecoder().decode(result.files.get('js/main.js'))).toBe('console.log(1);');
+      expect(await readdir(dir)).toEqual(['test.crx']);
+    });
+
+    test('should load a local file whose name contains an extension ID', async () => {
+      const path = join(dir, 'builds', 'abcdefghijklmnopabcdefghijklmnop.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+
+      expect(result.manifest?.name).toBe('Memory Test');
+      expect(result.id).toBeNull();
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    test('should rate the permissions the manifest requests', async () => {
+      const path = join(dir, 'test.zip');
+      const requesting = { ...manifest, permissions: ['storage'], host_permissions: ['<all_urls>'] };
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(requesting) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+
+      expect(result.permissions?.tier).toBe('critical');
+      expect(result.permissions?.items.map(item => item.value)).toEqual(['<all_urls>', 'storage']);
+    });
+
+    test('should report manifest schema issues alongside the manifest', async () => {
+      const path = join(dir, 'test.zip');
+      const invalid = { ...manifest, background: { scripts: ['bg.js'] } };
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(invalid) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+      expect(result.manifest?.name).toBe('Memory Test');
+      expect(result.manifestIssues).toEqual([
+        { severity: 'error', pointer: '/background', message: 'Manifest V3 background must be a "service_worker"' }
+      ]);
+
+      // Firefox runs Manifest V3 background scripts, so the same manifest is fine in an XPI
+      const xpi = join(dir, 'test.xpi');
+      await Bun.write(xpi, buildZip({ 'manifest.json': JSON.stringify(invalid) }));
+      const firefox = await new CRXExtractor(xpi, config).extractToMemory();
+      expect(firefox.manifest?.name).toBe('Memory Test');
+      expect(firefox.manifestIssues).toEqual([]);
+
+      await Bun.write(path, buildZip({ 'a.js': 'a' }));
+      const missing = await new CRXExtractor(path, config).extractToMemory();
+      expect(missing.manifestIssues).toEqual([{ severity: 'error', pointer: '', message: 'manifest.json not found' }]);
+    });
+
+    test('should recognize an XPI by its contents whatever its name', async () => {
+      const path = join(dir, 'addon.zip');
+      const settings = { gecko: { id: 'a@b.c' } };
+      const firefox = { ...manifest, background: { scripts: ['bg.js'] }, browser_specific_settings: settings };
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(firefox) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+      expect(result.format).toBe('xpi');
+      expect(result.geckoId).toBe('a@b.c');
+      // Checked by Firefox rules, which allow V3 background scripts
+      expect(result.manifestIssues).toEqual([]);
+
+      const signed = buildZip({ 'manifest.json': JSON.stringify(manifest), 'META-INF/mozilla.rsa': 'signature' });
+      await Bun.write(path, signed);
+      expect((await new CRXExtractor(path, config).extractToMemory()).format).toBe('xpi');
+
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest) }));
+      expect((await new CRXExtractor(path, config).extractToMemory()).format).toBe('zip');
+    });
+
+    test('should still rate the permissions of a manifest with schema errors', async () => {
+      const path = join(dir, 'test.zip');
+      const malformed = {
+        ...manifest,
+        permissions: ['debugger', 'nativeMessaging'],
+        host_permissions: ['<all_urls>'],
+        icons: { '16x16': 'icon.png' }
+      };
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(malformed) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+
+      const issues = result.manifestIssues.map(issue => [issue.severity, issue.pointer]);
+      expect(issues).toContainEqual(['error', '/icons/16x16']);
+      expect(result.name).toBe('Memory Test');
+      expect(result.permissions?.tier).toBe('critical');
+      expect(result.permissions?.items.map(item => item.value)).toEqual(['debugger', 'nativeMessaging', '<all_urls>']);
+    });
+
+    test('should accept ZIP input without a header', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest) }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+
+      expect(result.format).toBe('zip');
+      expect(result.header).toBeNull();
+      expect(result.id).toBeNull();
+      expect(result.files.size).toBe(1);
+    });
+
+    test('should emit lifecycle events in order', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.js': 'a' });
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(zip, [key]));
+      const extractor = new CRXExtractor(path, config);
+      const events: string[] = [];
+      extractor.on('headerParsed', ({ format, id }) => events.push(`header:${format}:${!!id}`));
+      extractor.on('validated', ({ fileCount }) => events.push(`validated:${fileCount}`));
+      extractor.on('entry', ({ name, index, total }) => events.push(`entry:${index}/${total}:${name}`));
+      extractor.on('done', () => events.push('done'));
+
+      await extractor.extractToMemory();
+
+      expect(events).toEqual([
+        'header:crx:true',
+        'validated:2',
+        'entry:1/2:manifest.json',
+        'entry:2/2:a.js',
+        'done'
+      ]);
+    });
+
+    test('should emit failed when extraction is rejected', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.txt': 'a', 'b.txt': 'b' }));
+      const extractor = new CRXExtractor(path, { ...config, maxExtractedFiles: 2 });
+      const errors: unknown[] = [];
+      extractor.on('failed', ({ error }) => errors.push(error));
+
+      await expect(extractor.extractToMemory()).rejects.toThrow(SecurityError);
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toBeInstanceOf(SecurityError);
+    });
+
+    test('should enforce the archive limits', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.txt': 'a', 'b.txt': 'b' }));
+
+      const extractor = new CRXExtractor(path, { ...config, maxExtractedFiles: 2 });
+      await expect(extractor.extractToMemory()).rejects.toThrow(SecurityError);
+      expect(await readdir(dir)).toEqual(['test.zip']);
+    });
+
+    test('should return a null manifest when it is missing', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'readme.txt': 'no manifest' }));
+
+      const result = await new CRXExtractor(path, config).extractToMemory();
+      expect(result.manifest).toBeNull();
+      expect(result.files.has('readme.txt')).toBe(true);
+    });
+  });
+
+  describe('streamed archive output', () => {
+    const manifest = { name: 'Stream Test', version: '1.0.0', manifest_version: 3 };
+    let dir: string;
+    let config: typeof DEFAULT_CONFIG;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-stream-'));
+      config = {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR
+      };
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should stream the files of a CRX as a ZIP', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest), 'js/main.js': 'console.log(1);' });
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(zip, [key]));
+
+      const stream = await new CRXExtractor(path, config).extractToStream('zip');
+      const reader = await ZipReader.open(await new Response(stream).bytes());
+
+      expect(reader.entries.map(entry => entry.name)).toEqual(['manifest.json', 'js/main.js']);
+      expect(new TextDecoder().decode(await reader.read(reader.entries[1]!))).toBe('console.log(1);');
+      expect(await readdir(dir)).toEqual(['test.crx']);
+    });
+
+    test('should stream a tar archive entry by entry', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.txt': 'a' }));
+      const extractor = new CRXExtractor(path, config);
+      const events: string[] = [];
+      extractor.on('entry', ({ name }) => events.push(name));
+      extractor.on('done', () => events.push('done'));
+
+      const tar = await new Response(await extractor.extractToStream('tar')).bytes();
+
+      expect(tar.length).toBe(512 * 6);
+      expect(new TextDecoder().decode(tar.subarray(0, 13))).toBe('manifest.json');
+      expect(new TextDecoder().decode(tar.subarray(1024, 1029))).toBe('a.txt');
+      expect(events).toEqual(['manifest.json', 'a.txt', 'done']);
+    });
+
+    test('should enforce the archive limits before streaming anything', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.txt': 'a', 'b.txt': 'b' }));
+
+      const extractor = new CRXExtractor(path, { ...config, maxExtractedFiles: 2 });
+      await expect(extractor.extractToStream('tar')).rejects.toThrow(SecurityError);
+    });
+
+    test('should read a package piped to stdin', async () => {
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest) });
+      const stdinSpy = spyOn(Bun.stdin, 'stream').mockReturnValue(new Blob([zip]).stream() as any);
+      try {
+        const result = await new CRXExtractor('-', config).extractToMemory();
+        expect(result.manifest?.name).toBe('Stream Test');
+
+        stdinSpy.mockReturnValue(new Blob([zip]).stream() as any);
+        const tooLarge = new CRXExtractor('-', { ...config, maxFileSize: 16 }).extractToMemory();
+        await expect(tooLarge).rejects.toThrow('Input too large');
+      } finally {
+        stdinSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('extraction result', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-result-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should describe what was extracted and where', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const manifest = { name: 'Result Test', version: '3.1.0', manifest_version: 3 };
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest), 'lib/a.js': 'abc' });
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(zip, [key]));
+      const config = {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR
+      };
+      const logSpy = spyOn(console, 'log');
+      // console.log may already be a mock installed by another test file
+      const callsBefore = logSpy.mock.calls.length;
+
+      try {
+        const result = await new CRXExtractor(path, config).extract(join(dir, 'out'));
+
+        expect(result.outputDir).toBe(join(dir, 'out'));
+        expect(result.packagePath).toBe(join(dir, '_extensions', `test_${result.id}.crx`));
+        expect(result.format).toBe('crx');
+        expect(result.header?.version).toBe(CRX_VERSION_3);
+        expect(result.id).toBe(await ExtensionId.fromPublicKey(key.publicKey));
+        expect(result.name).toBe('Result Test');
+        expect(result.version).toBe('3.1.0');
+        expect(result.manifest?.manifest_version).toBe(3);
+        expect(result.fileCount).toBe(2);
+        expect(result.extractedSize).toBe(JSON.stringify(manifest).length + 3);
+        expect(result.compressedSize).toBe(zip.length);
+        expect(result.timings.totalMs).toBeGreaterThanOrEqual(result.timings.extractMs);
+        expect(await Bun.file(join(dir, 'out', 'lib', 'a.js')).text()).toBe('abc');
+        expect(logSpy.mock.calls.length).toBe(callsBefore);
+      } finally {
+        logSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('default logging', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-silent-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should print nothing when embedded with the default config', async () => {
+      // Manifest V2 adds a schema warning, which would otherwise be logged
+      const manifest = { name: 'Quiet', version: '1.0.0', manifest_version: 2 };
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(buildZip({ 'manifest.json': JSON.stringify(manifest) }), [
+        await KeyUtils.generate('ecdsa')
+      ]));
+      const config = { ...DEFAULT_CONFIG, allowedOutputPaths: [dir], extensionsDir: join(dir, '_extensions') };
+      const spies = [spyOn(console, 'log'), spyOn(console, 'info'), spyOn(console, 'warn'), spyOn(console, 'error')];
+      // The console methods may already be mocks installed by another test file
+      const callsBefore = spies.map(spy => spy.mock.calls.length);
+
+      try {
+        const result = await new CRXExtractor(path, config).extract(join(dir, 'out'));
+
+        expect(result.name).toBe('Quiet');
+        expect(spies.map(spy => spy.mock.calls.length)).toEqual(callsBefore);
+      } finally {
+        for (const spy of spies) spy.mockRestore();
+      }
+    });
+
+    test('should throw a rejected archive without logging it', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': '{}', 'a.js': 'a' }));
+      const config = {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        maxExtractedFiles: 1,
+        logLevel: LogLevel.ERROR
+      };
+      const errorSpy = spyOn(console, 'error');
+      const callsBefore = errorSpy.mock.calls.length;
+
+      try {
+        await expect(new CRXExtractor(path, config).extract(join(dir, 'out'))).rejects.toThrow(SecurityError);
+        expect(errorSpy.mock.calls.length).toBe(callsBefore);
+      } finally {
+        errorSpy.mockRestore();
+      }
+    });
+  });
+
+  describe('inspection', () => {
+    let dir: string;
+    let config: typeof DEFAULT_CONFIG;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-inspect-'));
+      config = {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR
+      };
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test('should report header proofs, entries and manifest', async () => {
+      const key = await KeyUtils.generate('ecdsa');
+      const manifest = { name: 'Inspect Test', version: '2.0.0', manifest_version: 3 };
+      const zip = buildZip({ 'manifest.json': JSON.stringify(manifest), 'a.js': 'a' });
+      const path = join(dir, 'test.crx');
+      await Bun.write(path, await CRXWriter.build(zip, [key]));
+      const id = await ExtensionId.fromPublicKey(key.publicKey);
+
+      const result = await new CRXExtractor(path, config).inspect();
+
+      expect(result.format).toBe('crx');
+      expect(result.crxVersion).toBe(CRX_VERSION_3);
+      expect(result.id).toBe(id);
+      expect(result.signaturesVerified).toBe(true);
+      expect(result.proofs).toEqual([{
+        algorithm: 'sha256_with_ecdsa',
+        keyId: id,
+        publicKeySize: key.publicKey.length,
+        signatureSize: expect.any(Number)
+      }]);
+      expect(result.entries.map(entry => entry.name)).toEqual(['manifest.json', 'a.js']);
+      expect(result.entries[1]).toMatchObject({ uncompressedSize: 1, crc32: 0xe8b7be43, isDirectory: false });
+      expect(result.manifest?.name).toBe('Inspect Test');
+      expect(await readdir(dir)).toEqual(['test.crx']);
+    });
+
+    test('should report unsigned ZIP input', async () => {
+      const path = join(dir, 'test.zip');
+      await Bun.write(path, buildZip({ 'manifest.json': '{}' }));
+
+      const result = await new CRXExtractor(path, config).inspect();
+
+      expect(result.format).toBe('zip');
+      expect(result.crxVersion).toBeNull();
+      expect(result.proofs).toEqual([]);
+      expect(result.signaturesVerified).toBe(false);
+      expect(result.manifest).toEqual({});
+      expect(result.manifestIssues[0]?.pointer).toBe('/name');
+    });
+  });
+
+  describe('download cache', () => {
+    let dir: string;
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: Request[];
+    let id: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-cache-'));
+      const key = await KeyUtils.generate('ecdsa');
+      const manifest = { name: 'Cached', version: '4.2.0', manifest_version: 3 };
+      const crx = await CRXWriter.build(buildZip({ 'manifest.json': JSON.stringify(manifest) }), [key]);
+      id = await ExtensionId.fromPublicKey(key.publicKey);
+      requests = [];
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          requests.push(request);
+          if (request.headers.get('if-none-match') === '"v1"') {
+            return new Response(null, { status: 304 });
+          }
+          return new Response(crx, { headers: { 'content-type': 'application/x-chrome-extension', etag: '"v1"' } });
+        }
+      });
+    });
+
+    afterEach(async () => {
+      server.stop(true);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    function extractor(overrides: Partial<typeof DEFAULT_CONFIG> = {}): CRXExtractor {
+      return new CRXExtractor(id, {
+        ...DEFAULT_CONFIG,
+        updateUrl: `http://localhost:${server.port}/crx`,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR,
+        ...overrides
+      });
+    }
+
+    test('should serve an unchanged package from the cache', async () => {
+      const first = await extractor().extract(join(dir, 'first'));
+      const second = await extractor().extract(join(dir, 'second'));
+
+      expect(requests[0]?.headers.get('if-none-match')).toBeNull();
+      expect(requests[1]?.headers.get('if-none-match')).toBe('"v1"');
+      expect(second.version).toBe('4.2.0');
+      expect(await Bun.file(join(dir, 'second', 'manifest.json')).json()).toMatchObject({ name: 'Cached' });
+      expect(second.packageSize).toBe(first.packageSize);
+
+      const indexDir = join(dir, '_extensions', '.cache', 'index', id);
+      const entries = await readdir(indexDir);
+      expect(entries).toEqual([expect.stringMatching(/^4\.2\.0_[0-9a-f]{64}\.json$/)]);
+      expect(await Bun.file(join(indexDir, entries[0] as string)).json()).toMatchObject({
+        id,
+        version: '4.2.0',
+        etag: '"v1"'
+      });
+    });
+
+    test('should download again with refreshCache', async () => {
+      await extractor().extract(join(dir, 'first'));
+      await extractor({ refreshCache: true }).extract(join(dir, 'second'));
+
+      expect(requests[1]?.headers.get('if-none-match')).toBeNull();
+    });
+
+    test('should neither read nor fill the cache when disabled', async () => {
+      await extractor({ cache: false }).extract(join(dir, 'first'));
+      await extractor({ cache: false }).extract(join(dir, 'second'));
+
+      expect(requests.every(request => !request.headers.has('if-none-match'))).toBe(true);
+      expect(await readdir(join(dir, '_extensions'))).not.toContain('.cache');
+    });
+
+    test('should read but not write the cache in memory', async () => {
+      const fresh = await extractor().extractToMemory();
+      expect(fresh.manifest?.version).toBe('4.2.0');
+      expect(await readdir(dir)).toEqual([]);
+
+      await extractor().extract(join(dir, 'out'));
+      const cached = await extractor().extractToMemory();
+
+      expect(requests[2]?.headers.get('if-none-match')).toBe('"v1"');
+      expect(cached.manifest?.version).toBe('4.2.0');
+    });
+  });
+
+  describe('direct links and update manifests', () => {
+    let dir: string;
+    let server: ReturnType<typeof Bun.serve>;
+    let id: string;
+    let publicKey: Uint8Array;
+    let packages: Record<string, Uint8Array>;
+    let manifestHash: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-remote-'));
+      const key = await KeyUtils.generate('ecdsa');
+      publicKey = key.publicKey;
+      id = await ExtensionId.fromPublicKey(publicKey);
+      packages = {};
+      for (const version of ['1.0', '2.0']) {
+        const manifest = { name: 'Hosted', version, manifest_version: 3 };
+        packages[version] = await CRXWriter.build(buildZip({ 'manifest.json': JSON.stringify(manifest) }), [key]);
+      }
+      manifestHash = new Bun.CryptoHasher('sha256').update(packages['2.0'] as Uint8Array).digest('hex');
+
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const { pathname } = new URL(request.url);
+          if (pathname === '/updates.xml') {
+            return new Response(`<?xml version="1.0" encoding="UTF-8"?>
+              <gupdate xmlns="http://www.google.com/update2/response" protocol="2.0">
+                <app appid="${id}"><updatecheck codebase="/ext-1.0.crx" version="1.0"/></app>
+                <app appid="${id}"><updatecheck codebase="/ext-2.0.crx" version="2.0" hash_sha256="${manifestHash}"/></app>
+              </gupdate>`, { headers: { 'content-type': 'text/xml' } });
+          }
+          const version = pathname.match(/^\/ext-(.+)\.crx$/)?.[1];
+          const crx = version && packages[version];
+          return crx ? new Response(crx) : new Response('missing', { status: 404 });
+        }
+      });
+    });
+
+    afterEach(async () => {
+      server.stop(true);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    function extractor(input: string, overrides: Partial<typeof DEFAULT_CONFIG> = {}): CRXExtractor {
+      return new CRXExtractor(input, {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        logLevel: LogLevel.ERROR,
+        ...overrides
+      });
+    }
+
+    test('should download a CRX from a direct link', async () => {
+      const result = await extractor(`http://localhost:${server.port}/ext-1.0.crx`).extract(join(dir, 'out'));
+
+      expect(result.id).toBe(id);
+      expect(result.version).toBe('1.0');
+      expect(await readdir(join(dir, '_extensions'))).not.toContain('.cache');
+    });
+
+    test('should follow an update manifest to its newest package', async () => {
+      const result = await extractor(`http://localhost:${server.port}/updates.xml`).extractToMemory();
+
+      expect(result.id).toBe(id);
+      expect(result.manifest?.version).toBe('2.0');
+    });
+
+    test('should take the configured version from an update manifest', async () => {
+      const result = await extractor(`http://localhost:${server.port}/updates.xml`, { appVersion: '1.0' }).extract(
+        join(dir, 'out')
+      );
+
+      expect(result.version).toBe('1.0');
+      expect((await readdir(join(dir, '_extensions'))).filter(name => name.startsWith('.download_'))).toEqual([]);
+    });
+
+    test('should reject a package that does not match the manifest hash', async () => {
+      manifestHash = '0'.repeat(64);
+      const download = extractor(`http://localhost:${server.port}/updates.xml`).extractToMemory();
+      await expect(download).rejects.toThrow('does not match the SHA-256 published by the update manifest');
+    });
+
+    test('should fail when the update manifest does not list the chosen extension', async () => {
+      const other = 'cjpalhdlnbpafiamejdnhcphjbkeiagm';
+      const download = extractor(`http://localhost:${server.port}/updates.xml`, { appId: other }).extractToMemory();
+      await expect(download).rejects.toThrow(`Update manifest offers no package for ${other}`);
+    });
+
+    test('should update an extracted extension from its update_url', async () => {
+      const extracted = join(dir, 'installed');
+      await Bun.write(join(extracted, 'manifest.json'), JSON.stringify({
+        name: 'Hosted',
+        version: '1.0',
+        manifest_version: 3,
+        key: Buffer.from(publicKey).toString('base64'),
+        update_url: `http://localhost:${server.port}/updates.xml`
+      }));
+
+      const result = await extractor(extracted).extractToMemory();
+
+      expect(result.id).toBe(id);
+      expect(result.manifest?.version).toBe('2.0');
     });
   });
 
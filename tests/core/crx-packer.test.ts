@@ -0,0 +1,204 @@
+// tests/core/crx-packer.test.ts
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdir, mkdtemp, rm, stat, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CRX_MAGIC, CRX_VERSION_2, CRX_VERSION_3 } from '../../src/config/constants';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { CRXPacker } from '../../src/core/crx-packer';
+import { ExtensionId } from '../../src/crx/extension-id';
+import { CRXHeaderParser } from '../../src/crx/header';
+import { KeyUtils } from '../../src/crx/keys';
+import { CRXVerifier } from '../../src/crx/verifier';
+import { SecurityError, ValidationError } from '../../src/errors';
+import { type SigningKey } from '../../src/types';
+import { ZipReader } from '../../src/zip/reader';
+import { ZipWriter } from '../../src/zip/writer';
+
+/**
+ * Builds a CRX2 file: SHA-1 RSA signature over the ZIP, key and signature in the header.
+ */
+async function buildCrx2(zip: Uint8Array, key: SigningKey): Promise<Uint8Array> {
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', key.privateKey);
+  const sha1Key = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-1' }, false, [
+    'sign'
+  ]);
+  const signature = new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', sha1Key, zip));
+
+  const crx = new Uint8Array(16 + key.publicKey.length + signature.length + zip.length);
+  const view = new DataView(crx.buffer);
+  view.setUint32(0, CRX_MAGIC, true);
+  view.setUint32(4, CRX_VERSION_2, true);
+  view.setUint32(8, key.publicKey.length, true);
+  view.setUint32(12, signature.length, true);
+  crx.set(key.publicKey, 16);
+  crx.set(signature, 16 + key.publicKey.length);
+  crx.set(zip, 16 + key.publicKey.length + signature.length);
+  return crx;
+}
+
+describe('CRXPacker', () => {
+  let root: string;
+  let extensionDir: string;
+  let packer: CRXPacker;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'crx-packer-'));
+    extensionDir = join(root, 'myext');
+    await mkdir(join(extensionDir, 'js'), { recursive: true });
+    await writeFile(join(extensionDir, 'manifest.json'), JSON.stringify({ manifest_version: 3, name: 'My Ext', version: '1.0.0' }));
+    await writeFile(join(extensionDir, 'js', 'background.js'), 'console.log("hi");');
+    packer = new CRXPacker({ ...DEFAULT_CONFIG, allowedOutputPaths: [root], logLevel: LogLevel.ERROR });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  test('should pack a directory into a verifiable CRX3', async () => {
+    const result = await packer.pack(extensionDir);
+
+    expect(result.crxPath).toBe(`${extensionDir}.crx`);
+    expect(result.keyPath).toBe(`${extensionDir}.pem`);
+    expect(result.keyGenerated).toBe(true);
+    expect(result.fileCount).toBe(2);
+
+    const crx = new Uint8Array(await Bun.file(result.crxPath).arrayBuffer());
+    const header = CRXHeaderParser.parse(crx);
+    await CRXVerifier.verify(crx, header);
+    expect(await ExtensionId.fromHeader(header)).toBe(result.extensionId);
+
+    const reader = await ZipReader.open(crx.subarray(header.zipOffset));
+    expect(reader.entries.map(entry => entry.name)).toEqual(['js/background.js', 'manifest.json']);
+  });
+
+  test('should save generated keys with owner-only permissions', async () => {
+    const result = await packer.pack(extensionDir, { algorithm: 'ecdsa' });
+    expect((await stat(result.keyPath)).mode & 0o777).toBe(0o600);
+  });
+
+  test('should keep the same ID when repacking with the saved key', async () => {
+    const first = await packer.pack(extensionDir);
+    const second = await packer.pack(extensionDir, { keyPath: first.keyPath });
+
+    expect(second.keyGenerated).toBe(false);
+    expect(second.extensionId).toBe(first.extensionId);
+  });
+
+  test('should refuse to overwrite an existing key file', async () => {
+    await packer.pack(extensionDir);
+    await expect(packer.pack(extensionDir)).rejects.toThrow('already exists');
+  });
+
+  test('should leave the output and key files out of the package', async () => {
+    const crxPath = join(extensionDir, 'out.crx');
+    const keyPath = join(extensionDir, 'key.pem');
+    const first = await packer.pack(extensionDir, { outputPath: crxPath, algorithm: 'ecdsa' });
+    await Bun.write(keyPath, Bun.file(first.keyPath));
+
+    const result = await packer.pack(extensionDir, { outputPath: crxPath, keyPath });
+    expect(result.fileCount).toBe(2);
+  });
+
+  test('should reject directories without a valid manifest', async () => {
+    await writeFile(join(extensionDir, 'manifest.json'), '{ not json');
+    await expect(packer.pack(extensionDir)).rejects.toThrow('manifest.json is not valid JSON');
+
+    await rm(join(extensionDir, 'manifest.json'));
+    await expect(packer.pack(extensionDir)).rejects.toThrow(ValidationError);
+  });
+
+  test('should refuse symbolic links', async () => {
+    await symlink('/etc/hostname', join(extensionDir, 'link'));
+    await expect(packer.pack(extensionDir)).rejects.toThrow(SecurityError);
+  });
+
+  test('should reject a missing key file', async () => {
+    await expect(packer.pack(extensionDir, { keyPath: join(root, 'missing.pem') })).rejects.toThrow('Key file not found');
+  });
+
+  describe('convert', () => {
+    let originalKey: SigningKey;
+    let originalKeyPath: string;
+    let crx2Path: string;
+    const zip = new ZipWriter().add('manifest.json', new TextEncoder().encode('{"name":"Legacy"}')).finish();
+
+    beforeEach(async () => {
+      originalKey = await KeyUtils.generate('rsa');
+      originalKeyPath = join(root, 'legacy.pem');
+      crx2Path = join(root, 'legacy.crx');
+      await writeFile(originalKeyPath, await KeyUtils.exportPem(originalKey));
+      await Bun.write(crx2Path, await buildCrx2(zip, originalKey));
+    });
+
+    async function readResult(path: string) {
+      const crx = new Uint8Array(await Bun.file(path).arrayBuffer());
+      const header = CRXHeaderParser.parse(crx);
+      await CRXVerifier.verify(crx, header);
+      return { crx, header };
+    }
+
+    test('should re-sign a CRX2 as CRX3 keeping the ID', async () => {
+      const result = await packer.convert(crx2Path, { keyPath: originalKeyPath, keepId: true });
+
+      expect(result.crxPath).toBe(join(root, 'legacy.crx3.crx'));
+      expect(result.sourceVersion).toBe(CRX_VERSION_2);
+      expect(result.extensionId).toBe(await ExtensionId.fromPublicKey(originalKey.publicKey));
+      expect(result.originalId).toBe(result.extensionId);
+
+      const { crx, header } = await readResult(result.crxPath);
+      expect(header.version).toBe(CRX_VERSION_3);
+      expect(await ExtensionId.fromHeader(header)).toBe(result.extensionId);
+      expect(crx.subarray(header.zipOffset)).toEqual(zip);
+      expect(result.size).toBe(crx.length);
+    });
+
+    test('should re-sign with a new key when the ID may change', async () => {
+      const newKeyPath = join(root, 'new.pem');
+      await writeFile(newKeyPath, await KeyUtils.exportPem(await KeyUtils.generate('ecdsa')));
+
+      const outputPath = join(root, 'resigned.crx');
+      const result = await packer.convert(crx2Path, { keyPath: newKeyPath, outputPath });
+      expect(result.extensionId).not.toBe(result.originalId);
+
+      const { header } = await readResult(outputPath);
+      expect(header.sha256WithEcdsa).toHaveLength(1);
+    });
+
+    test('should re-sign an existing CRX3', async () => {
+      const first = await packer.convert(crx2Path, { keyPath: originalKeyPath });
+      const second = await packer.convert(first.crxPath, {
+        keyPath: originalKeyPath,
+        outputPath: join(root, 'again.crx'),
+        keepId: true
+      });
+
+      expect(second.sourceVersion).toBe(CRX_VERSION_3);
+      expect(second.extensionId).toBe(first.extensionId);
+    });
+
+    test('should refuse to keep the ID with a different key', async () => {
+      const otherKeyPath = join(root, 'other.pem');
+      await writeFile(otherKeyPath, await KeyUtils.exportPem(await KeyUtils.generate('rsa')));
+
+      await expect(packer.convert(crx2Path, { keyPath: otherKeyPath, keepId: true })).rejects.toThrow(SecurityError);
+      expect(await Bun.file(join(root, 'legacy.crx3.crx')).exists()).toBe(false);
+    });
+
+    test('should refuse to re-sign a tampered package', async () => {
+      const crx = new Uint8Array(await Bun.file(crx2Path).arrayBuffer());
+      crx[crx.length - 1] ^= 0xff;
+      await Bun.write(crx2Path, crx);
+
+      await expect(packer.convert(crx2Path, { keyPath: originalKeyPath })).rejects.toThrow(SecurityError);
+    });
+
+    test('should not overwrite the input file', async () => {
+      await expect(packer.convert(crx2Path, { keyPath: originalKeyPath, outputPath: crx2Path })).rejects.toThrow(
+        ValidationError
+      );
+    });
+  });
+});
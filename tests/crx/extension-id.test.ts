@@ -0,0 +1,90 @@
+// tests/crx/extension-id.test.ts
+
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { CRX_VERSION_2, CRX_VERSION_3 } from '../../src/config/constants';
+import { ExtensionId } from '../../src/crx/extension-id';
+import { SecurityError } from '../../src/errors';
+import { type CRXHeader } from '../../src/types';
+
+function sha256Prefix(data: Uint8Array): Uint8Array {
+  return new Bun.CryptoHasher('sha256').update(data).digest().subarray(0, 16);
+}
+
+describe('ExtensionId', () => {
+  let rsaKey: Uint8Array;
+  let ecdsaKey: Uint8Array;
+
+  beforeAll(async () => {
+    const rsa = await crypto.subtle.generateKey({
+      name: 'RSASSA-PKCS1-v1_5',
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: 'SHA-256'
+    }, true, ['sign', 'verify']);
+    const ecdsa = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    rsaKey = new Uint8Array(await crypto.subtle.exportKey('spki', rsa.publicKey));
+    ecdsaKey = new Uint8Array(await crypto.subtle.exportKey('spki', ecdsa.publicKey));
+  });
+
+  function crx3Header(crxId?: Uint8Array): CRXHeader {
+    return {
+      version: CRX_VERSION_3,
+      zipOffset: 0,
+      sha256WithRsa: [{ publicKey: rsaKey, signature: new Uint8Array() }],
+      sha256WithEcdsa: [{ publicKey: ecdsaKey, signature: new Uint8Array() }],
+      crxId
+    };
+  }
+
+  describe('fromCrxId', () => {
+    test('should map each nibble to a-p', () => {
+      const bytes = new Uint8Array([0x00, 0x01, 0x23, 0x45, 0x67, 0x89, 0xab, 0xcd, 0xef, 0xff, 0, 0, 0, 0, 0, 0]);
+      expect(ExtensionId.fromCrxId(bytes)).toBe('aaabcdefghijklmnopppaaaaaaaaaaaa');
+    });
+
+    test('should produce 32 characters in the a-p alphabet', () => {
+      expect(ExtensionId.fromCrxId(sha256Prefix(rsaKey))).toMatch(/^[a-p]{32}$/);
+    });
+  });
+
+  describe('fromPublicKey', () => {
+    test('should hash the public key', async () => {
+      expect(await ExtensionId.fromPublicKey(rsaKey)).toBe(ExtensionId.fromCrxId(sha256Prefix(rsaKey)));
+    });
+  });
+
+  describe('fromHeader', () => {
+    test('should return the crx_id when a proof key matches it', async () => {
+      const id = await ExtensionId.fromHeader(crx3Header(sha256Prefix(ecdsaKey)));
+      expect(id).toBe(await ExtensionId.fromPublicKey(ecdsaKey));
+    });
+
+    test('should reject a crx_id no key derives to', async () => {
+      await expect(ExtensionId.fromHeader(crx3Header(new Uint8Array(16)))).rejects.toThrow(SecurityError);
+    });
+
+    test('should reject a crx_id of the wrong length', async () => {
+      await expect(ExtensionId.fromHeader(crx3Header(new Uint8Array(8)))).rejects.toThrow('Invalid crx_id length');
+    });
+
+    test('should fall back to the first key without a crx_id', async () => {
+      expect(await ExtensionId.fromHeader(crx3Header())).toBe(await ExtensionId.fromPublicKey(rsaKey));
+    });
+
+    test('should derive CRX2 IDs from the single key', async () => {
+      const header: CRXHeader = {
+        version: CRX_VERSION_2,
+        zipOffset: 0,
+        sha256WithRsa: [],
+        sha256WithEcdsa: [],
+        sha1WithRsa: { publicKey: rsaKey, signature: new Uint8Array() }
+      };
+      expect(await ExtensionId.fromHeader(header)).toBe(await ExtensionId.fromPublicKey(rsaKey));
+    });
+
+    test('should return null for unsigned packages', async () => {
+      const header: CRXHeader = { version: CRX_VERSION_3, zipOffset: 0, sha256WithRsa: [], sha256WithEcdsa: [] };
+      expect(await ExtensionId.fromHeader(header)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// tests/crx/header.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { CRX_VERSION_2, CRX_VERSION_3 } from '../../src/config/constants';
+import { CRXHeaderParser } from '../../src/crx/header';
+import { ValidationError } from '../../src/errors';
+import { type ByteSource, MemorySource } from '../../src/zip/source';
+
+const MAGIC = [0x43, 0x72, 0x32, 0x34];
+const ZIP = [0x50, 0x4b, 0x05, 0x06, ...new Array(18).fill(0)];
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function field(fieldNumber: number, bytes: number[]): number[] {
+  return [...varint(fieldNumber * 8 + 2), ...varint(bytes.length), ...bytes];
+}
+
+function u32(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >> 24) & 0xff];
+}
+
+function crx3(header: number[]): Uint8Array {
+  return new Uint8Array([...MAGIC, ...u32(CRX_VERSION_3), ...u32(header.length), ...header, ...ZIP]);
+}
+
+describe('CRXHeaderParser', () => {
+  test('should parse CRX3 proofs and crx_id', () => {
+    const rsaProof = field(2, [...field(1, [1, 2, 3]), ...field(2, [4, 5])]);
+    const ecdsaProof = field(3, [...field(1, [6]), ...field(2, [7, 8, 9])]);
+    const signedData = field(1, new Array(16).fill(0xaa));
+    const header = [...rsaProof, ...ecdsaProof, ...field(10000, signedData)];
+    const buffer = crx3(header);
+
+    const parsed = CRXHeaderParser.parse(buffer);
+
+    expect(parsed.version).toBe(CRX_VERSION_3);
+    expect(parsed.zipOffset).toBe(12 + header.length);
+    expect(parsed.sha256WithRsa).toEqual([{ publicKey: new Uint8Array([1, 2, 3]), signature: new Uint8Array([4, 5]) }]);
+    expect(parsed.sha256WithEcdsa).toEqual([{
+      publicKey: new Uint8Array([6]),
+      signature: new Uint8Array([7, 8, 9])
+    }]);
+    expect(parsed.signedHeaderData).toEqual(new Uint8Array(signedData));
+    expect(parsed.crxId).toEqual(new Uint8Array(16).fill(0xaa));
+    expect(parsed.sha1WithRsa).toBeUndefined();
+  });
+
+  test('should collect multiple proofs of the same type', () => {
+    const proof = field(2, [...field(1, [1]), ...field(2, [2])]);
+    const parsed = CRXHeaderParser.parse(crx3([...proof, ...proof]));
+    expect(parsed.sha256WithRsa).toHaveLength(2);
+    expect(parsed.crxId).toBeUndefined();
+  });
+
+  test('should ignore unknown header fields', () => {
+    const parsed = CRXHeaderParser.parse(crx3(field(7, [1, 2, 3])));
+    expect(parsed.sha256WithRsa).toEqual([]);
+    expect(parsed.sha256WithEcdsa).toEqual([]);
+  });
+
+  test('should parse CRX2 key and signature', () => {
+    const buffer = new Uint8Array([...MAGIC, ...u32(CRX_VERSION_2), ...u32(3), ...u32(2), 1, 2, 3, 4, 5, ...ZIP]);
+
+    const parsed = CRXHeaderParser.parse(buffer);
+
+    expect(parsed.version).toBe(CRX_VERSION_2);
+    expect(parsed.zipOffset).toBe(21);
+    expect(parsed.sha1WithRsa).toEqual({ publicKey: new Uint8Array([1, 2, 3]), signature: new Uint8Array([4, 5]) });
+    expect(parsed.sha256WithRsa).toEqual([]);
+  });
+
+  test('should reject invalid magic number', () => {
+    const buffer = new Uint8Array([0, 0, 0, 0, ...u32(CRX_VERSION_3), ...u32(0), ...ZIP]);
+    expect(() => CRXHeaderParser.parse(buffer)).toThrow('Invalid CRX magic number: 0x0');
+  });
+
+  test('should reject unsupported versions', () => {
+    const buffer = new Uint8Array([...MAGIC, ...u32(4), ...u32(0), ...ZIP]);
+    expect(() => CRXHeaderParser.parse(buffer)).toThrow('Unsupported CRX version: 4');
+  });
+
+  test('should reject header sizes beyond the file', () => {
+    const buffer = new Uint8Array([...MAGIC, ...u32(CRX_VERSION_3), ...u32(1000), ...ZIP]);
+    expect(() => CRXHeaderParser.parse(buffer)).toThrow(ValidationError);
+  });
+
+  test('should reject malformed protobuf headers', () => {
+    expect(() => CRXHeaderParser.parse(crx3([0x12, 0x10, 0x01]))).toThrow('malformed CrxFileHeader');
+  });
+
+  test('should reject proofs without a public key', () => {
+    const proof = field(2, field(2, [1]));
+    expect(() => CRXHeaderParser.parse(crx3(proof))).toThrow('missing its public key or signature');
+  });
+
+  describe('read', () => {
+    /** Records every range requested from the underlying buffer */
+    function trackedSource(buffer: Uint8Array): ByteSource & { bytesRead: number } {
+      const inner = new MemorySource(buffer);
+      return {
+        size: inner.size,
+        bytesRead: 0,
+        async read(offset, length) {
+          const bytes = await inner.read(offset, length);
+          this.bytesRead += bytes.length;
+          return bytes;
+        }
+      };
+    }
+
+    test('should read only the header bytes', async () => {
+      const header = field(10000, field(1, new Array(16).fill(7)));
+      const buffer = crx3(header);
+      const source = trackedSource(buffer);
+
+      const parsed = await CRXHeaderParser.read(source);
+      expect(parsed).toEqual(CRXHeaderParser.parse(buffer));
+      expect(source.bytesRead).toBe(16 + 12 + header.length);
+    });
+
+    test('should read CRX2 headers', async () => {
+      const buffer = new Uint8Array([...MAGIC, ...u32(CRX_VERSION_2), ...u32(2), ...u32(1), 9, 9, 8, ...ZIP]);
+      const parsed = await CRXHeaderParser.read(new MemorySource(buffer));
+      expect(parsed.zipOffset).toBe(19);
+      expect(parsed.sha1WithRsa?.signature).toEqual(new Uint8Array([8]));
+    });
+
+    test('should refuse oversized headers without reading them', async () => {
+      const buffer = new Uint8Array([...MAGIC, ...u32(CRX_VERSION_3), ...u32(64 * 1024 * 1024), ...ZIP]);
+      const source = trackedSource(buffer);
+      await expect(CRXHeaderParser.read(source)).rejects.toThrow('CRX header too large');
+      expect(source.bytesRead).toBe(16);
+    });
+
+    test('should report bad magic numbers and versions', async () => {
+      const badMagic = new Uint8Array([0, 0, 0, 0, ...u32(CRX_VERSION_3), ...u32(0), ...ZIP]);
+      await expect(CRXHeaderParser.read(new MemorySource(badMagic))).rejects.toThrow('Invalid CRX magic number');
+
+      const badVersion = new Uint8Array([...MAGIC, ...u32(4), ...u32(0), ...ZIP]);
+      await expect(CRXHeaderParser.read(new MemorySource(badVersion))).rejects.toThrow('Unsupported CRX version: 4');
+    });
+  });
+});
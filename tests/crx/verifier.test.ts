@@ -0,0 +1,154 @@
+// tests/crx/verifier.test.ts
+
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { createSign, KeyObject } from 'node:crypto';
+import { CRX_VERSION_2, CRX_VERSION_3 } from '../../src/config/constants';
+import { CRXVerifier } from '../../src/crx/verifier';
+import { SecurityError } from '../../src/errors';
+import { type CRXHeader } from '../../src/types';
+import { type ByteSource, MemorySource } from '../../src/zip/source';
+
+const ZIP = new Uint8Array([0x50, 0x4b, 0x05, 0x06, ...new Array(18).fill(0)]);
+const RSA_PARAMS = { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) };
+
+function withZip(header: CRXHeader, zip: Uint8Array): Uint8Array {
+  const buffer = new Uint8Array(header.zipOffset + zip.length);
+  buffer.set(zip, header.zipOffset);
+  return buffer;
+}
+
+describe('CRXVerifier', () => {
+  let rsaKeys: CryptoKeyPair;
+  let ecdsaKeys: CryptoKeyPair;
+  let rsaPublicKey: Uint8Array;
+  let ecdsaPublicKey: Uint8Array;
+  const signedHeaderData = new Uint8Array([0x0a, 0x02, 0xab, 0xcd]);
+
+  beforeAll(async () => {
+    rsaKeys = await crypto.subtle.generateKey({ ...RSA_PARAMS, hash: 'SHA-256' }, true, ['sign', 'verify']);
+    ecdsaKeys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    rsaPublicKey = new Uint8Array(await crypto.subtle.exportKey('spki', rsaKeys.publicKey));
+    ecdsaPublicKey = new Uint8Array(await crypto.subtle.exportKey('spki', ecdsaKeys.publicKey));
+  });
+
+  async function signCrx3(zip: Uint8Array): Promise<CRXHeader> {
+    const prefix = CRXVerifier.buildCrx3SignedPrefix(signedHeaderData);
+    const data = new Uint8Array(prefix.length + zip.length);
+    data.set(prefix, 0);
+    data.set(zip, prefix.length);
+    const rsaSignature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', rsaKeys.privateKey, data);
+    // CRX carries ECDSA signatures in DER, which node:crypto emits and WebCrypto doesn't
+    const ecdsaDer = createSign('sha256').update(data).sign(KeyObject.from(ecdsaKeys.privateKey));
+    return {
+      version: CRX_VERSION_3,
+      zipOffset: 64,
+      sha256WithRsa: [{ publicKey: rsaPublicKey, signature: new Uint8Array(rsaSignature) }],
+      sha256WithEcdsa: [{ publicKey: ecdsaPublicKey, signature: new Uint8Array(ecdsaDer) }],
+      signedHeaderData
+    };
+  }
+
+  describe('buildCrx3SignedPrefix', () => {
+    test('should prefix the signed header with its context and length', () => {
+      const data = CRXVerifier.buildCrx3SignedPrefix(new Uint8Array([1, 2]));
+      expect(new TextDecoder().decode(data.subarray(0, 16))).toBe('CRX3 SignedData\x00');
+      expect(Array.from(data.subarray(16))).toEqual([2, 0, 0, 0, 1, 2]);
+    });
+  });
+
+  describe('CRX3', () => {
+    test('should accept valid RSA and ECDSA proofs', async () => {
+      const header = await signCrx3(ZIP);
+      await expect(CRXVerifier.verify(withZip(header, ZIP), header)).resolves.toBeUndefined();
+    });
+
+    test('should reject a tampered ZIP payload', async () => {
+      const header = await signCrx3(ZIP);
+      const tampered = new Uint8Array(ZIP);
+      tampered[10] = 0xff;
+      await expect(CRXVerifier.verify(withZip(header, tampered), header)).rejects.toThrow(SecurityError);
+    });
+
+    test('should reject tampered signed header data', async () => {
+      const header = await signCrx3(ZIP);
+      const forged = { ...header, signedHeaderData: new Uint8Array([0x0a, 0x02, 0x00, 0x00]) };
+      await expect(CRXVerifier.verify(withZip(forged, ZIP), forged)).rejects.toThrow('RSA signature #1');
+    });
+
+    test('should reject a bad ECDSA signature', async () => {
+      const header = await signCrx3(ZIP);
+      const other = await signCrx3(new Uint8Array([1, 2, 3]));
+      const forged = { ...header, sha256WithEcdsa: other.sha256WithEcdsa };
+      await expect(CRXVerifier.verify(withZip(forged, ZIP), forged)).rejects.toThrow('ECDSA signature #1');
+    });
+
+    test('should reject unsigned packages', async () => {
+      const header: CRXHeader = { version: CRX_VERSION_3, zipOffset: 12, sha256WithRsa: [], sha256WithEcdsa: [] };
+      await expect(CRXVerifier.verify(withZip(header, ZIP), header)).rejects.toThrow('CRX3 file has no signatures');
+    });
+
+    test('should stream the ZIP from a byte source', async () => {
+      const zip = new Uint8Array(3 * 1024 * 1024 + 5).fill(0x5a);
+      const header = await signCrx3(zip);
+      const inner = new MemorySource(withZip(header, zip));
+      const reads: number[] = [];
+      const source: ByteSource = {
+        size: inner.size,
+        read: (offset, length) => {
+          reads.push(length);
+          return inner.read(offset, length);
+        }
+      };
+
+      await expect(CRXVerifier.verify(source, header)).resolves.toBeUndefined();
+      expect(reads.length).toBeGreaterThan(1);
+      expect(Math.max(...reads)).toBeLessThanOrEqual(1024 * 1024);
+    });
+
+    test('should reject ECDSA keys on other curves', async () => {
+      const p384 = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-384' }, true, ['sign', 'verify']);
+      const header = await signCrx3(ZIP);
+      const forged = {
+        ...header,
+        sha256WithEcdsa: [{
+          publicKey: new Uint8Array(await crypto.subtle.exportKey('spki', p384.publicKey)),
+          signature: new Uint8Array(8)
+        }]
+      };
+      await expect(CRXVerifier.verify(withZip(forged, ZIP), forged)).rejects.toThrow('invalid ECDSA public key');
+    });
+
+    test('should reject malformed public keys', async () => {
+      const header = await signCrx3(ZIP);
+      const rsaProof = header.sha256WithRsa[0];
+      const forged = {
+        ...header,
+        sha256WithRsa: [{ publicKey: new Uint8Array([1, 2, 3]), signature: rsaProof?.signature ?? new Uint8Array() }]
+      };
+      await expect(CRXVerifier.verify(withZip(forged, ZIP), forged)).rejects.toThrow('invalid RSA public key');
+    });
+  });
+
+  describe('CRX2', () => {
+    test('should verify the SHA-1 RSA signature over the ZIP', async () => {
+      const keys = await crypto.subtle.generateKey({ ...RSA_PARAMS, hash: 'SHA-1' }, true, ['sign', 'verify']);
+      const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keys.publicKey));
+      const signature = new Uint8Array(await crypto.subtle.sign('RSASSA-PKCS1-v1_5', keys.privateKey, ZIP));
+      const header: CRXHeader = {
+        version: CRX_VERSION_2,
+        zipOffset: 16,
+        sha256WithRsa: [],
+        sha256WithEcdsa: [],
+        sha1WithRsa: { publicKey, signature }
+      };
+
+      await expect(CRXVerifier.verify(withZip(header, ZIP), header)).resolves.toBeUndefined();
+
+      const tampered = new Uint8Array(ZIP);
+      tampered[4] = 1;
+      await expect(CRXVerifier.verify(withZip(header, tampered), header)).rejects.toThrow(
+        'CRX2 signature verification failed'
+      );
+    });
+  });
+});
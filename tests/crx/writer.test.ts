@@ -0,0 +1,67 @@
+// tests/crx/writer.test.ts
+
+import { beforeAll, describe, expect, test } from 'bun:test';
+import { CRX_VERSION_3 } from '../../src/config/constants';
+import { ExtensionId } from '../../src/crx/extension-id';
+import { CRXHeaderParser } from '../../src/crx/header';
+import { KeyUtils } from '../../src/crx/keys';
+import { CRXVerifier } from '../../src/crx/verifier';
+import { CRXWriter } from '../../src/crx/writer';
+import { SecurityError, ValidationError } from '../../src/errors';
+import { type SigningKey } from '../../src/types';
+import { MemorySource } from '../../src/zip/source';
+import { ZipWriter } from '../../src/zip/writer';
+
+describe('CRXWriter', () => {
+  let rsaKey: SigningKey;
+  let ecdsaKey: SigningKey;
+  const zip = new ZipWriter().add('manifest.json', new TextEncoder().encode('{}')).finish();
+
+  beforeAll(async () => {
+    rsaKey = await KeyUtils.generate('rsa');
+    ecdsaKey = await KeyUtils.generate('ecdsa');
+  });
+
+  test('should write a CRX3 that parses and verifies', async () => {
+    const crx = await CRXWriter.build(zip, [rsaKey]);
+    const header = CRXHeaderParser.parse(crx);
+
+    expect(header.version).toBe(CRX_VERSION_3);
+    expect(header.sha256WithRsa).toHaveLength(1);
+    expect(crx.subarray(header.zipOffset)).toEqual(zip);
+    await expect(CRXVerifier.verify(crx, header)).resolves.toBeUndefined();
+  });
+
+  test('should derive the extension ID from the developer key', async () => {
+    const crx = await CRXWriter.build(zip, [ecdsaKey, rsaKey]);
+    const header = CRXHeaderParser.parse(crx);
+
+    expect(header.sha256WithEcdsa).toHaveLength(1);
+    expect(header.sha256WithRsa).toHaveLength(1);
+    await expect(CRXVerifier.verify(crx, header)).resolves.toBeUndefined();
+    expect(await ExtensionId.fromHeader(header)).toBe(await ExtensionId.fromPublicKey(ecdsaKey.publicKey));
+  });
+
+  test('should produce signatures that fail on a modified payload', async () => {
+    const crx = await CRXWriter.build(zip, [rsaKey]);
+    const header = CRXHeaderParser.parse(crx);
+    crx[crx.length - 1] ^= 0xff;
+    await expect(CRXVerifier.verify(crx, header)).rejects.toThrow(SecurityError);
+  });
+
+  test('should sign a payload spanning several read chunks', async () => {
+    const payload = new Uint8Array(2.5 * 1024 * 1024).map((_, i) => i % 251);
+    const crxHeader = await CRXWriter.buildHeader(new MemorySource(payload), [rsaKey, ecdsaKey]);
+    const crx = new Uint8Array(crxHeader.length + payload.length);
+    crx.set(crxHeader, 0);
+    crx.set(payload, crxHeader.length);
+    const header = CRXHeaderParser.parse(crx);
+
+    expect(header.zipOffset).toBe(crxHeader.length);
+    await expect(CRXVerifier.verify(crx, header)).resolves.toBeUndefined();
+  });
+
+  test('should require a signing key', async () => {
+    await expect(CRXWriter.build(zip, [])).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,299 @@
+// tests/download/downloader.test.ts
+
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { Downloader } from '../../src/download/downloader';
+import { DownloadError, ValidationError } from '../../src/errors';
+
+const URL_ = new URL('https://example.com/ext.crx');
+const DATA = Uint8Array.from({ length: 1000 }, (_, i) => i % 251);
+
+/** A 200 response declaring the full length whose body breaks off after `cut` bytes */
+function interrupted(cut: number, headers: Record<string, string> = {}): Response {
+  let sent = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) {
+        controller.error(new Error('ECONNRESET'));
+      } else {
+        controller.enqueue(DATA.slice(0, cut));
+        sent = true;
+      }
+    }
+  });
+  return new Response(body, { headers: { 'content-length': String(DATA.length), ...headers } });
+}
+
+/** A 200 response that sends `cut` bytes and then nothing more, until its request is aborted */
+function stalled(cut: number, signal: AbortSignal): Response {
+  let sent = false;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (!sent) {
+        controller.enqueue(DATA.slice(0, cut));
+        sent = true;
+        return;
+      }
+      return new Promise(resolve => signal.addEventListener('abort', resolve));
+    }
+  });
+  return new Response(body, { headers: { 'content-length': String(DATA.length), 'etag': '"v1"' } });
+}
+
+function partial(start: number): Response {
+  return new Response(DATA.slice(start), {
+    status: 206,
+    headers: { 'content-range': `bytes ${start}-${DATA.length - 1}/${DATA.length}` }
+  });
+}
+
+describe('Downloader', () => {
+  let fetchSpy: any;
+  const config = { ...DEFAULT_CONFIG, retries: 2, retryDelay: 1, logLevel: LogLevel.ERROR };
+  const options = { maxSize: 4096 };
+
+  beforeEach(() => {
+    fetchSpy = spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  function requestHeaders(call: number): Record<string, string> {
+    return fetchSpy.mock.calls[call][1].headers;
+  }
+
+  test('should retry a transient status and honour Retry-After', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(new Response('busy', { status: 503, headers: { 'retry-after': '0' } }))
+      .mockResolvedValueOnce(new Response(DATA));
+
+    const { data, resumed } = await new Downloader(config).toMemory(URL_, options);
+
+    expect(data).toEqual(DATA);
+    expect(resumed).toBe(false);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  test('should retry network errors', async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response(DATA));
+
+    const { data } = await new Downloader(config).toMemory(URL_, options);
+    expect(data).toEqual(DATA);
+  });
+
+  test('should not retry client errors', async () => {
+    fetchSpy.mockResolvedValue(new Response('missing', { status: 404, statusText: 'Not Found' }));
+
+    await expect(new Downloader(config).toMemory(URL_, options)).rejects.toThrow('Download failed: 404 Not Found');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should give up once the retries are used', async () => {
+    fetchSpy.mockImplementation(() => Promise.resolve(new Response('busy', { status: 503 })));
+
+    await expect(new Downloader(config).toMemory(URL_, options)).rejects.toThrow(DownloadError);
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  test('should resume an interrupted body with a Range request', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(interrupted(400, { etag: '"v1"' }))
+      .mockResolvedValueOnce(partial(400));
+    const progress: { received: number, total: number | null }[] = [];
+
+    const { data, resumed } = await new Downloader(config).toMemory(URL_, {
+      ...options,
+      onProgress: event => progress.push(event)
+    });
+
+    expect(data).toEqual(DATA);
+    expect(resumed).toBe(true);
+    expect(requestHeaders(1).Range).toBe('bytes=400-');
+    expect(requestHeaders(1)['If-Range']).toBe('"v1"');
+    expect(progress.at(-1)).toEqual({ received: DATA.length, total: DATA.length });
+  });
+
+  test('should resume a body that ends before its declared length', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(new Response(DATA.slice(0, 600), { headers: { 'content-length': '1000' } }))
+      .mockResolvedValueOnce(partial(600));
+
+    const { data, resumed } = await new Downloader(config).toMemory(URL_, options);
+
+    expect(data).toEqual(DATA);
+    expect(resumed).toBe(true);
+  });
+
+  test('should time out a stalled body and resume it', async () => {
+    fetchSpy
+      .mockImplementationOnce((_url: string, init: RequestInit) => Promise.resolve(stalled(300, init.signal!)))
+      .mockResolvedValueOnce(partial(300));
+
+    const { data, resumed } = await new Downloader({ ...config, downloadTimeout: 50 }).toMemory(URL_, options);
+
+    expect(data).toEqual(DATA);
+    expect(resumed).toBe(true);
+    expect(requestHeaders(1).Range).toBe('bytes=300-');
+  });
+
+  test('should not time out a body that keeps arriving', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        // Slower in total than the timeout, but never idle for that long
+        for (let i = 0;i < 5;i++) {
+          await Bun.sleep(20);
+          controller.enqueue(DATA.slice(i * 200, (i + 1) * 200));
+        }
+        controller.close();
+      }
+    });
+    fetchSpy.mockResolvedValueOnce(new Response(body));
+
+    const { data } = await new Downloader({ ...config, downloadTimeout: 60, retries: 0 }).toMemory(URL_, options);
+    expect(data).toEqual(DATA);
+  });
+
+  test('should give up on a body that keeps stalling', async () => {
+    fetchSpy.mockImplementation((_url: string, init: RequestInit) => Promise.resolve(stalled(0, init.signal!)));
+
+    const downloader = new Downloader({ ...config, downloadTimeout: 20 });
+    await expect(downloader.toMemory(URL_, options)).rejects.toThrow('Download stalled: no data received for 20ms');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  test('should start over when the server ignores the Range request', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(interrupted(400))
+      .mockResolvedValueOnce(new Response(DATA));
+
+    const { data, resumed } = await new Downloader(config).toMemory(URL_, options);
+
+    expect(data).toEqual(DATA);
+    expect(resumed).toBe(false);
+  });
+
+  test('should resume into the same file on disk', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'crx-downloader-'));
+    try {
+      fetchSpy
+        .mockResolvedValueOnce(interrupted(250))
+        .mockResolvedValueOnce(partial(250));
+
+      const { data, resumed } = await new Downloader(config).toFile(URL_, join(dir, 'ext.crx'), options);
+
+      expect(resumed).toBe(true);
+      expect(new Uint8Array(await data.arrayBuffer())).toEqual(DATA);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should remove the file when the download fails', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'crx-downloader-'));
+    try {
+      fetchSpy.mockImplementation(() => Promise.resolve(interrupted(250)));
+
+      await expect(new Downloader(config).toFile(URL_, join(dir, 'ext.crx'), options)).rejects.toThrow(DownloadError);
+      expect(await readdir(dir)).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should make a conditional request for a cached copy', async () => {
+    fetchSpy.mockResolvedValue(new Response(null, { status: 304 }));
+    const cached = { etag: '"v1"', lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT' };
+
+    expect(await new Downloader(config).toMemory(URL_, { ...options, cached })).toBeNull();
+    expect(requestHeaders(0)['If-None-Match']).toBe('"v1"');
+    expect(requestHeaders(0)['If-Modified-Since']).toBe(cached.lastModified);
+  });
+
+  test('should report the validators of a changed download', async () => {
+    fetchSpy.mockResolvedValue(new Response(DATA, { headers: { etag: '"v2"' } }));
+
+    const cached = { etag: '"v1"', lastModified: null };
+
+    const download = await new Downloader(config).toMemory(URL_, { ...options, cached });
+
+    expect(download?.data).toEqual(DATA);
+    expect(download?.etag).toBe('"v2"');
+    expect(download?.lastModified).toBeNull();
+  });
+
+  test('should leave no file behind when the cached copy is current', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'crx-downloader-'));
+    try {
+      fetchSpy.mockResolvedValue(new Response(null, { status: 304 }));
+      const cached = { etag: '"v1"', lastModified: null };
+
+      expect(await new Downloader(config).toFile(URL_, join(dir, 'ext.crx'), { ...options, cached })).toBeNull();
+      expect(await readdir(dir)).toEqual([]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should send configured headers without letting them override the protocol', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(interrupted(400, { etag: '"v1"' }))
+      .mockResolvedValueOnce(partial(400));
+    const headers = { 'user-agent': 'crx-tool/1.0', 'Authorization': 'Bearer token', 'Range': 'bytes=0-' };
+
+    await new Downloader({ ...config, headers }).toMemory(URL_, options);
+
+    expect(requestHeaders(0)).toEqual({ 'user-agent': 'crx-tool/1.0', 'Authorization': 'Bearer token', 'Range': 'bytes=0-' });
+    expect(requestHeaders(1)).toMatchObject({ Authorization: 'Bearer token', Range: 'bytes=400-' });
+  });
+
+  test('should route requests through the configured proxy', async () => {
+    fetchSpy.mockImplementation(() => Promise.resolve(new Response(DATA)));
+
+    await new Downloader({ ...config, proxy: 'http://proxy.corp:3128' }).toMemory(URL_, options);
+    await new Downloader({ ...config, proxy: 'http://proxy.corp:3128', noProxy: '.example.com' }).toMemory(URL_, options);
+
+    expect(fetchSpy.mock.calls[0][1].proxy).toBe('http://proxy.corp:3128');
+    expect(fetchSpy.mock.calls[1][1].proxy).toBeUndefined();
+  });
+
+  test('should trust the configured CA file alongside the built-in roots', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'crx-downloader-'));
+    try {
+      const caFile = join(dir, 'ca.pem');
+      const pem = '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\n';
+      await Bun.write(caFile, pem);
+      fetchSpy.mockImplementation(() => Promise.resolve(new Response(DATA)));
+
+      await new Downloader({ ...config, caFile }).toMemory(URL_, options);
+
+      const { ca } = fetchSpy.mock.calls[0][1].tls;
+      expect(ca.at(-1)).toBe(pem);
+      expect(ca.length).toBeGreaterThan(1);
+
+      const missing = new Downloader({ ...config, caFile: join(dir, 'missing.pem') }).toMemory(URL_, options);
+      await expect(missing).rejects.toThrow(ValidationError);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should hash data in memory and on disk alike', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'crx-downloader-'));
+    try {
+      const path = join(dir, 'data.bin');
+      await Bun.write(path, DATA);
+      expect(await Downloader.sha256(Bun.file(path))).toBe(await Downloader.sha256(DATA));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,134 @@
+// tests/input/resolver.test.ts
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { ValidationError } from '../../src/errors';
+import { InputResolver } from '../../src/input/resolver';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+
+describe('InputResolver', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    // Bare names are resolved against the working directory
+    dir = await mkdtemp(join(tmpdir(), 'crx-input-'));
+    process.chdir(dir);
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should detect IDs, URLs, stdin and paths', async () => {
+    expect(await InputResolver.resolve(ID)).toEqual({ kind: 'webstore-id', store: 'chrome', id: ID });
+    expect(await InputResolver.resolve('-')).toEqual({ kind: 'stdin' });
+    expect(await InputResolver.resolve('https://example.com/ext.crx')).toEqual({
+      kind: 'http-url',
+      url: 'https://example.com/ext.crx'
+    });
+    expect(await InputResolver.resolve('./builds/missing.crx')).toEqual({
+      kind: 'local-file',
+      path: './builds/missing.crx'
+    });
+  });
+
+  test('should parse old and new Web Store URLs', async () => {
+    const urls = [
+      `https://chromewebstore.google.com/detail/${ID}`,
+      `https://chromewebstore.google.com/detail/metamask/${ID}/?hl=en`,
+      `https://chrome.google.com/webstore/detail/${ID}`,
+      `https://chrome.google.com/webstore/detail/metamask/${ID}#reviews`
+    ];
+    for (const url of urls) {
+      expect(await InputResolver.resolve(url)).toMatchObject({ kind: 'webstore-url', store: 'chrome', id: ID });
+    }
+
+    const invalid = [
+      'https://chromewebstore.google.com/category/extensions',
+      `https://chromewebstore.google.com/detail/a/b/${ID}`,
+      `https://chrome.google.com/detail/${ID}`,
+      'https://chromewebstore.google.com/detail/metamask/abcdefghijklmnopqrstuvwxyzabcdef'
+    ];
+    for (const url of invalid) {
+      await expect(InputResolver.resolve(url)).rejects.toThrow(ValidationError);
+    }
+  });
+
+  test('should reject IDs with letters outside a to p', async () => {
+    const outsideAlphabet = InputResolver.resolve('abcdefghijklmnopqrstuvwxyzabcdef');
+    await expect(outsideAlphabet).rejects.toThrow('IDs are 32 letters from a to p');
+    await expect(InputResolver.resolve(ID.toUpperCase())).rejects.toThrow(ValidationError);
+  });
+
+  test('should prefer existing files, even when named like an ID', async () => {
+    await Bun.write(join(dir, ID), 'package');
+    await Bun.write(join(dir, 'builds', `${ID}.crx`), 'package');
+
+    expect(await InputResolver.resolve(ID)).toEqual({ kind: 'local-file', path: ID });
+    const path = `./builds/${ID}.crx`;
+    expect(await InputResolver.resolve(path)).toEqual({ kind: 'local-file', path });
+  });
+
+  test('should take directories with a manifest as extracted extensions', async () => {
+    await Bun.write(join(dir, 'installed', 'manifest.json'), '{}');
+    await Bun.write(join(dir, 'empty', 'README'), '');
+
+    expect(await InputResolver.resolve('installed')).toEqual({ kind: 'extension-directory', path: 'installed' });
+    await expect(InputResolver.resolve('empty')).rejects.toThrow('is a directory without a manifest.json');
+  });
+
+  test('should honour a forced input type', async () => {
+    await Bun.write(join(dir, ID), 'package');
+
+    expect(await InputResolver.resolve(ID, 'id')).toEqual({ kind: 'webstore-id', store: 'chrome', id: ID });
+    expect(await InputResolver.resolve('-', 'file')).toEqual({ kind: 'local-file', path: '-' });
+    expect(await InputResolver.resolve(`https://chromewebstore.google.com/detail/${ID}`, 'url')).toMatchObject({
+      kind: 'webstore-url',
+      id: ID
+    });
+
+    await expect(InputResolver.resolve('ext.crx', 'id')).rejects.toThrow(ValidationError);
+    await expect(InputResolver.resolve(ID, 'url')).rejects.toThrow('Invalid URL');
+    await expect(InputResolver.resolve('ftp://example.com/ext.crx', 'url')).rejects.toThrow('must use http or https');
+  });
+
+  test('should parse Edge Add-ons URLs and send bare IDs to the configured store', async () => {
+    const url = `https://microsoftedge.microsoft.com/addons/detail/ublock-origin/${ID}`;
+    expect(await InputResolver.resolve(url)).toEqual({ kind: 'webstore-url', store: 'edge', id: ID, url });
+    await expect(InputResolver.resolve('https://microsoftedge.microsoft.com/addons/category/Blogging'))
+      .rejects.toThrow('Not an extension detail page on Edge Add-ons');
+
+    const config = { ...DEFAULT_CONFIG, store: 'edge' };
+    expect(await InputResolver.resolve(ID, undefined, config)).toEqual({ kind: 'webstore-id', store: 'edge', id: ID });
+    const unknown = InputResolver.resolve(ID, 'id', { ...DEFAULT_CONFIG, store: 'opera' });
+    await expect(unknown).rejects.toThrow('Unknown store "opera"');
+  });
+
+  test('should read store listings without touching the file system', () => {
+    expect(InputResolver.storeListing(ID)).toEqual({ store: 'chrome', id: ID });
+    expect(InputResolver.storeListing(`https://chromewebstore.google.com/detail/name/${ID}`)).toEqual({
+      store: 'chrome',
+      id: ID
+    });
+    expect(InputResolver.storeListing(`https://microsoftedge.microsoft.com/addons/detail/${ID}`)).toEqual({
+      store: 'edge',
+      id: ID
+    });
+    expect(InputResolver.storeListing('https://example.com/ext.crx')).toBeNull();
+    expect(InputResolver.storeListing('https://chromewebstore.google.com/')).toBeNull();
+    expect(InputResolver.storeListing(`./builds/${ID}.crx`)).toBeNull();
+  });
+
+  test('should find the ID in an output directory name', () => {
+    expect(InputResolver.idFromDirectoryName(`_extensions/MetaMask_${ID}/`)).toBe(ID);
+    expect(InputResolver.idFromDirectoryName(`/tmp/${ID}`)).toBe(ID);
+    expect(InputResolver.idFromDirectoryName(`/tmp/prefix${ID}`)).toBeNull();
+    expect(InputResolver.idFromDirectoryName(`/tmp/${ID}/metamask`)).toBeNull();
+  });
+});
@@ -116,5 +116,17 @@ describe('Logger', () => {
 
       expect(consoleErrorSpy).toHaveBeenCalledTimes(1);
     });
+
+    test('should log nothing when silent', () => {
+      const logger = new Logger(LogLevel.SILENT);
+      logger.debug('Debug');
+      logger.info('Info');
+      logger.warn('Warn');
+      logger.error('Error occurred', new Error('Test error'));
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+    });
   });
 });
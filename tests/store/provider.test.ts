@@ -0,0 +1,53 @@
+// tests/store/provider.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { CHROME_WEBSTORE_DETAIL_PATHS } from '../../src/config/constants';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { DownloadError, ValidationError } from '../../src/errors';
+import { UpdateServiceStore } from '../../src/store/provider';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+
+describe('UpdateServiceStore', () => {
+  const chrome = new UpdateServiceStore({
+    name: 'chrome',
+    label: 'Chrome Web Store',
+    detailPaths: CHROME_WEBSTORE_DETAIL_PATHS
+  });
+  const mirror = new UpdateServiceStore({ name: 'mirror', label: 'Mirror', updateUrl: 'https://mirror.example/crx' });
+
+  test('should parse detail pages on its hosts only', () => {
+    expect(chrome.parseUrl(new URL(`https://chromewebstore.google.com/detail/metamask/${ID}/`))).toBe(ID);
+    expect(chrome.parseUrl(new URL(`https://chrome.google.com/webstore/detail/${ID}?hl=en`))).toBe(ID);
+    expect(chrome.parseUrl(new URL(`https://example.com/detail/${ID}`))).toBeNull();
+    expect(mirror.parseUrl(new URL(`https://chromewebstore.google.com/detail/${ID}`))).toBeNull();
+
+    expect(() => chrome.parseUrl(new URL('https://chromewebstore.google.com/category/extensions')))
+      .toThrow('Not an extension detail page on Chrome Web Store');
+  });
+
+  test('should accept Chrome extension IDs only', () => {
+    expect(chrome.parseId(ID)).toBe(ID);
+    expect(() => chrome.parseId('abcdefghijklmnopqrstuvwxyzabcdef')).toThrow(ValidationError);
+  });
+
+  test('should request packages from its own update service, or else the configured one', () => {
+    const config = { ...DEFAULT_CONFIG, prodVersion: '126.0' };
+
+    const url = mirror.downloadUrl(ID, config);
+    expect(url.origin + url.pathname).toBe('https://mirror.example/crx');
+    expect(url.searchParams.get('response')).toBe('redirect');
+    expect(url.searchParams.get('prodversion')).toBe('126.0');
+    expect(url.searchParams.get('x')).toBe(`id=${ID}&installsource=ondemand&uc`);
+
+    expect(chrome.updateUrl(config)).toBe(DEFAULT_CONFIG.updateUrl);
+    expect(chrome.downloadUrl(ID, { ...config, updateUrl: 'http://localhost:1/crx' }).host).toBe('localhost:1');
+  });
+
+  test('should reject HTML pages and empty answers', () => {
+    expect(() => chrome.validateResponse(new Response('<html>', { headers: { 'content-type': 'text/html' } })))
+      .toThrow('Received HTML instead of a CRX file');
+    expect(() => mirror.validateResponse(new Response(null, { status: 204 }))).toThrow(DownloadError);
+    expect(() => chrome.validateResponse(new Response('Cr24'))).not.toThrow();
+  });
+});
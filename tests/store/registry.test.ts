@@ -0,0 +1,186 @@
+// tests/store/registry.test.ts
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { EDGE_ADDONS_DETAIL_PATHS, EDGE_UPDATE_URL_BASE } from '../../src/config/constants';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { CRXExtractor } from '../../src/core/crx-extractor';
+import { ExtensionId } from '../../src/crx/extension-id';
+import { KeyUtils } from '../../src/crx/keys';
+import { CRXWriter } from '../../src/crx/writer';
+import { DownloadError, ValidationError } from '../../src/errors';
+import { type StoreProvider, UpdateServiceStore } from '../../src/store/provider';
+import { StoreRegistry } from '../../src/store/registry';
+import { ZipWriter } from '../../src/zip/writer';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+
+/** A store with its own URLs and slug IDs, like the Opera add-ons site */
+class SlugStore implements StoreProvider {
+  readonly name = 'slugs';
+  readonly label = 'Slug Add-ons';
+
+  constructor (private readonly base: string) {}
+
+  parseUrl(url: URL): string | null {
+    if (url.host !== new URL(this.base).host) return null;
+    const slug = url.pathname.match(/^\/details\/([a-z0-9-]+)\/?$/)?.[1];
+    if (!slug) throw new ValidationError(`Not an add-on page: ${url.href}`);
+    return slug;
+  }
+
+  parseId(input: string): string {
+    if (!/^[a-z0-9-]+$/.test(input)) throw new ValidationError(`Invalid slug: ${input}`);
+    return input;
+  }
+
+  downloadUrl(id: string): URL {
+    return new URL(`/download/${id}.crx`, this.base);
+  }
+
+  validateResponse(response: Response): void {
+    if (response.headers.get('x-removed')) throw new DownloadError('Add-on was removed');
+  }
+}
+
+describe('StoreRegistry', () => {
+  test('should have Chrome and Edge built in, with Chrome as the default', () => {
+    const stores = new StoreRegistry();
+
+    expect(stores.list().map(store => store.name)).toEqual(['chrome', 'edge']);
+    expect(stores.get().name).toBe('chrome');
+    expect(stores.get('edge').downloadUrl(ID, DEFAULT_CONFIG).href.startsWith(`${EDGE_UPDATE_URL_BASE}?`)).toBe(true);
+    expect(() => stores.get('opera')).toThrow('Unknown store "opera"; known stores are chrome, edge');
+  });
+
+  test('should route URLs to the store that claims their host', () => {
+    const stores = new StoreRegistry({ ...DEFAULT_CONFIG, stores: [new SlugStore('https://addons.example')] });
+
+    expect(stores.parseUrl(new URL(`https://chromewebstore.google.com/detail/${ID}`))).toEqual({
+      store: 'chrome',
+      id: ID
+    });
+    expect(stores.parseUrl(new URL(`https://microsoftedge.microsoft.com/addons/detail/name/${ID}`))).toEqual({
+      store: 'edge',
+      id: ID
+    });
+    expect(stores.parseUrl(new URL('https://addons.example/details/dark-mode'))).toEqual({
+      store: 'slugs',
+      id: 'dark-mode'
+    });
+    expect(stores.parseUrl(new URL('https://example.com/ext.crx'))).toBeNull();
+  });
+
+  test('should let custom providers replace built-in ones and reject bad names', () => {
+    const edge = new UpdateServiceStore({ name: 'edge', label: 'Mirror', updateUrl: 'https://mirror.example/crx' });
+    const stores = new StoreRegistry({ ...DEFAULT_CONFIG, stores: [edge] });
+
+    expect(stores.get('edge')).toBe(edge);
+    expect(stores.list()).toHaveLength(2);
+    expect(() => stores.register(new UpdateServiceStore({ name: 'My Store', label: 'x' }))).toThrow(ValidationError);
+  });
+
+  test('should match update URLs to stores, or treat them as self-hosted', () => {
+    const stores = new StoreRegistry();
+
+    expect(stores.forUpdateUrl(DEFAULT_CONFIG.updateUrl).name).toBe('chrome');
+    expect(stores.forUpdateUrl(EDGE_UPDATE_URL_BASE).name).toBe('edge');
+
+    const selfHosted = stores.forUpdateUrl('https://corp.example/updates.xml');
+    expect(selfHosted.name).toBe('self-hosted');
+    expect(selfHosted.updateUrl?.(DEFAULT_CONFIG)).toBe('https://corp.example/updates.xml');
+  });
+
+  describe('downloads from stub stores', () => {
+    let dir: string;
+    let server: ReturnType<typeof Bun.serve>;
+    let requests: URL[];
+    let id: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'crx-store-'));
+      const key = await KeyUtils.generate('ecdsa');
+      const zip = new ZipWriter().add('manifest.json', new TextEncoder().encode(JSON.stringify({
+        name: 'Stubbed',
+        version: '1.0.0',
+        manifest_version: 3
+      }))).finish();
+      const crx = await CRXWriter.build(zip, [key]);
+      id = await ExtensionId.fromPublicKey(key.publicKey);
+      requests = [];
+      server = Bun.serve({
+        port: 0,
+        fetch(request) {
+          const url = new URL(request.url);
+          requests.push(url);
+          if (url.pathname === '/download/removed.crx') {
+            return new Response(crx, { headers: { 'x-removed': '1' } });
+          }
+          if (url.pathname === '/edge' && url.searchParams.get('x')?.startsWith(`id=${id}&`) === false) {
+            return new Response(null, { status: 204 });
+          }
+          return new Response(crx, { headers: { 'content-type': 'application/x-chrome-extension' } });
+        }
+      });
+    });
+
+    afterEach(async () => {
+      server.stop(true);
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    function extractor(input: string, overrides: Partial<typeof DEFAULT_CONFIG> = {}): CRXExtractor {
+      return new CRXExtractor(input, {
+        ...DEFAULT_CONFIG,
+        allowedOutputPaths: [dir],
+        extensionsDir: join(dir, '_extensions'),
+        cache: false,
+        logLevel: LogLevel.ERROR,
+        ...overrides
+      });
+    }
+
+    test('should download Chrome Web Store IDs from the configured update URL', async () => {
+      const result = await extractor(id, { updateUrl: `http://localhost:${server.port}/chrome` }).extractToMemory();
+
+      expect(result.manifest?.name).toBe('Stubbed');
+      expect(requests[0]?.pathname).toBe('/chrome');
+      expect(requests[0]?.searchParams.get('response')).toBe('redirect');
+    });
+
+    test('should download Edge Add-ons pages and IDs from the Edge update service', async () => {
+      const edge = new UpdateServiceStore({
+        name: 'edge',
+        label: 'Edge Add-ons',
+        detailPaths: EDGE_ADDONS_DETAIL_PATHS,
+        updateUrl: `http://localhost:${server.port}/edge`
+      });
+      const config = { stores: [edge] };
+
+      const fromPage = await extractor(`https://microsoftedge.microsoft.com/addons/detail/stubbed/${id}`, config)
+        .extractToMemory();
+      expect(fromPage.manifest?.name).toBe('Stubbed');
+      const fromId = await extractor(id, { ...config, store: 'edge' }).extractToMemory();
+      expect(fromId.manifest?.name).toBe('Stubbed');
+      expect(requests.map(url => url.pathname)).toEqual(['/edge', '/edge']);
+
+      // The Edge service answers 204 No Content for extensions it doesn't list
+      await expect(extractor(ID, { ...config, store: 'edge' }).extractToMemory()).rejects.toThrow('has no package');
+    });
+
+    test('should download from a custom provider with its own IDs', async () => {
+      const config = { stores: [new SlugStore(`http://localhost:${server.port}`)] };
+
+      const result = await extractor(`http://localhost:${server.port}/details/stubbed`, config).extractToMemory();
+      expect(result.manifest?.name).toBe('Stubbed');
+      expect(result.id).toBe(id);
+      expect(requests[0]?.pathname).toBe('/download/stubbed.crx');
+
+      const removed = extractor(`http://localhost:${server.port}/details/removed`, config).extractToMemory();
+      await expect(removed).rejects.toThrow('Add-on was removed');
+    });
+  });
+});
@@ -0,0 +1,80 @@
+// tests/tar/writer.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { TarWriter } from '../../src/tar/writer';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Reads a NUL-terminated header field */
+function field(block: Uint8Array, offset: number, length: number): string {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return decoder.decode(end === -1 ? bytes : bytes.subarray(0, end));
+}
+
+/** Lists the entries of an archive as the header name, prefix, type and contents */
+function list(tar: Uint8Array): { name: string, prefix: string, type: string, data: string }[] {
+  const entries = [];
+  for (let offset = 0;offset < tar.length;) {
+    const block = tar.subarray(offset, offset + 512);
+    if (block.every(byte => byte === 0)) break;
+
+    const size = parseInt(field(block, 124, 12), 8);
+    const data = decoder.decode(tar.subarray(offset + 512, offset + 512 + size));
+    entries.push({ name: field(block, 0, 100), prefix: field(block, 345, 155), type: field(block, 156, 1), data });
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+  return entries;
+}
+
+describe('TarWriter', () => {
+  test('should write ustar headers, padded data and the end-of-archive blocks', () => {
+    const tar = new TarWriter().add('manifest.json', encoder.encode('{}')).add('js/a.js', encoder.encode('a')).finish();
+
+    expect(tar.length).toBe(512 * 6);
+    expect(tar.subarray(-1024).every(byte => byte === 0)).toBe(true);
+    expect(list(tar)).toEqual([
+      { name: 'manifest.json', prefix: '', type: '0', data: '{}' },
+      { name: 'js/a.js', prefix: '', type: '0', data: 'a' }
+    ]);
+
+    const header = tar.subarray(0, 512);
+    expect(field(header, 257, 6)).toBe('ustar');
+    expect(field(header, 100, 8)).toBe('0000644');
+    const checksum = header.reduce((total, byte, i) => total + (i >= 148 && i < 156 ? 0x20 : byte), 0);
+    expect(parseInt(field(header, 148, 8), 8)).toBe(checksum);
+  });
+
+  test('should split long names into prefix and name', () => {
+    const dir = 'nested/'.repeat(20);
+    const tar = new TarWriter().add(`${dir}file.js`, encoder.encode('x')).finish();
+
+    expect(list(tar)[0]).toMatchObject({ name: 'file.js', prefix: dir.slice(0, -1) });
+  });
+
+  test('should record names that do not fit in a PAX header', () => {
+    const name = `assets/${'x'.repeat(120)}.png`;
+    const [pax, file] = list(new TarWriter().add(name, encoder.encode('png')).finish());
+
+    expect(pax?.type).toBe('x');
+    const record = ` path=${name}\n`;
+    expect(pax?.data).toBe(`${record.length + 3}${record}`);
+    expect(file).toMatchObject({ type: '0', data: 'png' });
+  });
+
+  test('should stream to a sink and be reproducible', () => {
+    const chunks: Uint8Array[] = [];
+    const streamed = new TarWriter(chunk => chunks.push(chunk)).add('a.txt', encoder.encode('same'));
+    expect(streamed.finish()).toEqual(new Uint8Array());
+
+    const built = new TarWriter().add('a.txt', encoder.encode('same')).finish();
+    expect(new Uint8Array(Buffer.concat(chunks))).toEqual(built);
+  });
+
+  test('should reject duplicate names', () => {
+    const writer = new TarWriter().add('a.txt', new Uint8Array());
+    expect(() => writer.add('a.txt', new Uint8Array())).toThrow(ValidationError);
+  });
+});
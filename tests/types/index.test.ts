@@ -5,15 +5,18 @@ import type { CRXHeader, ExtensionInfo, ExtensionManifest, ZipInfo } from '../..
 
 describe('Type interfaces', () => {
   test('CRXHeader should have required properties', () => {
-    const header: CRXHeader = { version: 3, zipOffset: 1024 };
+    const header: CRXHeader = { version: 3, zipOffset: 1024, sha256WithRsa: [], sha256WithEcdsa: [] };
     expect(header.version).toBe(3);
     expect(header.zipOffset).toBe(1024);
+    expect(header.sha256WithRsa).toEqual([]);
+    expect(header.crxId).toBeUndefined();
   });
 
   test('ExtensionInfo should have required properties', () => {
-    const info: ExtensionInfo = { id: 'abc123', name: 'Test Extension' };
+    const info: ExtensionInfo = { id: 'abc123', name: 'Test Extension', format: 'crx' };
     expect(info.id).toBe('abc123');
     expect(info.name).toBe('Test Extension');
+    expect(info.format).toBe('crx');
   });
 
   test('ExtensionManifest should have required and optional properties', () => {
@@ -0,0 +1,155 @@
+// tests/update/client.test.ts
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { DEFAULT_CONFIG } from '../../src/config/defaults';
+import { LogLevel } from '../../src/config/types';
+import { DownloadError, ValidationError } from '../../src/errors';
+import { UpdateClient } from '../../src/update/client';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+
+function gupdate(updatecheck: string, appStatus = 'ok'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <gupdate xmlns="http://www.google.com/update2/response" protocol="2.0">
+      <app appid="${ID}" status="${appStatus}">${updatecheck}</app>
+    </gupdate>`;
+}
+
+describe('UpdateClient', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests: URL[];
+  let respond: () => Response;
+
+  beforeEach(() => {
+    requests = [];
+    respond = () => new Response('');
+    server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        requests.push(new URL(request.url));
+        return respond();
+      }
+    });
+  });
+
+  afterEach(() => {
+    server.stop(true);
+  });
+
+  function client(): UpdateClient {
+    return new UpdateClient({
+      ...DEFAULT_CONFIG,
+      updateUrl: `http://localhost:${server.port}/service/update2/crx`,
+      retryDelay: 1,
+      logLevel: LogLevel.ERROR
+    });
+  }
+
+  describe('requestUrl', () => {
+    test('should encode the extension and version in the x parameter', () => {
+      const url = new UpdateClient().requestUrl(ID, 'updatecheck', '1.2.3');
+      expect(url.searchParams.get('response')).toBe('updatecheck');
+      expect(url.searchParams.get('x')).toBe(`id=${ID}&v=1.2.3&installsource=ondemand&uc`);
+    });
+  });
+
+  describe('check', () => {
+    test('should report the latest version without downloading it', async () => {
+      respond = () =>
+        new Response(gupdate(
+          '<updatecheck codebase="https://example.com/ext.crx" hash_sha256="ab12" size="2048" status="ok" version="1.5.0"/>'
+        ));
+
+      const result = await client().check(ID);
+
+      expect(result).toEqual({
+        id: ID,
+        status: 'ok',
+        version: '1.5.0',
+        codebase: 'https://example.com/ext.crx',
+        sha256: 'ab12',
+        size: 2048,
+        currentVersion: null,
+        updateAvailable: null
+      });
+      expect(requests).toHaveLength(1);
+      expect(requests[0]?.searchParams.get('response')).toBe('updatecheck');
+      expect(requests[0]?.searchParams.get('x')).toBe(`id=${ID}&installsource=ondemand&uc`);
+    });
+
+    test('should report an update for an older local version', async () => {
+      respond = () => new Response(gupdate('<updatecheck codebase="https://example.com/ext.crx" status="ok" version="1.10.0"/>'));
+
+      const result = await client().check(ID, '1.9.2');
+
+      expect(result.updateAvailable).toBe(true);
+      expect(result.currentVersion).toBe('1.9.2');
+      expect(requests[0]?.searchParams.get('x')).toContain('&v=1.9.2&');
+    });
+
+    test('should report no update when the service answers noupdate', async () => {
+      respond = () => new Response(gupdate('<updatecheck status="noupdate"/>'));
+
+      const result = await client().check(ID, '1.10.0');
+
+      expect(result.status).toBe('noupdate');
+      expect(result.updateAvailable).toBe(false);
+    });
+
+    test('should fail for unknown extensions and service errors', async () => {
+      respond = () => new Response(gupdate('', 'error-unknownApplication'));
+      await expect(client().check(ID)).rejects.toThrow('error-unknownApplication');
+
+      respond = () => new Response('unavailable', { status: 503 });
+      await expect(client().check(ID)).rejects.toThrow(DownloadError);
+    });
+
+    test('should validate the ID and version before sending a request', async () => {
+      await expect(client().check('not-an-id')).rejects.toThrow(ValidationError);
+      await expect(client().check(ID, 'latest')).rejects.toThrow(ValidationError);
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('selectPackage', () => {
+    const OTHER_ID = 'cjpalhdlnbpafiamejdnhcphjbkeiagm';
+    const MANIFEST_URL = new URL('https://extensions.corp.example/chrome/updates.xml');
+    const manifest = `<gupdate xmlns="http://www.google.com/update2/response" protocol="2.0">
+      <app appid="${ID}"><updatecheck codebase="ext-1.9.0.crx" version="1.9.0"/></app>
+      <app appid="${ID}"><updatecheck codebase="https://cdn.corp.example/ext-1.10.0.crx" version="1.10.0"
+        hash_sha256="AB12"/></app>
+      <app appid="${OTHER_ID}"><updatecheck codebase="other.crx" version="3.0"/></app>
+    </gupdate>`;
+
+    test('should pick the newest version of the chosen extension', () => {
+      expect(new UpdateClient().selectPackage(manifest, ID, MANIFEST_URL)).toEqual({
+        appId: ID,
+        version: '1.10.0',
+        codebase: 'https://cdn.corp.example/ext-1.10.0.crx',
+        sha256: 'ab12',
+        size: null
+      });
+    });
+
+    test('should pick the configured version and resolve relative codebases', () => {
+      const pinned = new UpdateClient({ ...DEFAULT_CONFIG, appVersion: '1.9' });
+      const chosen = pinned.selectPackage(manifest, ID, MANIFEST_URL);
+
+      expect(chosen.codebase).toBe('https://extensions.corp.example/chrome/ext-1.9.0.crx');
+      expect(() => new UpdateClient({ ...DEFAULT_CONFIG, appVersion: '2.0' }).selectPackage(manifest, ID, MANIFEST_URL))
+        .toThrow(DownloadError);
+    });
+
+    test('should need an appId only when several extensions are listed', () => {
+      expect(() => new UpdateClient().selectPackage(manifest, null, MANIFEST_URL)).toThrow(ValidationError);
+
+      const single = gupdate('<updatecheck codebase="ext.crx" version="1.0"/>');
+      expect(new UpdateClient().selectPackage(single, null, MANIFEST_URL).appId).toBe(ID);
+    });
+
+    test('should reject codebases that are not http or https', () => {
+      const local = gupdate('<updatecheck codebase="file:///etc/passwd" version="1.0"/>');
+      expect(() => new UpdateClient().selectPackage(local, ID, MANIFEST_URL)).toThrow(ValidationError);
+    });
+  });
+});
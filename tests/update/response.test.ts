@@ -0,0 +1,61 @@
+// tests/update/response.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { UpdateResponseParser } from '../../src/update/response';
+
+const ID = 'nkbihfbeogaeaoehlefnkodbefgpgknn';
+
+describe('UpdateResponseParser', () => {
+  test('should parse an updatecheck from the update service', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <gupdate xmlns="http://www.google.com/update2/response" protocol="2.0" server="prod">
+        <daystart elapsed_days="6500" elapsed_seconds="100"/>
+        <app appid="${ID}" cohort="1::" status="ok">
+          <updatecheck codebase="https://example.com/crx?id=1&amp;v=2" fp="1.abc" hash=""
+            hash_sha256="ABCDEF" protected="0" size="1024" status="ok" version="12.3.1"/>
+        </app>
+      </gupdate>`;
+
+    expect(UpdateResponseParser.parse(xml)).toEqual([{
+      appId: ID,
+      status: 'ok',
+      updateCheck: {
+        status: 'ok',
+        version: '12.3.1',
+        codebase: 'https://example.com/crx?id=1&v=2',
+        sha256: 'abcdef',
+        size: 1024
+      }
+    }]);
+  });
+
+  test('should parse noupdate responses and self-closing apps', () => {
+    const xml = `<gupdate protocol="2.0">
+      <app appid="${ID}" status="ok"><updatecheck status="noupdate"/></app>
+      <app appid="${'a'.repeat(32)}" status="error-unknownApplication"/>
+    </gupdate>`;
+
+    const apps = UpdateResponseParser.parse(xml);
+    expect(apps.map(app => app.status)).toEqual(['ok', 'error-unknownApplication']);
+    expect(apps[0]?.updateCheck).toEqual({ status: 'noupdate', version: null, codebase: null, sha256: null, size: null });
+    expect(apps[1]?.updateCheck).toBeNull();
+  });
+
+  test('should default missing statuses to ok, as in self-hosted manifests', () => {
+    const xml = `<gupdate xmlns='http://www.google.com/update2/response' protocol='2.0'>
+      <!-- <app appid="commented-out"/> -->
+      <app appid='${ID}'><updatecheck codebase='https://example.com/ext.crx' version='2.0'/></app>
+    </gupdate>`;
+
+    const [app] = UpdateResponseParser.parse(xml);
+    expect(app?.status).toBe('ok');
+    expect(app?.updateCheck?.status).toBe('ok');
+    expect(app?.updateCheck?.codebase).toBe('https://example.com/ext.crx');
+  });
+
+  test('should reject documents that are not gupdate responses', () => {
+    expect(() => UpdateResponseParser.parse('<html><body>Not found</body></html>')).toThrow(ValidationError);
+    expect(() => UpdateResponseParser.parse('<gupdate><app status="ok"/></gupdate>')).toThrow('without an appid');
+  });
+});
@@ -0,0 +1,26 @@
+// tests/utils/binary.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { BinaryUtils } from '../../src/utils/binary';
+
+describe('BinaryUtils', () => {
+  describe('readUInt32LE', () => {
+    test('should read little-endian values', () => {
+      expect(BinaryUtils.readUInt32LE(new Uint8Array([0x43, 0x72, 0x32, 0x34]), 0)).toBe(0x34327243);
+      expect(BinaryUtils.readUInt32LE(new Uint8Array([0, 0xff, 0xff, 0xff, 0xff]), 1)).toBe(0xffffffff);
+    });
+
+    test('should reject reads past the end of the buffer', () => {
+      expect(() => BinaryUtils.readUInt32LE(new Uint8Array(3), 0)).toThrow(ValidationError);
+      expect(() => BinaryUtils.readUInt32LE(new Uint8Array(8), 6)).toThrow(ValidationError);
+    });
+  });
+
+  describe('toHex', () => {
+    test('should encode bytes as lowercase hex', () => {
+      expect(BinaryUtils.toHex(new Uint8Array([0x00, 0x0f, 0xab]))).toBe('000fab');
+      expect(BinaryUtils.toHex(new Uint8Array())).toBe('');
+    });
+  });
+});
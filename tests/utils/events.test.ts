@@ -0,0 +1,61 @@
+// tests/utils/events.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { TypedEmitter } from '../../src/utils/events';
+
+interface TestEvents {
+  count: number;
+  message: { text: string };
+}
+
+class TestEmitter extends TypedEmitter<TestEvents> {
+  fire<K extends keyof TestEvents>(event: K, payload: TestEvents[K]): void {
+    this.emit(event, payload);
+  }
+}
+
+describe('TypedEmitter', () => {
+  test('should call listeners in the order they were added', () => {
+    const emitter = new TestEmitter();
+    const calls: string[] = [];
+    emitter.on('count', n => calls.push(`a${n}`)).on('count', n => calls.push(`b${n}`));
+
+    emitter.fire('count', 1);
+    emitter.fire('message', { text: 'ignored' });
+
+    expect(calls).toEqual(['a1', 'b1']);
+  });
+
+  test('should remove listeners with off', () => {
+    const emitter = new TestEmitter();
+    const calls: number[] = [];
+    const listener = (n: number) => calls.push(n);
+    emitter.on('count', listener);
+
+    emitter.fire('count', 1);
+    emitter.off('count', listener);
+    emitter.fire('count', 2);
+
+    expect(calls).toEqual([1]);
+  });
+
+  test('should call once listeners a single time', () => {
+    const emitter = new TestEmitter();
+    const texts: string[] = [];
+    emitter.once('message', ({ text }) => texts.push(text));
+
+    emitter.fire('message', { text: 'first' });
+    emitter.fire('message', { text: 'second' });
+
+    expect(texts).toEqual(['first']);
+  });
+
+  test('should propagate listener errors to the emitter', () => {
+    const emitter = new TestEmitter();
+    emitter.on('count', () => {
+      throw new Error('listener failed');
+    });
+
+    expect(() => emitter.fire('count', 1)).toThrow('listener failed');
+  });
+});
@@ -0,0 +1,52 @@
+// tests/utils/format.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { FormatUtils } from '../../src/utils/format';
+
+describe('FormatUtils', () => {
+  describe('detect', () => {
+    test('should detect CRX files by their Cr24 magic', () => {
+      expect(FormatUtils.detect(new TextEncoder().encode('Cr24\x03\x00\x00\x00'))).toBe('crx');
+      expect(FormatUtils.detect(new TextEncoder().encode('Cr24'), 'named.xpi')).toBe('crx');
+    });
+
+    test('should detect ZIP archives', () => {
+      expect(FormatUtils.detect(new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x14]))).toBe('zip');
+      expect(FormatUtils.detect(new Uint8Array([0x50, 0x4b, 0x05, 0x06]), 'empty.zip')).toBe('zip');
+    });
+
+    test('should treat ZIP archives named .xpi as XPI', () => {
+      expect(FormatUtils.detect(new Uint8Array([0x50, 0x4b, 0x03, 0x04]), './addon.XPI')).toBe('xpi');
+    });
+
+    test('should reject unknown formats', () => {
+      expect(() => FormatUtils.detect(new TextEncoder().encode('<!DOCTYPE html>'))).toThrow(ValidationError);
+      expect(() => FormatUtils.detect(new Uint8Array([0x1f, 0x8b, 0x08, 0x00]))).toThrow('leading bytes: 1f8b0800');
+      expect(() => FormatUtils.detect(new Uint8Array())).toThrow('leading bytes: none');
+    });
+  });
+
+  describe('detectZip', () => {
+    const manifest = (extra: object) => new TextEncoder().encode(JSON.stringify({ name: 'Addon', ...extra }));
+
+    test('should detect XPIs by their Mozilla signature', () => {
+      expect(FormatUtils.detectZip(['manifest.json', 'META-INF/mozilla.rsa'], null, 'zip')).toBe('xpi');
+    });
+
+    test('should detect XPIs by Gecko settings in the manifest', () => {
+      const gecko = { gecko: { id: 'addon@example.com' } };
+      const current = manifest({ browser_specific_settings: gecko });
+      expect(FormatUtils.detectZip(['manifest.json'], current, 'zip')).toBe('xpi');
+      expect(FormatUtils.detectZip(['manifest.json'], manifest({ applications: gecko }), 'zip')).toBe('xpi');
+    });
+
+    test('should fall back to the file name hint', () => {
+      const chrome = manifest({ browser_specific_settings: { edge: {} } });
+      expect(FormatUtils.detectZip(['manifest.json'], chrome, 'zip')).toBe('zip');
+      expect(FormatUtils.detectZip(['manifest.json'], chrome, 'xpi')).toBe('xpi');
+      expect(FormatUtils.detectZip(['manifest.json'], new TextEncoder().encode('{'), 'zip')).toBe('zip');
+      expect(FormatUtils.detectZip([], null, 'zip')).toBe('zip');
+    });
+  });
+});
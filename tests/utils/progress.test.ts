@@ -0,0 +1,34 @@
+// tests/utils/progress.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ProgressBar } from '../../src/utils/progress';
+
+describe('ProgressBar', () => {
+  describe('render', () => {
+    test('should fill the bar in proportion to the fraction', () => {
+      expect(ProgressBar.render(0.5, 'half', 10)).toBe('[#####-----]  50% half');
+      expect(ProgressBar.render(1, 'done', 10)).toBe('[##########] 100% done');
+    });
+
+    test('should clamp out-of-range fractions', () => {
+      expect(ProgressBar.render(1.5, 'over', 4)).toBe('[####] 100% over');
+      expect(ProgressBar.render(-1, 'under', 4)).toBe('[----]   0% under');
+    });
+
+    test('should leave the bar empty when the total is unknown', () => {
+      expect(ProgressBar.render(null, '3.0 MB', 4)).toBe('[----]      3.0 MB');
+    });
+  });
+
+  test('should redraw in place and finish on a new line', () => {
+    const output: string[] = [];
+    const bar = new ProgressBar({ write: text => output.push(text) }, 4);
+
+    bar.update(0.25, 'a');
+    bar.update(1, 'b');
+    bar.finish();
+    bar.finish();
+
+    expect(output).toEqual(['\r[#---]  25% a\x1b[K', '\r[####] 100% b\x1b[K', '\n']);
+  });
+});
@@ -0,0 +1,66 @@
+// tests/utils/protobuf.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { ProtobufReader, ProtobufWriter, WireType } from '../../src/utils/protobuf';
+
+describe('ProtobufReader', () => {
+  test('should decode varint fields', () => {
+    // field 1 = 150
+    const fields = ProtobufReader.decode(new Uint8Array([0x08, 0x96, 0x01]));
+    expect(fields).toEqual([{ fieldNumber: 1, wireType: WireType.VARINT, value: 150 }]);
+  });
+
+  test('should decode length-delimited fields', () => {
+    // field 2 = "hi"
+    const fields = ProtobufReader.decode(new Uint8Array([0x12, 0x02, 0x68, 0x69]));
+    expect(fields).toHaveLength(1);
+    expect(fields[0]?.fieldNumber).toBe(2);
+    expect(fields[0]?.wireType).toBe(WireType.LENGTH_DELIMITED);
+    expect(fields[0]?.value).toEqual(new Uint8Array([0x68, 0x69]));
+  });
+
+  test('should decode multi-byte field numbers', () => {
+    // field 10000, length-delimited, empty
+    const fields = ProtobufReader.decode(new Uint8Array([0x82, 0xf1, 0x04, 0x00]));
+    expect(fields[0]?.fieldNumber).toBe(10000);
+    expect(fields[0]?.value).toEqual(new Uint8Array());
+  });
+
+  test('should decode fixed-width fields', () => {
+    const fields = ProtobufReader.decode(new Uint8Array([0x0d, 1, 2, 3, 4, 0x11, 1, 2, 3, 4, 5, 6, 7, 8]));
+    expect(fields.map(f => f.wireType)).toEqual([WireType.FIXED32, WireType.FIXED64]);
+  });
+
+  test('should reject truncated input', () => {
+    expect(() => ProtobufReader.decode(new Uint8Array([0x12, 0x05, 0x68]))).toThrow(ValidationError);
+    expect(() => ProtobufReader.decode(new Uint8Array([0x08, 0x96]))).toThrow(ValidationError);
+  });
+
+  test('should reject unsupported wire types and field number 0', () => {
+    expect(() => ProtobufReader.decode(new Uint8Array([0x0b]))).toThrow('Unsupported protobuf wire type: 3');
+    expect(() => ProtobufReader.decode(new Uint8Array([0x00, 0x00]))).toThrow('Invalid protobuf field number 0');
+  });
+});
+
+describe('ProtobufWriter', () => {
+  test('should encode length-delimited fields', () => {
+    const bytes = new ProtobufWriter().bytes(2, new Uint8Array([0x68, 0x69])).finish();
+    expect(Array.from(bytes)).toEqual([0x12, 0x02, 0x68, 0x69]);
+  });
+
+  test('should encode multi-byte tags and lengths', () => {
+    const bytes = new ProtobufWriter().bytes(10000, new Uint8Array(200)).finish();
+    expect(Array.from(bytes.subarray(0, 5))).toEqual([0x82, 0xf1, 0x04, 0xc8, 0x01]);
+    expect(bytes).toHaveLength(205);
+  });
+
+  test('should round-trip through the reader', () => {
+    const inner = new ProtobufWriter().bytes(1, new Uint8Array([1, 2, 3])).finish();
+    const outer = new ProtobufWriter().bytes(3, inner).bytes(10000, new Uint8Array()).finish();
+
+    const fields = ProtobufReader.decode(outer);
+    expect(fields.map(f => f.fieldNumber)).toEqual([3, 10000]);
+    expect(ProtobufReader.decode(fields[0]?.value as Uint8Array)[0]?.value).toEqual(new Uint8Array([1, 2, 3]));
+  });
+});
@@ -0,0 +1,40 @@
+// tests/utils/proxy.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { ProxyUtils } from '../../src/utils/proxy';
+
+const HTTPS = new URL('https://clients2.google.com/service/update2/crx');
+const HTTP = new URL('http://mirror.corp.example:8080/crx');
+
+describe('ProxyUtils', () => {
+  test('should read the proxy for the target scheme from the environment', () => {
+    const env = { HTTPS_PROXY: 'http://secure.proxy:3128', http_proxy: 'http://plain.proxy:3128' };
+    expect(ProxyUtils.resolve(HTTPS, undefined, undefined, env)).toBe('http://secure.proxy:3128');
+    expect(ProxyUtils.resolve(HTTP, undefined, undefined, env)).toBe('http://plain.proxy:3128');
+    expect(ProxyUtils.resolve(HTTPS, undefined, undefined, {})).toBeNull();
+  });
+
+  test('should prefer the configured proxy and bypass list', () => {
+    const env = { HTTPS_PROXY: 'http://env.proxy:3128', NO_PROXY: 'google.com' };
+    expect(ProxyUtils.resolve(HTTPS, 'http://config.proxy:3128', undefined, env)).toBeNull();
+    expect(ProxyUtils.resolve(HTTPS, 'http://config.proxy:3128', 'localhost', env)).toBe('http://config.proxy:3128');
+  });
+
+  test('should match NO_PROXY hosts, domains and ports', () => {
+    expect(ProxyUtils.bypasses(HTTPS, '*')).toBe(true);
+    expect(ProxyUtils.bypasses(HTTPS, 'localhost, .google.com')).toBe(true);
+    expect(ProxyUtils.bypasses(HTTPS, 'google.com:443')).toBe(true);
+    expect(ProxyUtils.bypasses(HTTPS, 'google.com:8443')).toBe(false);
+    expect(ProxyUtils.bypasses(HTTPS, 'oogle.com')).toBe(false);
+    expect(ProxyUtils.bypasses(HTTP, 'MIRROR.corp.example:8080')).toBe(true);
+    expect(ProxyUtils.bypasses(new URL('http://[::1]:9000/'), '::1')).toBe(true);
+    expect(ProxyUtils.bypasses(new URL('http://[::1]:9000/'), '[::1]:9001')).toBe(false);
+    expect(ProxyUtils.bypasses(HTTPS, '')).toBe(false);
+  });
+
+  test('should reject proxies that are not http or https URLs', () => {
+    expect(() => ProxyUtils.resolve(HTTPS, 'proxy.corp:3128')).toThrow(ValidationError);
+    expect(() => ProxyUtils.resolve(HTTPS, 'socks5://proxy.corp:1080')).toThrow(ValidationError);
+  });
+});
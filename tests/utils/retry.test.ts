@@ -0,0 +1,32 @@
+// tests/utils/retry.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { RetryUtils } from '../../src/utils/retry';
+
+describe('RetryUtils', () => {
+  test('should retry timeouts, rate limiting and transient server errors only', () => {
+    expect([408, 429, 500, 502, 503, 504].every(status => RetryUtils.isRetryableStatus(status))).toBe(true);
+    expect([400, 403, 404, 416, 501].some(status => RetryUtils.isRetryableStatus(status))).toBe(false);
+  });
+
+  test('should read Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(RetryUtils.parseRetryAfter('5', now)).toBe(5000);
+    expect(RetryUtils.parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', now)).toBe(10000);
+    expect(RetryUtils.parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT', now)).toBe(0);
+    expect(RetryUtils.parseRetryAfter('soon', now)).toBeNull();
+    expect(RetryUtils.parseRetryAfter(null, now)).toBeNull();
+  });
+
+  test('should double the backoff window on each attempt, up to the maximum', () => {
+    expect(RetryUtils.backoff(0, 1000, 30000, null, () => 0)).toBe(500);
+    expect(RetryUtils.backoff(0, 1000, 30000, null, () => 1)).toBe(1000);
+    expect(RetryUtils.backoff(3, 1000, 30000, null, () => 1)).toBe(8000);
+    expect(RetryUtils.backoff(10, 1000, 30000, null, () => 1)).toBe(30000);
+  });
+
+  test('should prefer Retry-After, capped at the maximum', () => {
+    expect(RetryUtils.backoff(0, 1000, 30000, 7000)).toBe(7000);
+    expect(RetryUtils.backoff(0, 1000, 30000, 120000)).toBe(30000);
+  });
+});
@@ -0,0 +1,25 @@
+// tests/utils/version.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ValidationError } from '../../src/errors';
+import { VersionUtils } from '../../src/utils/version';
+
+describe('VersionUtils', () => {
+  test('should accept one to four numeric parts', () => {
+    expect(VersionUtils.isValid('1')).toBe(true);
+    expect(VersionUtils.isValid('1.2.3.4')).toBe(true);
+    expect(VersionUtils.isValid('1.2.3.4.5')).toBe(false);
+    expect(VersionUtils.isValid('1.2-beta')).toBe(false);
+    expect(VersionUtils.isValid('')).toBe(false);
+  });
+
+  test('should compare part by part numerically', () => {
+    expect(VersionUtils.compare('1.10', '1.9')).toBeGreaterThan(0);
+    expect(VersionUtils.compare('1.2.3', '1.2.4')).toBeLessThan(0);
+    expect(VersionUtils.compare('2.0', '2.0.0.0')).toBe(0);
+  });
+
+  test('should reject invalid versions', () => {
+    expect(() => VersionUtils.compare('1.0', 'latest')).toThrow(ValidationError);
+  });
+});
@@ -86,4 +86,172 @@ describe('ManifestValidator', () => {
       expect(result.icons).toEqual({ '16': 'icon.png' });
     });
   });
+
+  describe('getGeckoId', () => {
+    const base = { name: 'Test', version: '1.0.0', manifest_version: 2 };
+
+    test('should read browser_specific_settings.gecko.id', () => {
+      const manifest = validator.validateManifest({
+        ...base,
+        browser_specific_settings: { gecko: { id: 'addon@example.com', strict_min_version: '109.0' } }
+      });
+      expect(validator.getGeckoId(manifest)).toBe('addon@example.com');
+    });
+
+    test('should fall back to the legacy applications key', () => {
+      const manifest = validator.validateManifest({ ...base, applications: { gecko: { id: '{1234-abcd}' } } });
+      expect(validator.getGeckoId(manifest)).toBe('{1234-abcd}');
+    });
+
+    test('should return null for Chrome manifests', () => {
+      expect(validator.getGeckoId(validator.validateManifest(base))).toBeNull();
+    });
+
+    test('should reject a non-string ID', () => {
+      const manifest = { ...base, browser_specific_settings: { gecko: { id: 42 } } };
+      expect(() => validator.getGeckoId(manifest)).toThrow(ValidationError);
+      expect(() => validator.validateManifest(manifest))
+        .toThrow('Manifest "browser_specific_settings.gecko.id" must be a non-empty string');
+    });
+  });
+
+  describe('validate', () => {
+    const v3 = { name: 'Test', version: '1.0.0', manifest_version: 3 };
+    const v2 = { ...v3, manifest_version: 2 };
+
+    function issues(data: Record<string, unknown>, target?: 'chrome' | 'firefox') {
+      return validator.validate(data, { target }).issues.map(issue => [issue.severity, issue.pointer, issue.message]);
+    }
+
+    test('should list every issue instead of stopping at the first', () => {
+      const result = validator.validate({ manifest_version: 4, version: '1.02', description: 7 });
+
+      expect(result.valid).toBe(false);
+      expect(result.manifest).toMatchObject({ version: '1.02' });
+      expect(result.issues.map(issue => issue.pointer)).toEqual([
+        '/name',
+        '/version',
+        '/manifest_version',
+        '/description'
+      ]);
+      expect(result.issues.every(issue => issue.severity === 'error')).toBe(true);
+    });
+
+    test('should be valid when there are only warnings', () => {
+      const result = validator.validate({ ...v2, background: { scripts: ['bg.js'] } });
+
+      expect(result.valid).toBe(true);
+      expect(result.manifest).toMatchObject({ name: 'Test' });
+      expect(result.issues).toEqual([
+        { severity: 'warning', pointer: '/manifest_version', message: 'Manifest V2 is no longer supported by Chrome' }
+      ]);
+    });
+
+    test('should check the version format, leniently for Firefox', () => {
+      expect(issues({ ...v3, version: '1.2.3.4' })).toEqual([]);
+      expect(issues({ ...v3, version: '1.0.65536' })[0]?.[0]).toBe('error');
+      expect(issues({ ...v3, version: '1.0b1' }, 'firefox')[0]?.slice(0, 2)).toEqual(['warning', '/version']);
+    });
+
+    test('should expect a service worker in Manifest V3 and scripts in Manifest V2', () => {
+      expect(issues({ ...v3, background: { service_worker: 'sw.js', type: 'module' } })).toEqual([]);
+      expect(issues({ ...v3, background: { scripts: ['bg.js'] } })).toEqual([
+        ['error', '/background', 'Manifest V3 background must be a "service_worker"']
+      ]);
+      expect(issues({ ...v3, background: { scripts: ['bg.js'] } }, 'firefox')).toEqual([]);
+      expect(issues({ ...v3, background: { service_worker: 'sw.js', scripts: ['bg.js'] } })[0]?.[0]).toBe('warning');
+
+      expect(issues({ ...v2, background: { service_worker: 'sw.js' } }, 'firefox')).toEqual([
+        ['error', '/background/service_worker', 'Background "service_worker" requires Manifest V3']
+      ]);
+      const both = issues({ ...v2, background: { scripts: ['a.js'], page: 'bg.html' } }, 'firefox');
+      expect(both[0]?.[1]).toBe('/background');
+    });
+
+    test('should locate content script errors by index', () => {
+      const found = issues({
+        ...v3,
+        content_scripts: [
+          { matches: ['https://example.com/*'], js: ['a.js'], run_at: 'document_idle', world: 'MAIN' },
+          { matches: ['example.com'], css: [1], run_at: 'later' },
+          { js: ['b.js'] },
+          'c.js'
+        ]
+      });
+
+      expect(found).toEqual([
+        ['error', '/content_scripts/1/matches/0', 'Invalid match pattern: example.com'],
+        ['error', '/content_scripts/1/css/0', 'Content script "css" must be an array of strings'],
+        [
+          'error',
+          '/content_scripts/1/run_at',
+          'Content script "run_at" must be one of document_start, document_end, document_idle'
+        ],
+        ['error', '/content_scripts/2/matches', 'Content script needs a non-empty "matches" array'],
+        ['error', '/content_scripts/3', 'Content script must be an object']
+      ]);
+    });
+
+    test('should check web_accessible_resources in the shape of each version', () => {
+      const v3Resources = [{ resources: ['img/*.png'], matches: ['<all_urls>'] }, { resources: ['x.js'] }];
+      expect(issues({ ...v3, web_accessible_resources: v3Resources })).toEqual([
+        ['error', '/web_accessible_resources/1', 'Web accessible resources need "matches" or "extension_ids"']
+      ]);
+      expect(issues({ ...v3, web_accessible_resources: ['img/a.png'] })[0]?.[1]).toBe('/web_accessible_resources/0');
+
+      expect(issues({ ...v2, web_accessible_resources: ['img/a.png'] }, 'firefox')).toEqual([]);
+      const objects = issues({ ...v2, web_accessible_resources: v3Resources }, 'firefox');
+      expect(objects[0]?.[1]).toBe('/web_accessible_resources/0');
+    });
+
+    test('should match the action key to the manifest version', () => {
+      expect(issues({ ...v3, action: { default_popup: 'popup.html', default_icon: { '32': 'a.png' } } })).toEqual([]);
+      expect(issues({ ...v3, browser_action: {} })).toEqual([
+        ['error', '/browser_action', 'Manifest V3 replaces "browser_action" with "action"']
+      ]);
+      expect(issues({ ...v2, action: {} }, 'firefox')[0]?.[1]).toBe('/action');
+      expect(issues({ ...v2, browser_action: { default_icon: { big: 'a.png' } } }, 'firefox')).toEqual([
+        ['error', '/browser_action/default_icon/big', 'Icon sizes must be positive integers']
+      ]);
+    });
+
+    test('should reject remote code in the Manifest V3 content security policy', () => {
+      const policy = "script-src 'self' 'wasm-unsafe-eval' http://localhost:8080; object-src 'self'";
+      expect(issues({ ...v3, content_security_policy: { extension_pages: policy } })).toEqual([]);
+      const unsafeEval = { extension_pages: "script-src 'self' 'unsafe-eval'" };
+      const evaluating = issues({ ...v3, content_security_policy: unsafeEval });
+      expect(evaluating).toEqual([[
+        'error',
+        '/content_security_policy/extension_pages',
+        "Content security policy allows script source 'unsafe-eval'"
+      ]]);
+      expect(issues({ ...v3, content_security_policy: "script-src 'self'" })[0]?.[0]).toBe('error');
+
+      const remote = issues({ ...v2, content_security_policy: "script-src 'self' https://cdn.example.com" }, 'firefox');
+      expect(remote).toEqual([
+        ['warning', '/content_security_policy', 'Content security policy allows script source https://cdn.example.com']
+      ]);
+    });
+
+    test('should check host permissions and where they are declared', () => {
+      expect(issues({ ...v3, host_permissions: ['*://*.example.com/*', 'https://*/'], permissions: ['storage'] }))
+        .toEqual([]);
+      expect(issues({ ...v3, host_permissions: ['https://ex*mple.com/*'] })).toEqual([
+        ['error', '/host_permissions/0', 'Invalid match pattern: https://ex*mple.com/*']
+      ]);
+      expect(issues({ ...v3, permissions: ['<all_urls>'] })).toEqual([
+        ['warning', '/permissions/0', 'Manifest V3 expects host patterns in "host_permissions"']
+      ]);
+      expect(issues({ ...v2, host_permissions: ['<all_urls>'] }, 'firefox')[0]?.slice(0, 2))
+        .toEqual(['warning', '/host_permissions']);
+    });
+
+    test('should check icons and escape keys in pointers', () => {
+      expect(issues({ ...v3, icons: { '16': 'a.png', '128': 'b.png' } })).toEqual([]);
+      expect(issues({ ...v3, icons: { '16': 'a.png', 'a/b~c': 'b.png' } })).toEqual([
+        ['error', '/icons/a~1b~0c', 'Icon sizes must be positive integers'],
+        ['warning', '/icons', 'Icons have no 128px size, which Chrome shows on install and in the Web Store']
+      ]);
+    });
+  });
 });
@@ -0,0 +1,105 @@
+// tests/validators/zip.test.ts
+
+import { beforeEach, describe, expect, test } from 'bun:test';
+import { SecurityError } from '../../src/errors';
+import { type ZipEntry } from '../../src/types';
+import { ZipValidator } from '../../src/validators/zip';
+
+function entry(name: string, overrides: Partial<ZipEntry> = {}): ZipEntry {
+  return {
+    name,
+    compressionMethod: 8,
+    compressedSize: 100,
+    uncompressedSize: 200,
+    crc32: 0,
+    localHeaderOffset: 0,
+    flags: 0,
+    versionMadeBy: (3 << 8) | 20,
+    externalAttributes: 0o100644 << 16,
+    isDirectory: name.endsWith('/'),
+    lastModified: new Date(0),
+    ...overrides
+  };
+}
+
+describe('ZipValidator', () => {
+  let validator: ZipValidator;
+
+  beforeEach(() => {
+    validator = new ZipValidator(1000);
+  });
+
+  test('should accept a normal archive', () => {
+    expect(() => validator.validateEntries([entry('manifest.json'), entry('js/'), entry('js/background.js')])).not
+      .toThrow();
+  });
+
+  describe('entry names', () => {
+    test('should reject absolute paths', () => {
+      for (const name of ['/etc/passwd', '\\windows\\system32', 'C:/temp/x', 'c:evil']) {
+        expect(() => validator.validateEntries([entry(name)])).toThrow(`ZIP entry "${name}" uses an absolute path`);
+      }
+    });
+
+    test('should reject parent directory references', () => {
+      for (const name of ['../evil.js', 'a/../../evil.js', 'a\\..\\evil.js', '..']) {
+        expect(() => validator.validateEntries([entry(name)])).toThrow('contains a parent directory reference');
+      }
+    });
+
+    test('should allow dots that are not path segments', () => {
+      expect(() => validator.validateEntries([entry('a..b/file...js'), entry('.well-known/x')])).not.toThrow();
+    });
+
+    test('should reject empty names and NUL bytes', () => {
+      expect(() => validator.validateEntries([entry('')])).toThrow('has an invalid name');
+      expect(() => validator.validateEntries([entry('a\0.js')])).toThrow(SecurityError);
+    });
+  });
+
+  test('should reject Unix symlinks', () => {
+    const link = entry('link', { externalAttributes: (0o120777 << 16) >>> 0 });
+    expect(() => validator.validateEntries([link])).toThrow('ZIP entry "link" is a symbolic link');
+  });
+
+  test('should ignore symlink-like attributes from non-Unix hosts', () => {
+    const dosEntry = entry('file', { versionMadeBy: 20, externalAttributes: (0o120777 << 16) >>> 0 });
+    expect(() => validator.validateEntries([dosEntry])).not.toThrow();
+  });
+
+  test('should reject encrypted entries', () => {
+    expect(() => validator.validateEntries([entry('secret.js', { flags: 0x0001 })])).toThrow(
+      'ZIP entry "secret.js" is encrypted'
+    );
+    expect(() => validator.validateEntries([entry('strong.js', { flags: 0x0041 })])).toThrow(SecurityError);
+  });
+
+  test('should reject duplicate entries', () => {
+    expect(() => validator.validateEntries([entry('a.js'), entry('a.js')])).toThrow('Duplicate ZIP entry "a.js"');
+  });
+
+  test('should reject case-colliding entries', () => {
+    expect(() => validator.validateEntries([entry('Readme.md'), entry('README.md')])).toThrow(
+      'ZIP entries "Readme.md" and "README.md" differ only in case'
+    );
+  });
+
+  test('should reject a file next to a directory of the same name', () => {
+    const message = 'ZIP entry "lib" conflicts with directory "lib/"';
+    expect(() => validator.validateEntries([entry('lib'), entry('lib/', { isDirectory: true })])).toThrow(message);
+    expect(() => validator.validateEntries([entry('lib/', { isDirectory: true }), entry('lib')])).toThrow(message);
+    expect(() => validator.validateEntries([entry('Lib/', { isDirectory: true }), entry('lib')])).toThrow(
+      'ZIP entry "lib" conflicts with directory "Lib/"'
+    );
+  });
+
+  test('should reject a single entry with an extreme compression ratio', () => {
+    const bomb = entry('bomb.bin', { compressedSize: 1000, uncompressedSize: 10 * 1024 * 1024 });
+    expect(() => validator.validateEntries([entry('a.js'), bomb])).toThrow('ZIP entry "bomb.bin" has a suspicious');
+  });
+
+  test('should not divide by zero for empty entries', () => {
+    expect(() => validator.validateEntries([entry('empty', { compressedSize: 0, uncompressedSize: 0 })])).not
+      .toThrow();
+  });
+});
@@ -0,0 +1,267 @@
+// tests/zip/reader.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { deflateRawSync } from 'node:zlib';
+import { ZIP_METHOD_DEFLATED, ZIP_METHOD_STORED } from '../../src/config/constants';
+import { ExtractionError, SecurityError } from '../../src/errors';
+import { ZipReader } from '../../src/zip/reader';
+
+interface TestEntry {
+  name: string;
+  data?: Uint8Array;
+  method?: number;
+  zip64?: boolean;
+  /** Overrides the uncompressed size written to the central directory */
+  declaredSize?: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Builds a ZIP archive in memory. ZIP64 entries store saturated sizes and offsets
+ * plus an extended information extra field, and force a ZIP64 end of central directory.
+ */
+function buildZip(entries: TestEntry[]): Uint8Array {
+  const chunks: number[] = [];
+  const central: number[] = [];
+  const u16 = (out: number[], v: number) => out.push(v & 0xff, (v >> 8) & 0xff);
+  const u32 = (out: number[], v: number) => out.push(v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >>> 24) & 0xff);
+  const u64 = (out: number[], v: number) => {
+    u32(out, v % 0x100000000);
+    u32(out, Math.floor(v / 0x100000000));
+  };
+  let useZip64 = false;
+
+  for (const entry of entries) {
+    const data = entry.data ?? new Uint8Array();
+    const method = entry.method ?? ZIP_METHOD_STORED;
+    const compressed = method === ZIP_METHOD_DEFLATED ? deflateRawSync(data) : data;
+    const name = encoder.encode(entry.name);
+    const crc = Bun.hash.crc32(data);
+    const offset = chunks.length;
+    const size = entry.declaredSize ?? data.length;
+    useZip64 ||= !!entry.zip64;
+
+    u32(chunks, 0x04034b50);
+    u16(chunks, 20);
+    u16(chunks, 0x0800);
+    u16(chunks, method);
+    u16(chunks, 0);
+    u16(chunks, 0x21);
+    u32(chunks, crc);
+    u32(chunks, compressed.length);
+    u32(chunks, size);
+    u16(chunks, name.length);
+    u16(chunks, 0);
+    chunks.push(...name, ...compressed);
+
+    const extra: number[] = [];
+    if (entry.zip64) {
+      u16(extra, 0x0001);
+      u16(extra, 24);
+      u64(extra, size);
+      u64(extra, compressed.length);
+      u64(extra, offset);
+    }
+
+    u32(central, 0x02014b50);
+    u16(central, (3 << 8) | 20);
+    u16(central, 20);
+    u16(central, 0x0800);
+    u16(central, method);
+    u16(central, 0);
+    u16(central, 0x21);
+    u32(central, crc);
+    u32(central, entry.zip64 ? 0xffffffff : compressed.length);
+    u32(central, entry.zip64 ? 0xffffffff : size);
+    u16(central, name.length);
+    u16(central, extra.length);
+    u16(central, 0);
+    u16(central, 0);
+    u16(central, 0);
+    u32(central, entry.name.endsWith('/') ? 0o40755 << 16 : 0o100644 << 16);
+    u32(central, entry.zip64 ? 0xffffffff : offset);
+    central.push(...name, ...extra);
+  }
+
+  const centralOffset = chunks.length;
+  chunks.push(...central);
+
+  if (useZip64) {
+    const recordOffset = chunks.length;
+    u32(chunks, 0x06064b50);
+    u64(chunks, 44);
+    u16(chunks, 45);
+    u16(chunks, 45);
+    u32(chunks, 0);
+    u32(chunks, 0);
+    u64(chunks, entries.length);
+    u64(chunks, entries.length);
+    u64(chunks, central.length);
+    u64(chunks, centralOffset);
+    u32(chunks, 0x07064b50);
+    u32(chunks, 0);
+    u64(chunks, recordOffset);
+    u32(chunks, 1);
+  }
+
+  u32(chunks, 0x06054b50);
+  u16(chunks, 0);
+  u16(chunks, 0);
+  u16(chunks, useZip64 ? 0xffff : entries.length);
+  u16(chunks, useZip64 ? 0xffff : entries.length);
+  u32(chunks, useZip64 ? 0xffffffff : central.length);
+  u32(chunks, useZip64 ? 0xffffffff : centralOffset);
+  u16(chunks, 0);
+
+  return new Uint8Array(chunks);
+}
+
+describe('ZipReader', () => {
+  const manifest = encoder.encode(JSON.stringify({ name: 'Test', version: '1.0', manifest_version: 3 }));
+  const script = encoder.encode('console.log("hello");\n'.repeat(50));
+
+  test('should list entries with typed metadata', async () => {
+    const reader = await ZipReader.open(buildZip([
+      { name: 'manifest.json', data: manifest },
+      { name: 'js/', method: ZIP_METHOD_STORED },
+      { name: 'js/background.js', data: script, method: ZIP_METHOD_DEFLATED }
+    ]));
+
+    expect(reader.entries.map(e => e.name)).toEqual(['manifest.json', 'js/', 'js/background.js']);
+
+    const [first, dir, deflated] = reader.entries;
+    expect(first?.compressionMethod).toBe(ZIP_METHOD_STORED);
+    expect(first?.uncompressedSize).toBe(manifest.length);
+    expect(first?.crc32).toBe(Bun.hash.crc32(manifest));
+    expect(first?.isDirectory).toBe(false);
+    expect(dir?.isDirectory).toBe(true);
+    expect(deflated?.compressionMethod).toBe(ZIP_METHOD_DEFLATED);
+    expect(deflated?.compressedSize).toBeLessThan(script.length);
+    expect(deflated?.externalAttributes! >>> 16).toBe(0o100644);
+    expect(deflated?.versionMadeBy! >> 8).toBe(3);
+    expect(deflated?.lastModified.getFullYear()).toBe(1980);
+  });
+
+  test('should read stored and deflated entries', async () => {
+    const reader = await ZipReader.open(buildZip([
+      { name: 'manifest.json', data: manifest },
+      { name: 'background.js', data: script, method: ZIP_METHOD_DEFLATED }
+    ]));
+
+    expect(await reader.read(reader.entries[0]!)).toEqual(manifest);
+    expect(await reader.read(reader.entries[1]!)).toEqual(script);
+  });
+
+  test('should report aggregate info', async () => {
+    const zip = buildZip([{ name: 'a.txt', data: manifest }, { name: 'b.js', data: script }]);
+    const reader = await ZipReader.open(zip);
+
+    expect(reader.info).toEqual({
+      fileCount: 2,
+      uncompressedSize: manifest.length + script.length,
+      compressedSize: zip.length
+    });
+  });
+
+  test('should read ZIP64 archives', async () => {
+    const reader = await ZipReader.open(buildZip([
+      { name: 'manifest.json', data: manifest, zip64: true },
+      { name: 'background.js', data: script, method: ZIP_METHOD_DEFLATED, zip64: true }
+    ]));
+
+    expect(reader.entries).toHaveLength(2);
+    expect(reader.entries[1]?.uncompressedSize).toBe(script.length);
+    expect(await reader.read(reader.entries[1]!)).toEqual(script);
+  });
+
+  test('should open empty archives', async () => {
+    const reader = await ZipReader.open(buildZip([]));
+    expect(reader.entries).toEqual([]);
+  });
+
+  test('should reject data without an end of central directory', async () => {
+    await expect(ZipReader.open(new Uint8Array(100))).rejects.toThrow(ExtractionError);
+  });
+
+  test('should reject a central directory beyond the archive', async () => {
+    const zip = buildZip([{ name: 'a.txt', data: manifest }]);
+    const view = new DataView(zip.buffer);
+    view.setUint32(zip.length - 6, 0x7fffffff, true);
+    await expect(ZipReader.open(zip)).rejects.toThrow('Central directory extends beyond the end of the archive');
+  });
+
+  test('should detect CRC mismatches', async () => {
+    const zip = buildZip([{ name: 'a.txt', data: manifest }]);
+    zip[30 + 'a.txt'.length] ^= 0xff;
+    const reader = await ZipReader.open(zip);
+    await expect(reader.read(reader.entries[0]!)).rejects.toThrow('CRC-32 mismatch for entry "a.txt"');
+  });
+
+  test('should refuse to inflate beyond the declared size', async () => {
+    const reader = await ZipReader.open(buildZip([
+      { name: 'bomb.txt', data: new Uint8Array(100000), method: ZIP_METHOD_DEFLATED, declaredSize: 10 }
+    ]));
+    await expect(reader.read(reader.entries[0]!)).rejects.toThrow(SecurityError);
+  });
+
+  test('should reject unsupported compression methods', async () => {
+    const reader = await ZipReader.open(buildZip([{ name: 'a.txt', data: manifest, method: 12 }]));
+    await expect(reader.read(reader.entries[0]!)).rejects.toThrow('Unsupported compression method 12');
+  });
+
+  describe('stream', () => {
+    async function collect(reader: ZipReader, index: number): Promise<Uint8Array[]> {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of reader.stream(reader.entries[index]!)) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    }
+
+    test('should stream stored and deflated entries', async () => {
+      const reader = await ZipReader.open(buildZip([
+        { name: 'manifest.json', data: manifest },
+        { name: 'background.js', data: script, method: ZIP_METHOD_DEFLATED }
+      ]));
+
+      expect(Buffer.concat(await collect(reader, 0))).toEqual(Buffer.from(manifest));
+      expect(Buffer.concat(await collect(reader, 1))).toEqual(Buffer.from(script));
+    });
+
+    test('should yield large entries in several chunks', async () => {
+      const big = new Uint8Array(300 * 1024).map((_, i) => (i * 7) % 251);
+      const reader = await ZipReader.open(buildZip([
+        { name: 'stored.bin', data: big },
+        { name: 'deflated.bin', data: big, method: ZIP_METHOD_DEFLATED }
+      ]));
+
+      for (const index of [0, 1]) {
+        const chunks = await collect(reader, index);
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(Buffer.concat(chunks)).toEqual(Buffer.from(big));
+      }
+    });
+
+    test('should detect CRC mismatches', async () => {
+      const zip = buildZip([{ name: 'a.txt', data: manifest }]);
+      zip[30 + 'a.txt'.length] ^= 0xff;
+      const reader = await ZipReader.open(zip);
+      await expect(collect(reader, 0)).rejects.toThrow('CRC-32 mismatch for entry "a.txt"');
+    });
+
+    test('should stop once output passes the declared size', async () => {
+      const reader = await ZipReader.open(buildZip([
+        { name: 'bomb.txt', data: new Uint8Array(1024 * 1024), method: ZIP_METHOD_DEFLATED, declaredSize: 10 }
+      ]));
+      await expect(collect(reader, 0)).rejects.toThrow(SecurityError);
+    });
+
+    test('should report corrupt deflate data', async () => {
+      const zip = buildZip([{ name: 'a.txt', data: script, method: ZIP_METHOD_DEFLATED }]);
+      zip.fill(0xff, 30 + 'a.txt'.length, 30 + 'a.txt'.length + 8);
+      const reader = await ZipReader.open(zip);
+      await expect(collect(reader, 0)).rejects.toThrow(ExtractionError);
+    });
+  });
+});
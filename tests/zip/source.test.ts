@@ -0,0 +1,49 @@
+// tests/zip/source.test.ts
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSource, MemorySource } from '../../src/zip/source';
+
+const DATA = new Uint8Array(Array.from({ length: 64 }, (_, i) => i));
+
+describe('MemorySource', () => {
+  test('should read ranges of the buffer', async () => {
+    const source = new MemorySource(DATA);
+    expect(source.size).toBe(64);
+    expect(await source.read(10, 3)).toEqual(new Uint8Array([10, 11, 12]));
+  });
+});
+
+describe('FileSource', () => {
+  let dir: string;
+  let path: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'crx-source-'));
+    path = join(dir, 'data.bin');
+    await Bun.write(path, DATA);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test('should read ranges from disk', async () => {
+    const source = new FileSource(Bun.file(path));
+    expect(source.size).toBe(64);
+    expect(await source.read(60, 4)).toEqual(new Uint8Array([60, 61, 62, 63]));
+  });
+
+  test('should address a slice relative to its start', async () => {
+    const source = new FileSource(Bun.file(path).slice(32, 64));
+    expect(source.size).toBe(32);
+    expect(await source.read(0, 2)).toEqual(new Uint8Array([32, 33]));
+  });
+
+  test('should return short reads at the end of the file', async () => {
+    const source = new FileSource(Bun.file(path));
+    expect(await source.read(62, 10)).toEqual(new Uint8Array([62, 63]));
+  });
+});
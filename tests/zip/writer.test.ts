@@ -0,0 +1,64 @@
+// tests/zip/writer.test.ts
+
+import { describe, expect, test } from 'bun:test';
+import { ZIP_METHOD_DEFLATED, ZIP_METHOD_STORED } from '../../src/config/constants';
+import { ValidationError } from '../../src/errors';
+import { ZipReader } from '../../src/zip/reader';
+import { ZipWriter } from '../../src/zip/writer';
+
+const encoder = new TextEncoder();
+
+describe('ZipWriter', () => {
+  test('should produce archives the reader can extract', async () => {
+    const manifest = encoder.encode('{"name":"test","version":"1.0"}');
+    const script = encoder.encode('console.log("hi");\n'.repeat(50));
+    const zip = new ZipWriter().add('manifest.json', manifest).add('js/background.js', script).finish();
+
+    const reader = await ZipReader.open(zip);
+    expect(reader.entries.map(entry => entry.name)).toEqual(['manifest.json', 'js/background.js']);
+    expect(await reader.read(reader.entries[0]!)).toEqual(manifest);
+    expect(await reader.read(reader.entries[1]!)).toEqual(script);
+  });
+
+  test('should only deflate entries that get smaller', async () => {
+    const zip = new ZipWriter()
+      .add('repetitive.txt', new Uint8Array(1000).fill(0x61))
+      .add('tiny.txt', encoder.encode('x'))
+      .finish();
+
+    const reader = await ZipReader.open(zip);
+    expect(reader.entries[0]?.compressionMethod).toBe(ZIP_METHOD_DEFLATED);
+    expect(reader.entries[1]?.compressionMethod).toBe(ZIP_METHOD_STORED);
+  });
+
+  test('should record Unix regular file attributes', async () => {
+    const reader = await ZipReader.open(new ZipWriter().add('a.txt', encoder.encode('a')).finish());
+    const entry = reader.entries[0]!;
+    expect(entry.versionMadeBy >> 8).toBe(3);
+    expect(entry.externalAttributes >>> 16).toBe(0o100644);
+  });
+
+  test('should be reproducible', () => {
+    const build = () => new ZipWriter().add('a.txt', encoder.encode('same')).finish();
+    expect(build()).toEqual(build());
+  });
+
+  test('should reject duplicate names', () => {
+    const writer = new ZipWriter().add('a.txt', new Uint8Array());
+    expect(() => writer.add('a.txt', new Uint8Array())).toThrow(ValidationError);
+  });
+
+  test('should stream to a sink the same bytes it would build', () => {
+    const chunks: Uint8Array[] = [];
+    const streamed = new ZipWriter(chunk => chunks.push(chunk)).add('a.txt', encoder.encode('same'));
+    expect(streamed.finish()).toEqual(new Uint8Array());
+
+    const built = new ZipWriter().add('a.txt', encoder.encode('same')).finish();
+    expect(new Uint8Array(Buffer.concat(chunks))).toEqual(built);
+  });
+
+  test('should write a valid empty archive', async () => {
+    const reader = await ZipReader.open(new ZipWriter().finish());
+    expect(reader.entries).toHaveLength(0);
+  });
+});